@@ -1,90 +1,396 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { Layers, Github, Sparkles } from 'lucide-react';
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { Layers, Github, Sparkles, FileText, X, FolderOpen, Save, ArrowLeftRight } from 'lucide-react';
 import { Uploader } from './components/Uploader';
 import { Controls } from './components/Controls';
+import { ToneControls } from './components/ToneControls';
 import { Preview } from './components/Preview';
-import { ProcessingConfig, ImageSlot } from './types';
-import { loadImage, generateMirageTank } from './services/imageProcessor';
+import { Decoder } from './components/Decoder';
+import { Analyzer, RecoveredLayers } from './components/Analyzer';
+import { FramingEditor } from './components/FramingEditor';
+import { HistoryPanel } from './components/HistoryPanel';
+import { PresetManager } from './components/PresetManager';
+import { isPlainKey, isTextEntry } from './components/shortcuts';
+import { ProcessingConfig, ImageSlot, AppMode, FidelityMetrics, InspectionData, LayerTransform, MirageProject, MirageSettings, RgbaImage } from './types';
+import { runMirageJob } from './services/mirageClient';
+import { DEFAULT_CONFIG } from './services/mirageCore';
+import { DEFAULT_TRANSFORM } from './services/framing';
+import { StegoCapacityError } from './services/steganography';
+import { createThumbnail, loadRgba } from './services/imageProcessor';
+import { autoTune, AutoTuneBias, AutoTuneResult } from './services/autoTune';
+import { readSettings, restoreConfig } from './services/metadata';
+import { createProjectFile, PROJECT_EXTENSION, readProjectFile } from './services/project';
+import { clearSession, loadSession, saveSession } from './services/autosave';
+import { EMPTY_HISTORY, HistoryState, pushHistory, sameProject, setThumbnail } from './services/history';
 
-const INITIAL_CONFIG: ProcessingConfig = {
-  surfaceMin: 160, // Maps Surface to [160, 255]
-  hiddenMax: 100,  // Maps Hidden to [0, 100]
-  grayscale: true,
-  dithering: 0.2, // 20% default dithering for smoother gradients
-  steganography: "",
-};
+/** A change becomes an undo step once nothing else changed for this long, in ms. */
+const HISTORY_DELAY = 600;
+
+/** Long edge of history thumbnails, in px. */
+const THUMBNAIL_SIZE = 96;
 
 function App() {
-  const [config, setConfig] = useState<ProcessingConfig>(INITIAL_CONFIG);
-  const [surfaceFile, setSurfaceFile] = useState<File | null>(null);
-  const [hiddenFile, setHiddenFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<AppMode>('generate');
+  const [config, setConfig] = useState<ProcessingConfig>(DEFAULT_CONFIG);
+  // One file per slot, or several forming a frame sequence
+  const [surfaceFiles, setSurfaceFiles] = useState<File[]>([]);
+  const [hiddenFiles, setHiddenFiles] = useState<File[]>([]);
+  const [secretFile, setSecretFile] = useState<File | null>(null);
   
   // Object URLs for previewing inputs
   const [surfacePreview, setSurfacePreview] = useState<string | null>(null);
   const [hiddenPreview, setHiddenPreview] = useState<string | null>(null);
+  const [secretPreview, setSecretPreview] = useState<string | null>(null);
+
+  // The first file stands for its slot in histograms, framing and auto-tune
+  const surfaceFile = surfaceFiles[0] ?? null;
+  const hiddenFile = hiddenFiles[0] ?? null;
   
   const [resultUrl, setResultUrl] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Payload bytes the current output can hold, from the last run
+  const [stegoCapacity, setStegoCapacity] = useState<number | null>(null);
+  const [secretBytes, setSecretBytes] = useState(0);
+
+  // Quality of the last result and its error overlay
+  const [fidelity, setFidelity] = useState<FidelityMetrics | null>(null);
+  const [heatmapUrl, setHeatmapUrl] = useState<string | null>(null);
+
+  // Animation of the last result; a still has one frame
+  const [frameCount, setFrameCount] = useState(1);
+  const [duration, setDuration] = useState(0);
+
+  // Pixels behind the last result, for the preview's pixel inspector
+  const [inspection, setInspection] = useState<InspectionData | null>(null);
+
+  // Last auto-tune outcome, shown while its values are still in use
+  const [autoTuneResult, setAutoTuneResult] = useState<AutoTuneResult | null>(null);
+  const [isTuning, setIsTuning] = useState(false);
+
+  // Decoded inputs for the tone histograms
+  const [surfaceImage, setSurfaceImage] = useState<RgbaImage | null>(null);
+  const [hiddenImage, setHiddenImage] = useState<RgbaImage | null>(null);
+
+  // Input whose framing editor is open
+  const [editingSlot, setEditingSlot] = useState<'surface' | 'hidden' | null>(null);
+
+  // Settings recorded in an uploaded input, offered for restoring
+  const [foundSettings, setFoundSettings] = useState<{ settings: MirageSettings; fileName: string } | null>(null);
+
+  // Autosave waits for the stored session to load so it can't overwrite it
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  // Undo history of inputs and settings
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  // Thumbnail of the latest result, for when its snapshot is recorded after it arrives
+  const lastThumbnailRef = useRef<{ project: MirageProject; thumbnail: string } | null>(null);
 
   // Handle Input Changes
-  const handleImageSelect = (slot: ImageSlot, file: File) => {
-    const url = URL.createObjectURL(file);
+  const handleFramesSelect = (slot: ImageSlot, files: File[]) => {
+    const url = URL.createObjectURL(files[0]);
     if (slot === 'surface') {
-      setSurfaceFile(file);
+      setSurfaceFiles(files);
       setSurfacePreview(url);
-    } else {
-      setHiddenFile(file);
+      setConfig(c => ({ ...c, surfaceTransform: DEFAULT_TRANSFORM }));
+    } else if (slot === 'hidden') {
+      setHiddenFiles(files);
       setHiddenPreview(url);
+      setConfig(c => ({ ...c, hiddenTransform: DEFAULT_TRANSFORM }));
+    } else {
+      setSecretFile(files[0]);
+      setSecretPreview(url);
+      return;
     }
+    // An earlier output used as an input can bring its settings back
+    const [first] = files;
+    first.arrayBuffer()
+      .then(buffer => {
+        const settings = readSettings(new Uint8Array(buffer));
+        if (settings) setFoundSettings({ settings, fileName: first.name });
+      })
+      .catch(err => console.error("Reading metadata failed", err));
+  };
+
+  const handleRestoreSettings = (settings: MirageSettings) => {
+    setConfig(c => restoreConfig(settings, c));
+    setFoundSettings(null);
+    setMode('generate');
+  };
+
+  const handleImageSelect = (slot: ImageSlot, file: File) => handleFramesSelect(slot, [file]);
+
+  // Layers split off an existing mirage, to regenerate it with our settings
+  const handleUseLayers = ({ surface, hidden, ranges }: RecoveredLayers) => {
+    handleFramesSelect('surface', [surface]);
+    handleFramesSelect('hidden', [hidden]);
+    if (ranges) setConfig(c => ({ ...c, ...ranges }));
+    setMode('generate');
+  };
+
+  const handleFramingChange = (slot: 'surface' | 'hidden', transform: LayerTransform) => {
+    setConfig(c => ({ ...c, [slot === 'surface' ? 'surfaceTransform' : 'hiddenTransform']: transform }));
+  };
+
+  const clearResult = () => {
+    setResultUrl(null);
+    setStegoCapacity(null);
+    setSecretBytes(0);
+    setFidelity(null);
+    setHeatmapUrl(null);
+    setFrameCount(1);
+    setDuration(0);
+    setInspection(null);
+    setError(null);
   };
 
   const handleClear = (slot: ImageSlot) => {
     if (slot === 'surface') {
-      setSurfaceFile(null);
+      setSurfaceFiles([]);
       setSurfacePreview(null);
-    } else {
-      setHiddenFile(null);
+      setConfig(c => ({ ...c, surfaceTransform: DEFAULT_TRANSFORM }));
+    } else if (slot === 'hidden') {
+      setHiddenFiles([]);
       setHiddenPreview(null);
+      setConfig(c => ({ ...c, hiddenTransform: DEFAULT_TRANSFORM }));
+    } else {
+      // The output stays valid without its secret; it just gets regenerated
+      setSecretFile(null);
+      setSecretPreview(null);
+      setSecretBytes(0);
+      return;
     }
-    setResultUrl(null);
+    clearResult();
   };
 
-  // Debounced Processing Effect
-  useEffect(() => {
+  // Puts back the inputs and settings of a project or history snapshot
+  const restoreSnapshot = (project: MirageProject) => {
+    setSurfaceFiles(project.surface);
+    setHiddenFiles(project.hidden);
+    setSecretFile(project.secret);
+    setSurfacePreview(project.surface[0] ? URL.createObjectURL(project.surface[0]) : null);
+    setHiddenPreview(project.hidden[0] ? URL.createObjectURL(project.hidden[0]) : null);
+    setSecretPreview(project.secret ? URL.createObjectURL(project.secret) : null);
+    setConfig(project.config);
+  };
+
+  // Replaces inputs and settings with a saved project's
+  const applyProject = (project: MirageProject) => {
+    restoreSnapshot(project);
+    setFoundSettings(null);
+    setAutoTuneResult(null);
+    clearResult();
+  };
+
+  const jumpTo = (index: number) => {
+    const entry = history.entries[index];
+    if (!entry) return;
+    setHistory(h => ({ ...h, index }));
+    restoreSnapshot(entry.project);
+    // The result updates by itself unless an input is now missing
+    if (entry.project.surface.length === 0 || entry.project.hidden.length === 0) clearResult();
+  };
+
+  const handleUndo = () => {
+    // A change too recent to be recorded yet is undone first
+    const current = history.entries[history.index];
+    const project = { config, surface: surfaceFiles, hidden: hiddenFiles, secret: secretFile };
+    jumpTo(current && !sameProject(current.project, project) ? history.index : history.index - 1);
+  };
+
+  const handleRedo = () => jumpTo(history.index + 1);
+
+  // Framing and tone follow their image to the other slot
+  const handleSwap = () => {
+    setSurfaceFiles(hiddenFiles);
+    setHiddenFiles(surfaceFiles);
+    setSurfacePreview(hiddenPreview);
+    setHiddenPreview(surfacePreview);
+    setConfig(c => ({
+      ...c,
+      surfaceTransform: c.hiddenTransform,
+      hiddenTransform: c.surfaceTransform,
+      surfaceTone: c.hiddenTone,
+      hiddenTone: c.surfaceTone,
+    }));
+  };
+
+  const handleSaveProject = () => {
+    const url = URL.createObjectURL(createProjectFile({ config, surface: surfaceFiles, hidden: hiddenFiles, secret: secretFile }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `mirage-tank-${Date.now()}.${PROJECT_EXTENSION}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      applyProject(await readProjectFile(file));
+      setMode('generate');
+    } catch (err) {
+      console.error("Opening project failed", err);
+      setError(err instanceof Error ? err.message : "Opening project failed");
+    }
+  };
+
+  // Picks surfaceMin/hiddenMax from the inputs and applies them
+  const handleAutoTune = async (bias: AutoTuneBias) => {
     if (!surfaceFile || !hiddenFile) return;
+    setIsTuning(true);
+    try {
+      const [surface, hidden] = await Promise.all([loadRgba(surfaceFile), loadRgba(hiddenFile)]);
+      const tuned = autoTune(surface, hidden, config, bias);
+      setAutoTuneResult(tuned);
+      setConfig({ ...config, surfaceMin: tuned.surfaceMin, hiddenMax: tuned.hiddenMax });
+    } catch (err) {
+      console.error("Auto-tune failed", err);
+      setError(err instanceof Error ? err.message : "Auto-tune failed");
+    } finally {
+      setIsTuning(false);
+    }
+  };
 
-    let active = true;
+  // Pick up the session left open last time. One that can't be restored is
+  // discarded, so the next autosave starts over from the defaults.
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const project = await loadSession();
+        if (project) applyProject(project);
+      } catch (err) {
+        console.error("Restoring session failed", err);
+        setError("The last session couldn't be restored and was discarded.");
+        applyProject({ config: DEFAULT_CONFIG, surface: [], hidden: [], secret: null });
+        clearSession().catch(clearErr => console.error("Discarding session failed", clearErr));
+      } finally {
+        setSessionLoaded(true);
+      }
+    };
+    restore();
+  }, []);
+
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    const timeoutId = setTimeout(() => {
+      saveSession({ config, surface: surfaceFiles, hidden: hiddenFiles, secret: secretFile })
+        .catch(err => console.error("Autosave failed", err));
+    }, 1000);
+    return () => clearTimeout(timeoutId);
+  }, [sessionLoaded, surfaceFiles, hiddenFiles, secretFile, config]);
+
+  // Undo steps, starting from whatever the session opened with
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    const project = { config, surface: surfaceFiles, hidden: hiddenFiles, secret: secretFile };
+    const timeoutId = setTimeout(() => {
+      const last = lastThumbnailRef.current;
+      setHistory(h => pushHistory(h, project, last && sameProject(last.project, project) ? last.thumbnail : null));
+    }, HISTORY_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [sessionLoaded, surfaceFiles, hiddenFiles, secretFile, config]);
+
+  // Handlers change every render; the listener reads the latest through a ref
+  const shortcutsRef = useRef({ handleUndo, handleRedo, handleSwap });
+  shortcutsRef.current = { handleUndo, handleRedo, handleSwap };
+  useEffect(() => {
+    if (mode !== 'generate') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const { handleUndo, handleRedo, handleSwap } = shortcutsRef.current;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && (key === 'z' || key === 'y')) {
+        // Text fields keep their own undo
+        if (isTextEntry(e.target)) return;
+        e.preventDefault();
+        if (key === 'y' || e.shiftKey) handleRedo();
+        else handleUndo();
+      } else if (key === 'x' && isPlainKey(e)) {
+        handleSwap();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [mode]);
+
+  // Load errors are left to the generation run, which reports them
+  useEffect(() => {
+    setSurfaceImage(null);
+    if (!surfaceFile) return;
+    let cancelled = false;
+    loadRgba(surfaceFile).then(image => { if (!cancelled) setSurfaceImage(image); }, () => {});
+    return () => { cancelled = true; };
+  }, [surfaceFile]);
+
+  useEffect(() => {
+    setHiddenImage(null);
+    if (!hiddenFile) return;
+    let cancelled = false;
+    loadRgba(hiddenFile).then(image => { if (!cancelled) setHiddenImage(image); }, () => {});
+    return () => { cancelled = true; };
+  }, [hiddenFile]);
+
+  // Debounced Processing Effect. The work runs in a worker; a newer change
+  // aborts the in-flight job instead of waiting for it to finish.
+  useEffect(() => {
+    // A job aborted by clearing an input never gets to reset this itself
+    if (!surfaceFile || !hiddenFile) {
+      setIsProcessing(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const project = { config, surface: surfaceFiles, hidden: hiddenFiles, secret: secretFile };
     const process = async () => {
       setIsProcessing(true);
+      setProgress(0);
       try {
-        const [imgA, imgB] = await Promise.all([
-          loadImage(surfaceFile),
-          loadImage(hiddenFile)
-        ]);
-
-        if (!active) return;
+        const result = await runMirageJob(
+          { surface: surfaceFiles, hidden: hiddenFiles, secret: secretFile },
+          config,
+          { signal: controller.signal, onProgress: setProgress }
+        );
 
-        // Small delay to allow UI to render the loading state before heavy calculation
-        await new Promise(r => setTimeout(r, 50));
+        setResultUrl(result.dataUrl);
+        setStegoCapacity(result.stegoCapacity);
+        setSecretBytes(result.secretBytes);
+        setFidelity(result.fidelity);
+        setHeatmapUrl(result.heatmapUrl);
+        setFrameCount(result.frameCount);
+        setDuration(result.duration);
+        setInspection(result.inspection);
+        setError(null);
 
-        const result = await generateMirageTank(imgA, imgB, config);
-        
-        if (active) {
-          setResultUrl(result);
-        }
+        createThumbnail(result.dataUrl, THUMBNAIL_SIZE)
+          .then(thumbnail => {
+            lastThumbnailRef.current = { project, thumbnail };
+            setHistory(h => setThumbnail(h, project, thumbnail));
+          })
+          .catch(err => console.error("Thumbnail failed", err));
       } catch (err) {
+        if (controller.signal.aborted) return;
         console.error("Processing failed", err);
+        if (err instanceof StegoCapacityError) {
+          setStegoCapacity(err.available);
+        }
+        setError(err instanceof Error ? err.message : "Processing failed");
       } finally {
-        if (active) setIsProcessing(false);
+        if (!controller.signal.aborted) setIsProcessing(false);
       }
     };
 
     const timeoutId = setTimeout(process, 400); // Increased debounce slightly for heavier processing
     return () => {
-      active = false;
+      controller.abort();
       clearTimeout(timeoutId);
     };
-  }, [surfaceFile, hiddenFile, config]);
+  }, [surfaceFiles, hiddenFiles, secretFile, config]);
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -101,6 +407,50 @@ function App() {
             </div>
           </div>
           <div className="flex items-center gap-4">
+             <div className="flex items-center gap-1">
+               <input
+                 ref={projectInputRef}
+                 type="file"
+                 accept={`.${PROJECT_EXTENSION}`}
+                 onChange={handleOpenProject}
+                 className="hidden"
+               />
+               <button
+                 onClick={() => projectInputRef.current?.click()}
+                 title="Open project"
+                 className="p-2 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+               >
+                 <FolderOpen size={16} />
+               </button>
+               <button
+                 onClick={handleSaveProject}
+                 disabled={surfaceFiles.length === 0 && hiddenFiles.length === 0}
+                 title="Save project (inputs, settings and message; an encrypted message or file is left out)"
+                 className="p-2 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+               >
+                 <Save size={16} />
+               </button>
+             </div>
+             <div className="flex items-center gap-1 bg-zinc-900 p-1 rounded-lg border border-zinc-800">
+               <button
+                 onClick={() => setMode('generate')}
+                 className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${mode === 'generate' ? 'bg-indigo-600 text-white shadow-sm' : 'text-zinc-400 hover:text-zinc-200'}`}
+               >
+                 Generate
+               </button>
+               <button
+                 onClick={() => setMode('decode')}
+                 className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${mode === 'decode' ? 'bg-indigo-600 text-white shadow-sm' : 'text-zinc-400 hover:text-zinc-200'}`}
+               >
+                 Decode
+               </button>
+               <button
+                 onClick={() => setMode('analyze')}
+                 className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${mode === 'analyze' ? 'bg-indigo-600 text-white shadow-sm' : 'text-zinc-400 hover:text-zinc-200'}`}
+               >
+                 Analyze
+               </button>
+             </div>
              <span className="hidden md:flex items-center gap-2 text-xs text-zinc-500 border border-zinc-800 px-3 py-1 rounded-full">
                 <Sparkles size={12} className="text-indigo-400"/>
                 <span>Alpha Channel Magic</span>
@@ -112,50 +462,163 @@ function App() {
         </div>
       </header>
 
+      {editingSlot && (editingSlot === 'surface' ? surfacePreview : hiddenPreview) && (
+        <FramingEditor
+          slot={editingSlot}
+          surfaceSrc={surfacePreview}
+          hiddenSrc={hiddenPreview}
+          config={config}
+          onChange={handleFramingChange}
+          onClose={() => setEditingSlot(null)}
+        />
+      )}
+
+      {/* Decode Mode */}
+      {mode === 'decode' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-6">
+          <Decoder onRestoreSettings={handleRestoreSettings} />
+        </main>
+      )}
+
+      {/* Analyze Mode */}
+      {mode === 'analyze' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-6">
+          <Analyzer onUseLayers={handleUseLayers} />
+        </main>
+      )}
+
       {/* Main Content */}
-      <main className="flex-1 max-w-7xl mx-auto w-full p-6 grid lg:grid-cols-12 gap-8">
+      {mode === 'generate' && (
+        <main className="flex-1 max-w-7xl mx-auto w-full p-6 grid lg:grid-cols-12 gap-8">
         
-        {/* Left Column: Inputs & Controls */}
-        <div className="lg:col-span-5 space-y-8 flex flex-col h-full">
+          {/* Left Column: Inputs & Controls */}
+          <div className="lg:col-span-5 space-y-8 flex flex-col h-full">
+
+            {foundSettings && (
+              <div className="p-3 rounded-lg flex items-start gap-2 border bg-indigo-500/10 border-indigo-500/20">
+                <FileText size={16} className="text-indigo-400 mt-0.5 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-zinc-300 truncate">{foundSettings.fileName} records the settings it was made with.</p>
+                  <button
+                    onClick={() => handleRestoreSettings(foundSettings.settings)}
+                    className="mt-1 text-xs font-semibold text-indigo-300 hover:text-indigo-200"
+                  >
+                    Restore settings
+                  </button>
+                </div>
+                <button
+                  onClick={() => setFoundSettings(null)}
+                  title="Dismiss"
+                  className="text-zinc-500 hover:text-zinc-200 transition-colors"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            )}
           
-          {/* Upload Section */}
-          <div className="grid grid-cols-2 gap-4 h-64 lg:h-auto lg:flex-1">
-            <Uploader 
-              label="Surface Image" 
-              description="Visible on Light Mode (White Background)"
-              slot="surface"
-              imageSrc={surfacePreview}
-              onImageSelected={handleImageSelect}
-              onClear={handleClear}
-            />
-            <Uploader 
-              label="Hidden Image" 
-              description="Visible on Dark Mode (Black Background)"
-              slot="hidden"
-              imageSrc={hiddenPreview}
-              onImageSelected={handleImageSelect}
-              onClear={handleClear}
-            />
-          </div>
+            {/* Upload Section */}
+            <div className="flex flex-col gap-2 lg:flex-1">
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSwap}
+                  disabled={surfaceFiles.length === 0 && hiddenFiles.length === 0}
+                  title="Swap surface and hidden (X)"
+                  className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs font-medium text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  <ArrowLeftRight size={12} />
+                  Swap
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-4 h-64 lg:h-auto lg:flex-1">
+                <Uploader 
+                  label="Surface Image" 
+                  description="Visible on Light Mode (White Background)"
+                  slot="surface"
+                  imageSrc={surfacePreview}
+                  onImageSelected={handleImageSelect}
+                  onClear={handleClear}
+                  onEdit={setEditingSlot}
+                  onFramesSelected={handleFramesSelect}
+                  frameCount={surfaceFiles.length}
+                />
+                <Uploader 
+                  label="Hidden Image" 
+                  description="Visible on Dark Mode (Black Background)"
+                  slot="hidden"
+                  imageSrc={hiddenPreview}
+                  onImageSelected={handleImageSelect}
+                  onClear={handleClear}
+                  onEdit={setEditingSlot}
+                  onFramesSelected={handleFramesSelect}
+                  frameCount={hiddenFiles.length}
+                />
+                <Uploader 
+                  label="Secret Image" 
+                  description="Optional. Hidden in the pixel LSBs, revealed by Decode"
+                  slot="secret"
+                  imageSrc={secretPreview}
+                  onImageSelected={handleImageSelect}
+                  onClear={handleClear}
+                />
+              </div>
+            </div>
 
-          {/* Controls Section */}
-          <div className="flex-shrink-0">
-             <Controls 
-                config={config} 
-                onChange={setConfig} 
-                isProcessing={isProcessing} 
-             />
+            {/* Tone Section */}
+            <div className="flex-shrink-0">
+               <ToneControls
+                  config={config}
+                  onChange={setConfig}
+                  isProcessing={isProcessing}
+                  surfaceImage={surfaceImage}
+                  hiddenImage={hiddenImage}
+               />
+            </div>
+
+            {/* Presets Section */}
+            <div className="flex-shrink-0">
+               <PresetManager config={config} onChange={setConfig} isProcessing={isProcessing} />
+            </div>
+
+            {/* Controls Section */}
+            <div className="flex-shrink-0">
+               <Controls 
+                  config={config} 
+                  onChange={setConfig} 
+                  isProcessing={isProcessing} 
+                  stegoCapacity={stegoCapacity}
+                  secretBytes={secretBytes}
+                  onAutoTune={surfaceFile && hiddenFile ? handleAutoTune : undefined}
+                  autoTune={autoTuneResult}
+                  isTuning={isTuning}
+                  hasFrameSequence={surfaceFiles.length > 1 || hiddenFiles.length > 1}
+               />
+            </div>
+
+            {/* History Section */}
+            <div className="flex-shrink-0">
+               <HistoryPanel history={history} onJump={jumpTo} onUndo={handleUndo} onRedo={handleRedo} />
+            </div>
           </div>
-        </div>
 
-        {/* Right Column: Preview */}
-        <div className="lg:col-span-7 h-[600px] lg:h-auto lg:min-h-[calc(100vh-8rem)] sticky top-24">
-          <Preview 
-            resultUrl={resultUrl} 
-            isProcessing={isProcessing}
-          />
-        </div>
-      </main>
+          {/* Right Column: Preview */}
+          <div className="lg:col-span-7 h-[600px] lg:h-auto lg:min-h-[calc(100vh-8rem)] sticky top-24">
+            <Preview 
+              resultUrl={resultUrl} 
+              isProcessing={isProcessing}
+              progress={progress}
+              error={error}
+              fidelity={fidelity}
+              heatmapUrl={heatmapUrl}
+              lightBackground={config.lightBackground}
+              darkBackground={config.darkBackground}
+              frameCount={frameCount}
+              duration={duration}
+              hasPayload={!!config.steganography || secretBytes > 0}
+              inspection={inspection}
+            />
+          </div>
+        </main>
+      )}
     </div>
   );
 }
@@ -0,0 +1,514 @@
+import { parseArgs } from 'node:util';
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { inflateSync } from 'node:zlib';
+import { AnimatedImage, LayerTransform, ProcessingConfig, StegoChannel, ToneAdjustments } from '../types';
+import { DEFAULT_CONFIG, SecretSource } from '../services/mirageCore';
+import { parseHexColor } from '../services/mapping';
+import { DEFAULT_TRANSFORM } from '../services/framing';
+import { DEFAULT_TONE } from '../services/tone';
+import { decodePng, encodePng, isPng } from '../services/png';
+import { StegoCapacityError } from '../services/steganography';
+import { decodeApng, encodeApng } from '../services/apng';
+import { decodeGif, isGif } from '../services/gif';
+import { frameSequence, generateAnimatedMirage } from '../services/animation';
+import {
+  createSettingsChunks,
+  hashSources,
+  readSettings,
+  restoreConfig,
+  COLOR_SOLVERS,
+  DITHER_ALGORITHMS,
+  EQUALIZE_MODES,
+  FIT_MODES,
+} from '../services/metadata';
+
+/**
+ * Headless mirage tank generator. Runs the same core as the web app, with our
+ * own PNG codec on both ends, so the same inputs and settings give the same
+ * bytes as a download from the browser.
+ *
+ *   mirage-tank surface.png hidden.png -o out.png [options]
+ *   mirage-tank surface.gif frames/ -o out.png [options]
+ *   mirage-tank --manifest jobs.json [options]
+ *   mirage-tank --settings-from old.png surface.png hidden.png -o out.png
+ */
+
+const USAGE = `Usage:
+  mirage-tank <surface.png> <hidden.png> -o <out.png> [options]
+  mirage-tank <surface.gif|apng|dir> <hidden.gif|apng|dir> -o <out.png> [options]
+  mirage-tank --manifest <jobs.json|jobs.csv> [options]
+
+Options:
+  -o, --output <file>        Output PNG (single mode)
+      --manifest <file>      Batch file, JSON array or CSV with a header row
+      --settings-from <png>  Start from the settings recorded in an earlier output
+      --secret <file>        File to hide in the output, embedded verbatim
+      --surface-min <0-255>  Surface is mapped to [surfaceMin, 255] (default ${DEFAULT_CONFIG.surfaceMin})
+      --hidden-max <0-255>   Hidden is mapped to [0, hiddenMax] (default ${DEFAULT_CONFIG.hiddenMax})
+      --adaptive <0-1>       Adaptive local mapping strength, 0 is off (default ${DEFAULT_CONFIG.adaptiveMapping})
+      --adaptive-radius <px> Smoothing radius of the adaptive mapping (default ${DEFAULT_CONFIG.adaptiveRadius})
+      --color                Keep color (default: grayscale)
+      --grayscale            Force grayscale
+      --light-bg <#RRGGBB>   Background the surface is shown on (default ${DEFAULT_CONFIG.lightBackground})
+      --dark-bg <#RRGGBB>    Background the hidden image is shown on (default ${DEFAULT_CONFIG.darkBackground})
+      --color-solver <s>     max-alpha or lab (default ${DEFAULT_CONFIG.colorSolver})
+      --solver-weight <0-1>  Lab solver: 1 favors the surface, 0 the hidden image (default ${DEFAULT_CONFIG.colorSolverWeight})
+      --dither <0-1>         Dithering strength (default ${DEFAULT_CONFIG.dithering})
+      --dither-algorithm <a> blue-noise, bayer, floyd-steinberg or noise (default ${DEFAULT_CONFIG.ditherAlgorithm})
+      --seed <n>             Seed for dithering (default ${DEFAULT_CONFIG.seed})
+      --message <text>       Message to hide in the low bits
+      --passphrase <text>    Encrypt the hidden payload
+      --stego-bits <1|2>     Bits per carrier channel (default ${DEFAULT_CONFIG.steganographyBits})
+      --stego-channels <rgb> Carrier channels, any of r, g, b (default rgb)
+      --skip-transparent     Skip pixels below 50% alpha when hiding data (fewer re-encoding errors)
+      --width <px>           Output width (default: smaller input)
+      --height <px>          Output height (default: smaller input)
+      --surface-frame <spec> Framing of the surface, e.g. fit=contain,zoom=1.5,x=0.1,y=-0.2,rotate=90,flip=x
+      --hidden-frame <spec>  Framing of the hidden image (same keys; default fit=cover)
+      --surface-tone <spec>  Tone of the surface, e.g. black=20,white=235,gamma=1.4,contrast=0.2,brightness=-0.1,equalize=clahe,invert
+      --hidden-tone <spec>   Tone of the hidden image (same keys; equalize is none, global or clahe)
+      --frame-delay <ms>     Delay between the frames of a folder input (default ${DEFAULT_CONFIG.frameDelay})
+      --no-metadata          Don't record the settings in the output
+      --source-hashes        Record SHA-256 hashes of the inputs with the settings
+  -h, --help                 Show this help
+
+Inputs may be PNG, APNG, GIF or a folder of PNG frames (in name order);
+if either is animated the output is an APNG. Unlike the web app, which
+decodes through the browser, this has no JPEG or WebP decoder: convert such
+inputs to PNG first. Outputs record their settings
+(minus the message and passphrase) in PNG text chunks for --settings-from.
+
+Manifest rows take "surface", "hidden", "output" and optionally "secret",
+resolved against the manifest's folder, plus any of the options above
+without the leading dashes. Row values override the command line.`;
+
+/** Config options, keyed by flag name. Flags and manifest columns share these names. */
+const CONFIG_OPTIONS = {
+  'surface-min': 'string',
+  'hidden-max': 'string',
+  adaptive: 'string',
+  'adaptive-radius': 'string',
+  color: 'boolean',
+  grayscale: 'boolean',
+  'light-bg': 'string',
+  'dark-bg': 'string',
+  'color-solver': 'string',
+  'solver-weight': 'string',
+  dither: 'string',
+  'dither-algorithm': 'string',
+  seed: 'string',
+  message: 'string',
+  passphrase: 'string',
+  'stego-bits': 'string',
+  'stego-channels': 'string',
+  'skip-transparent': 'boolean',
+  width: 'string',
+  height: 'string',
+  'surface-frame': 'string',
+  'hidden-frame': 'string',
+  'surface-tone': 'string',
+  'hidden-tone': 'string',
+  'frame-delay': 'string',
+  'no-metadata': 'boolean',
+  'source-hashes': 'boolean',
+} as const;
+
+type ConfigOption = keyof typeof CONFIG_OPTIONS;
+type RawValue = string | number | boolean | undefined;
+
+const parseNumber = (name: string, value: RawValue, min: number, max: number, integer = true) => {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max || (integer && !Number.isInteger(n))) {
+    throw new Error(`--${name} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}, got "${value}"`);
+  }
+  return n;
+};
+
+const parseBoolean = (name: string, value: RawValue) => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(text)) return true;
+  if (['false', '0', 'no'].includes(text)) return false;
+  throw new Error(`--${name} must be true or false, got "${value}"`);
+};
+
+const parseChannels = (value: RawValue): StegoChannel[] => {
+  const text = String(value).toLowerCase();
+  const channels = (['r', 'g', 'b'] as const).filter(c => text.includes(c));
+  if (channels.length === 0 || /[^rgb,\s]/.test(text)) {
+    throw new Error(`--stego-channels must be a combination of r, g and b, got "${value}"`);
+  }
+  return channels;
+};
+
+const parseColor = (name: string, value: RawValue) => {
+  try {
+    const [r, g, b] = parseHexColor(String(value));
+    return '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('').toUpperCase();
+  } catch {
+    throw new Error(`--${name} must be a #RRGGBB color, got "${value}"`);
+  }
+};
+
+/**
+ * Framing spec: comma- or semicolon-separated key=value pairs. x and y pan by
+ * a fraction of the output size, rotate is in degrees clockwise, flip takes
+ * any of x and y. Keys left out keep their defaults.
+ */
+const parseFrame = (name: string, value: RawValue): LayerTransform => {
+  const frame = { ...DEFAULT_TRANSFORM };
+  for (const pair of String(value).split(/[,;]/)) {
+    if (!pair.trim()) continue;
+    const [key, raw = ''] = pair.split('=').map(part => part.trim());
+    switch (key.toLowerCase()) {
+      case 'fit': frame.fit = parseChoice(`${name} fit`, raw, FIT_MODES); break;
+      case 'zoom': frame.zoom = parseNumber(`${name} zoom`, raw, 0.01, 100, false); break;
+      case 'x': frame.offsetX = parseNumber(`${name} x`, raw, -10, 10, false); break;
+      case 'y': frame.offsetY = parseNumber(`${name} y`, raw, -10, 10, false); break;
+      case 'rotate': frame.rotation = parseNumber(`${name} rotate`, raw, -360, 360, false); break;
+      case 'flip': {
+        const axes = raw.toLowerCase();
+        if (/[^xy]/.test(axes)) throw new Error(`--${name} flip must be x, y or xy, got "${raw}"`);
+        frame.flipX = axes.includes('x');
+        frame.flipY = axes.includes('y');
+        break;
+      }
+      default:
+        throw new Error(`--${name} has unknown key "${key}" (expected fit, zoom, x, y, rotate or flip)`);
+    }
+  }
+  return frame;
+};
+
+/**
+ * Tone spec, same syntax as framing. black/white are levels (0–255),
+ * contrast and brightness run from -1 to 1, a bare "invert" turns it on.
+ */
+const parseTone = (name: string, value: RawValue): ToneAdjustments => {
+  const tone = { ...DEFAULT_TONE };
+  for (const pair of String(value).split(/[,;]/)) {
+    if (!pair.trim()) continue;
+    const [key, raw = ''] = pair.split('=').map(part => part.trim());
+    switch (key.toLowerCase()) {
+      case 'black': tone.blackPoint = parseNumber(`${name} black`, raw, 0, 254); break;
+      case 'white': tone.whitePoint = parseNumber(`${name} white`, raw, 1, 255); break;
+      case 'gamma': tone.gamma = parseNumber(`${name} gamma`, raw, 0.1, 10, false); break;
+      case 'contrast': tone.contrast = parseNumber(`${name} contrast`, raw, -1, 1, false); break;
+      case 'brightness': tone.brightness = parseNumber(`${name} brightness`, raw, -1, 1, false); break;
+      case 'equalize': tone.equalize = parseChoice(`${name} equalize`, raw, EQUALIZE_MODES); break;
+      case 'invert': tone.invert = raw === '' || parseBoolean(`${name} invert`, raw); break;
+      default:
+        throw new Error(`--${name} has unknown key "${key}" (expected black, white, gamma, contrast, brightness, equalize or invert)`);
+    }
+  }
+  if (tone.blackPoint >= tone.whitePoint) throw new Error(`--${name} black must be below white`);
+  return tone;
+};
+
+const parseChoice = <T extends string>(name: string, value: RawValue, choices: T[]): T => {
+  const choice = choices.find(c => c === String(value).trim().toLowerCase());
+  if (!choice) throw new Error(`--${name} must be one of ${choices.join(', ')}, got "${value}"`);
+  return choice;
+};
+
+/**
+ * Applies option values on top of `base`. Empty values (blank CSV cells) keep
+ * the base setting.
+ */
+const applyOptions = (base: ProcessingConfig, values: Partial<Record<ConfigOption, RawValue>>): ProcessingConfig => {
+  const config = { ...base };
+  for (const [name, value] of Object.entries(values) as [ConfigOption, RawValue][]) {
+    if (value === undefined || value === '') continue;
+    switch (name) {
+      case 'surface-min': config.surfaceMin = parseNumber(name, value, 0, 255); break;
+      case 'hidden-max': config.hiddenMax = parseNumber(name, value, 0, 255); break;
+      case 'adaptive': config.adaptiveMapping = parseNumber(name, value, 0, 1, false); break;
+      case 'adaptive-radius': config.adaptiveRadius = parseNumber(name, value, 1, 1024); break;
+      case 'color': config.grayscale = !parseBoolean(name, value); break;
+      case 'grayscale': config.grayscale = parseBoolean(name, value); break;
+      case 'light-bg': config.lightBackground = parseColor(name, value); break;
+      case 'dark-bg': config.darkBackground = parseColor(name, value); break;
+      case 'color-solver': config.colorSolver = parseChoice(name, value, COLOR_SOLVERS); break;
+      case 'solver-weight': config.colorSolverWeight = parseNumber(name, value, 0, 1, false); break;
+      case 'dither': config.dithering = parseNumber(name, value, 0, 1, false); break;
+      case 'dither-algorithm': config.ditherAlgorithm = parseChoice(name, value, DITHER_ALGORITHMS); break;
+      case 'seed': config.seed = parseNumber(name, value, 0, 0xFFFFFFFF); break;
+      case 'message': config.steganography = String(value); break;
+      case 'passphrase': config.steganographyPassphrase = String(value); break;
+      case 'stego-bits': config.steganographyBits = parseNumber(name, value, 1, 2) as 1 | 2; break;
+      case 'stego-channels': config.steganographyChannels = parseChannels(value); break;
+      case 'skip-transparent': config.steganographySkipTransparent = parseBoolean(name, value); break;
+      case 'width': config.width = parseNumber(name, value, 1, 16384); break;
+      case 'height': config.height = parseNumber(name, value, 1, 16384); break;
+      case 'surface-frame': config.surfaceTransform = parseFrame(name, value); break;
+      case 'hidden-frame': config.hiddenTransform = parseFrame(name, value); break;
+      case 'surface-tone': config.surfaceTone = parseTone(name, value); break;
+      case 'hidden-tone': config.hiddenTone = parseTone(name, value); break;
+      case 'frame-delay': config.frameDelay = parseNumber(name, value, 10, 60000); break;
+      case 'no-metadata': config.embedSettings = !parseBoolean(name, value); break;
+      case 'source-hashes': config.embedSourceHashes = parseBoolean(name, value); break;
+    }
+  }
+  return config;
+};
+
+interface Job {
+  surface: string;
+  hidden: string;
+  output: string;
+  secret?: string;
+  config: ProcessingConfig;
+}
+
+const inflate = async (data: Uint8Array) => new Uint8Array(inflateSync(data));
+
+/**
+ * The PNG frames of a folder input, in name order.
+ */
+const listFrames = async (dir: string) => {
+  const names = (await readdir(dir))
+    .filter(name => path.extname(name).toLowerCase() === '.png')
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (names.length === 0) throw new Error(`${dir}: folder has no PNG frames`);
+  return names.map(name => path.join(dir, name));
+};
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+/** Formats the web app accepts through the browser, but this has no decoder for. */
+const UNDECODED_FORMATS: { name: string; matches: (bytes: Uint8Array) => boolean }[] = [
+  { name: 'JPEG', matches: bytes => bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF },
+  { name: 'WebP', matches: bytes => ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP' },
+];
+
+/**
+ * The error for an input that isn't one of `supported`, naming its format
+ * when it is one we recognize.
+ */
+const unsupportedInput = (file: string, bytes: Uint8Array, supported: string) => {
+  const format = UNDECODED_FORMATS.find(f => f.matches(bytes))?.name;
+  return new Error(format
+    ? `${file}: ${format} is not supported by the command line, which reads ${supported}; convert it to PNG first`
+    : `${file}: unrecognized image format; the command line reads ${supported}`);
+};
+
+/**
+ * Reads an input as frames: a PNG or APNG, a GIF, or a folder of PNG frames
+ * in name order, `delay` ms apart.
+ */
+const readInput = async (file: string, delay: number): Promise<AnimatedImage> => {
+  if ((await stat(file)).isDirectory()) {
+    const frames = await Promise.all((await listFrames(file)).map(async frame => {
+      const bytes = new Uint8Array(await readFile(frame));
+      if (!isPng(bytes)) throw unsupportedInput(frame, bytes, 'PNG');
+      return decodePng(bytes, inflate);
+    }));
+    return frameSequence(frames, delay);
+  }
+  const bytes = new Uint8Array(await readFile(file));
+  if (isPng(bytes)) return decodeApng(bytes, inflate);
+  if (isGif(bytes)) return decodeGif(bytes);
+  throw unsupportedInput(file, bytes, 'PNG, APNG and GIF');
+};
+
+const SECRET_MIMES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.txt': 'text/plain',
+};
+
+/**
+ * The web app re-encodes secret images to fit; here the file goes in as is
+ * and simply has to fit.
+ */
+const readSecret = async (file: string): Promise<SecretSource> => {
+  const bytes = new Uint8Array(await readFile(file));
+  const mime = SECRET_MIMES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+  return {
+    mime,
+    encode: async maxBytes => {
+      if (bytes.length > maxBytes) throw new StegoCapacityError(bytes.length, Math.max(0, maxBytes));
+      return { mime, bytes };
+    },
+  };
+};
+
+/**
+ * The bytes of every file an input is made of.
+ */
+const readInputFiles = async (file: string) => {
+  const files = (await stat(file)).isDirectory() ? await listFrames(file) : [file];
+  return Promise.all(files.map(async name => new Uint8Array(await readFile(name))));
+};
+
+const runJob = async (job: Job) => {
+  const [surface, hidden, secret] = await Promise.all([
+    readInput(job.surface, job.config.frameDelay),
+    readInput(job.hidden, job.config.frameDelay),
+    job.secret ? readSecret(job.secret) : null,
+  ]);
+  const { frames, duration, stegoCapacity, secretBytes, fidelity } =
+    await generateAnimatedMirage(surface, hidden, job.config, secret);
+  const image = frames[0].image;
+  const sources = job.config.embedSettings && job.config.embedSourceHashes
+    ? await hashSources(await readInputFiles(job.surface), await readInputFiles(job.hidden))
+    : null;
+  const metadata = createSettingsChunks(job.config, sources);
+  await writeFile(job.output, frames.length > 1
+    ? encodeApng({ width: image.width, height: image.height, frames, loops: 0 }, metadata)
+    : encodePng(image, metadata));
+
+  const stego = job.config.steganography || secretBytes
+    ? `, payload capacity ${stegoCapacity} bytes`
+    : '';
+  const psnr = (db: number) => (Number.isFinite(db) ? `${db.toFixed(1)} dB` : 'exact');
+  const animation = frames.length > 1 ? `, ${frames.length} frames over ${(duration / 1000).toFixed(2)}s` : '';
+  console.log(`${job.output}: ${image.width}x${image.height}${animation}${stego}`);
+  console.log(
+    `  surface ${psnr(fidelity.surfacePsnr)}, SSIM ${fidelity.surfaceSsim.toFixed(3)}; ` +
+    `hidden ${psnr(fidelity.hiddenPsnr)}, SSIM ${fidelity.hiddenSsim.toFixed(3)}; ` +
+    `clamped ${(100 * fidelity.clampedPixels / fidelity.totalPixels).toFixed(1)}%`
+  );
+};
+
+/**
+ * Minimal RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines.
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(cell => cell.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const readManifest = async (file: string, base: ProcessingConfig, secret?: string): Promise<Job[]> => {
+  const text = await readFile(file, 'utf8');
+  let rows: Record<string, RawValue>[];
+
+  if (path.extname(file).toLowerCase() === '.csv') {
+    const [header, ...body] = parseCsv(text);
+    if (!header) return [];
+    const columns = header.map(name => name.trim());
+    rows = body.map(cells => Object.fromEntries(columns.map((name, i) => [name, cells[i]?.trim()])));
+  } else {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new Error(`${file}: manifest must be a JSON array of jobs`);
+    rows = parsed;
+  }
+
+  const dir = path.dirname(file);
+  return rows.map((row, index) => {
+    const line = `${file}: job ${index + 1}`;
+    for (const key of ['surface', 'hidden', 'output'] as const) {
+      if (!row[key]) throw new Error(`${line} is missing "${key}"`);
+    }
+    const unknown = Object.keys(row).filter(key => !['surface', 'hidden', 'output', 'secret'].includes(key) && !(key in CONFIG_OPTIONS));
+    if (unknown.length > 0) throw new Error(`${line} has unknown fields: ${unknown.join(', ')}`);
+
+    const options: Partial<Record<ConfigOption, RawValue>> = {};
+    for (const key of Object.keys(CONFIG_OPTIONS) as ConfigOption[]) options[key] = row[key];
+
+    let config: ProcessingConfig;
+    try {
+      config = applyOptions(base, options);
+    } catch (err) {
+      throw new Error(`${line}: ${(err as Error).message}`);
+    }
+    return {
+      surface: path.resolve(dir, String(row.surface)),
+      hidden: path.resolve(dir, String(row.hidden)),
+      output: path.resolve(dir, String(row.output)),
+      secret: row.secret ? path.resolve(dir, String(row.secret)) : secret,
+      config,
+    };
+  });
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      manifest: { type: 'string' },
+      'settings-from': { type: 'string' },
+      secret: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      ...Object.fromEntries(Object.entries(CONFIG_OPTIONS).map(([name, type]) => [name, { type }])) as {
+        [K in ConfigOption]: { type: (typeof CONFIG_OPTIONS)[K] };
+      },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const options: Partial<Record<ConfigOption, RawValue>> = {};
+  for (const key of Object.keys(CONFIG_OPTIONS) as ConfigOption[]) options[key] = values[key];
+  let base = DEFAULT_CONFIG;
+  if (values['settings-from']) {
+    const settings = readSettings(new Uint8Array(await readFile(values['settings-from'])));
+    if (!settings) throw new Error(`${values['settings-from']}: no recorded settings found`);
+    base = restoreConfig(settings, DEFAULT_CONFIG);
+  }
+  const config = applyOptions(base, options);
+
+  let jobs: Job[];
+  if (values.manifest) {
+    if (positionals.length > 0) throw new Error('Pass either input files or --manifest, not both');
+    jobs = await readManifest(values.manifest, config, values.secret);
+  } else {
+    if (positionals.length !== 2 || !values.output) throw new Error(`Expected <surface> <hidden> -o <output>\n\n${USAGE}`);
+    jobs = [{ surface: positionals[0], hidden: positionals[1], output: values.output, secret: values.secret, config }];
+  }
+
+  // Batch jobs keep going after a failure; the exit code reports it
+  let failed = 0;
+  for (const job of jobs) {
+    try {
+      await runJob(job);
+    } catch (err) {
+      failed++;
+      console.error(`${job.output}: ${(err as Error).message}`);
+    }
+  }
+  if (failed > 0) {
+    if (jobs.length > 1) console.error(`${failed} of ${jobs.length} jobs failed`);
+    process.exitCode = 1;
+  }
+};
+
+main().catch(err => {
+  console.error(`mirage-tank: ${err instanceof Error ? err.message : err}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { SquareSplitHorizontal, Loader2, Info, TriangleAlert, ArrowRightLeft } from 'lucide-react';
+import { Uploader } from './Uploader';
+import { MirageAnalysis } from '../types';
+import { loadRgba } from '../services/imageProcessor';
+import { analyzeMirage } from '../services/analyzer';
+import { encodePng } from '../services/png';
+
+type AnalyzeSlot = 'mirage';
+
+/** Below this share of translucent pixels the image is probably not a mirage. */
+const MIN_TRANSLUCENT_SHARE = 0.05;
+
+export interface RecoveredLayers {
+  surface: File;
+  hidden: File;
+  /** The inferred mapping, when it should replace the current settings. */
+  ranges: Pick<MirageAnalysis, 'surfaceMin' | 'hiddenMax' | 'grayscale'> | null;
+}
+
+interface AnalyzerProps {
+  /** Puts the recovered layers into the generator's surface and hidden slots. */
+  onUseLayers: (layers: RecoveredLayers) => void;
+}
+
+interface LayerFiles {
+  surface: File;
+  hidden: File;
+  surfaceUrl: string;
+  hiddenUrl: string;
+}
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2">
+    <div className="text-[10px] uppercase tracking-wide text-zinc-600">{label}</div>
+    <div className="font-mono text-sm text-zinc-200">{value}</div>
+  </div>
+);
+
+/**
+ * Splits a mirage made anywhere into approximate surface and hidden images,
+ * to regenerate it with our own settings.
+ */
+export const Analyzer: React.FC<AnalyzerProps> = ({ onUseLayers }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<MirageAnalysis | null>(null);
+  const [layers, setLayers] = useState<LayerFiles | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [keepRanges, setKeepRanges] = useState(false);
+
+  const handleImageSelect = (_slot: AnalyzeSlot, selected: File) => {
+    setFile(selected);
+    setPreview(URL.createObjectURL(selected));
+  };
+
+  const handleClear = () => {
+    setFile(null);
+    setPreview(null);
+    setAnalysis(null);
+    setError(null);
+  };
+
+  // Analyze once per file
+  useEffect(() => {
+    if (!file) return;
+
+    let active = true;
+    setIsAnalyzing(true);
+    setError(null);
+    loadRgba(file)
+      .then(image => {
+        if (active) setAnalysis(analyzeMirage(image));
+      })
+      .catch(err => {
+        console.error("Analysis failed", err);
+        if (active) setError(err instanceof Error ? err.message : "Analysis failed");
+      })
+      .finally(() => {
+        if (active) setIsAnalyzing(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [file]);
+
+  // The layers as PNG files, for display and for the generator's slots
+  useEffect(() => {
+    if (!analysis || !file) {
+      setLayers(null);
+      return;
+    }
+    const base = file.name.replace(/\.[^.]*$/, '');
+    const surface = new File([encodePng(analysis.surface)], `${base}-surface.png`, { type: 'image/png' });
+    const hidden = new File([encodePng(analysis.hidden)], `${base}-hidden.png`, { type: 'image/png' });
+    const surfaceUrl = URL.createObjectURL(surface);
+    const hiddenUrl = URL.createObjectURL(hidden);
+    setLayers({ surface, hidden, surfaceUrl, hiddenUrl });
+    return () => {
+      URL.revokeObjectURL(surfaceUrl);
+      URL.revokeObjectURL(hiddenUrl);
+    };
+  }, [analysis, file]);
+
+  const useLayers = () => {
+    if (!layers || !analysis) return;
+    onUseLayers({
+      surface: layers.surface,
+      hidden: layers.hidden,
+      ranges: keepRanges
+        ? { surfaceMin: analysis.surfaceMin, hiddenMax: analysis.hiddenMax, grayscale: analysis.grayscale }
+        : null,
+    });
+  };
+
+  return (
+    <div className="grid lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-5 h-80">
+        <Uploader<AnalyzeSlot>
+          label="Mirage PNG"
+          description="Drop a mirage made anywhere to split it into its layers"
+          slot="mirage"
+          imageSrc={preview}
+          onImageSelected={handleImageSelect}
+          onClear={handleClear}
+        />
+      </div>
+
+      <div className="lg:col-span-7 bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-6">
+        <div className="flex items-center gap-2 text-zinc-100 font-semibold border-b border-zinc-800 pb-4">
+          <SquareSplitHorizontal size={20} className="text-indigo-400" />
+          <h3>Recovered Layers</h3>
+        </div>
+
+        {isAnalyzing && (
+          <div className="flex items-center gap-3 text-zinc-400 text-sm">
+            <Loader2 size={16} className="animate-spin text-indigo-400" />
+            <span>Compositing over white and black...</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-red-300 text-sm">
+            <TriangleAlert size={14} />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!isAnalyzing && !analysis && !error && (
+          <div className="flex items-center gap-2 text-zinc-500 text-sm">
+            <Info size={14} />
+            <span>Upload an RGBA PNG made for white and black backgrounds.</span>
+          </div>
+        )}
+
+        {!isAnalyzing && analysis && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <Stat label="Surface Min" value={String(analysis.surfaceMin)} />
+              <Stat label="Hidden Max" value={String(analysis.hiddenMax)} />
+              <Stat label="Mode" value={analysis.grayscale ? 'Grayscale' : 'Color'} />
+              <Stat label="Translucent" value={`${(analysis.translucentShare * 100).toFixed(1)}%`} />
+            </div>
+
+            {analysis.translucentShare < MIN_TRANSLUCENT_SHARE && (
+              <div className="p-3 rounded-lg flex items-start gap-2 border bg-amber-500/10 border-amber-500/20">
+                <TriangleAlert size={16} className="text-amber-400 mt-0.5 flex-shrink-0" />
+                <p className="text-xs text-zinc-400">
+                  Almost every pixel is opaque, so this looks like an ordinary image rather than a mirage.
+                  Both layers will come out nearly the same.
+                </p>
+              </div>
+            )}
+
+            {layers && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <div className="text-xs font-medium text-zinc-400">Surface (over white)</div>
+                  <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-2 flex items-center justify-center">
+                    <img src={layers.surfaceUrl} alt="Recovered surface" className="max-w-full max-h-64 object-contain" />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <div className="text-xs font-medium text-zinc-400">Hidden (over black)</div>
+                  <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-2 flex items-center justify-center">
+                    <img src={layers.hiddenUrl} alt="Recovered hidden" className="max-w-full max-h-64 object-contain" />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {!analysis.grayscale && (
+              <p className="text-xs text-zinc-500">
+                Color mirages are rarely exact over white, so the surface layer may look darker or less saturated than the original.
+              </p>
+            )}
+
+            <div className="flex items-center justify-between gap-4 pt-2 border-t border-zinc-800">
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={keepRanges}
+                  onChange={() => setKeepRanges(!keepRanges)}
+                  className="accent-indigo-500"
+                />
+                Also use the inferred ranges and mode
+              </label>
+              <button
+                onClick={useLayers}
+                disabled={!layers}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-semibold transition-colors disabled:opacity-50"
+              >
+                <ArrowRightLeft size={14} />
+                Regenerate from Layers
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Crosshair } from 'lucide-react';
+import { InspectionData } from '../types';
+import { createPixelInspector, PixelInfo } from '../services/inspector';
+import { parseHexColor } from '../services/mapping';
+
+/**
+ * - light / dark: the result over one target background.
+ * - split: light on the left, dark on the right of a draggable divider.
+ * - blend: a background anywhere between dark and light.
+ * - custom: any background color.
+ */
+export type CompareMode = 'light' | 'dark' | 'split' | 'blend' | 'custom';
+
+interface CompareViewProps {
+  resultUrl: string;
+  mode: CompareMode;
+  lightBackground: string;
+  darkBackground: string;
+  /** Blend mode: 0 is the dark background, 1 the light one. */
+  blend: number;
+  customBackground: string;
+  heatmapUrl: string | null;
+  showHeatmap: boolean;
+  /** Pixels of the first frame, for the inspector; null hides it. */
+  inspection: InspectionData | null;
+  animated: boolean;
+  /** Changing it remounts the result, restarting an animation. */
+  playKey: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface View {
+  zoom: number;
+  /** Top-left corner of the result in the viewport, in CSS pixels. */
+  x: number;
+  y: number;
+}
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 64;
+
+/** Room left around the result when fitted. */
+const FIT_PADDING = 32;
+
+/** From this zoom on pixels are drawn as squares and the hovered one outlined. */
+const PIXELATED_ZOOM = 4;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/**
+ * #RRGGBB between `dark` (t = 0) and `light` (t = 1).
+ */
+export const mixColors = (dark: string, light: string, t: number) => {
+  const a = parseHexColor(dark);
+  const b = parseHexColor(light);
+  return '#' + a.map((v, c) => Math.round(v + (b[c] - v) * t).toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+const fitView = (viewport: Size, image: Size): View => {
+  const zoom = Math.min(
+    1,
+    (viewport.width - 2 * FIT_PADDING) / image.width,
+    (viewport.height - 2 * FIT_PADDING) / image.height
+  );
+  const clamped = clampZoom(zoom);
+  return {
+    zoom: clamped,
+    x: (viewport.width - image.width * clamped) / 2,
+    y: (viewport.height - image.height * clamped) / 2,
+  };
+};
+
+const Swatch: React.FC<{ rgb: number[] }> = ({ rgb }) => (
+  <span className="inline-block w-2.5 h-2.5 rounded-sm ring-1 ring-white/20 align-middle" style={{ backgroundColor: `rgb(${rgb.join(',')})` }} />
+);
+
+const formatValues = (values: number[]) => values.map(v => Math.round(v)).join(' ');
+
+const InspectorPanel: React.FC<{ info: PixelInfo; animated: boolean; adaptive: boolean }> = ({ info, animated, adaptive }) => (
+  <div className="absolute left-3 bottom-3 z-20 pointer-events-none bg-black/80 backdrop-blur-md border border-zinc-800 rounded-lg px-3 py-2 font-mono text-[10px] text-zinc-300 space-y-0.5">
+    <div className="flex items-center gap-1.5 text-zinc-400 pb-0.5">
+      <Crosshair size={11} />
+      <span>{info.x}, {info.y}{animated && ' · first frame'}</span>
+    </div>
+    <div className="grid grid-cols-[auto_auto] gap-x-3 gap-y-0.5">
+      <span className="text-zinc-500">Surface</span>
+      <span>{formatValues(info.surface)} → {formatValues(info.mappedSurface)}</span>
+      <span className="text-zinc-500">Hidden</span>
+      <span>{formatValues(info.hidden)} → {formatValues(info.mappedHidden)}</span>
+      {adaptive && (
+        <>
+          <span className="text-zinc-500">Lift</span>
+          <span>{info.lift.toFixed(1)}</span>
+        </>
+      )}
+      <span className="text-zinc-500">Output</span>
+      <span>{formatValues(info.output)}</span>
+      <span className="text-zinc-500">Over light</span>
+      <span><Swatch rgb={info.overLight} /> {formatValues(info.overLight)}</span>
+      <span className="text-zinc-500">Over dark</span>
+      <span><Swatch rgb={info.overDark} /> {formatValues(info.overDark)}</span>
+      <span className="text-zinc-500">Clamped</span>
+      <span className={info.clamped ? 'text-fuchsia-400' : 'text-zinc-400'}>{info.clamped ? 'yes, B > A' : 'no'}</span>
+    </div>
+  </div>
+);
+
+/**
+ * The result over chosen backgrounds, with wheel zoom, drag to pan (double
+ * click to fit) and a readout of the pixel under the pointer.
+ */
+export const CompareView: React.FC<CompareViewProps> = ({
+  resultUrl,
+  mode,
+  lightBackground,
+  darkBackground,
+  blend,
+  customBackground,
+  heatmapUrl,
+  showHeatmap,
+  inspection,
+  animated,
+  playKey,
+}) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: View } | null>(null);
+  const [viewport, setViewport] = useState<Size | null>(null);
+  const [imageSize, setImageSize] = useState<Size | null>(null);
+  // Null follows the viewport, fitted
+  const [manualView, setManualView] = useState<View | null>(null);
+  const [split, setSplit] = useState(0.5);
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+
+  const inspect = useMemo(() => inspection && createPixelInspector(inspection), [inspection]);
+
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // A result of another size starts fitted again
+  useEffect(() => setManualView(null), [imageSize?.width, imageSize?.height]);
+
+  const view = manualView ?? (viewport && imageSize ? fitView(viewport, imageSize) : null);
+
+  // Wheel zoom about the pointer needs a non-passive listener to keep the page from scrolling
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      const current = viewRef.current;
+      if (!current) return;
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      const zoom = clampZoom(current.zoom * Math.exp(-e.deltaY * 0.0015));
+      const ratio = zoom / current.zoom;
+      setManualView({ zoom, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio });
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const zoomTo = (zoom: number) => {
+    if (!viewport || !imageSize) return;
+    setManualView({
+      zoom,
+      x: (viewport.width - imageSize.width * zoom) / 2,
+      y: (viewport.height - imageSize.height * zoom) / 2,
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!view || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (!rect || !view) return;
+    const drag = dragRef.current;
+    if (drag) {
+      setManualView({ ...drag.view, x: drag.view.x + e.clientX - drag.x, y: drag.view.y + e.clientY - drag.y });
+    }
+    const x = Math.floor((e.clientX - rect.left - view.x) / view.zoom);
+    const y = Math.floor((e.clientY - rect.top - view.y) / view.zoom);
+    setHover(imageSize && x >= 0 && y >= 0 && x < imageSize.width && y < imageSize.height ? { x, y } : null);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleSplitDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleSplitMove = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (!rect || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  const background = mode === 'dark' ? darkBackground
+    : mode === 'blend' ? mixColors(darkBackground, lightBackground, blend)
+    : mode === 'custom' ? customBackground
+    : lightBackground;
+  const info = hover && inspect ? inspect(hover.x, hover.y) : null;
+  const pixelated = !!view && view.zoom >= PIXELATED_ZOOM;
+
+  return (
+    <div
+      ref={viewportRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setHover(null)}
+      onDoubleClick={() => setManualView(null)}
+      className="absolute inset-0 overflow-hidden cursor-crosshair touch-none select-none"
+    >
+      {/* Backgrounds */}
+      <div className="absolute inset-0 transition-colors duration-300" style={{ backgroundColor: background }} />
+      {mode === 'split' && (
+        <div className="absolute inset-y-0 right-0" style={{ left: `${split * 100}%`, backgroundColor: darkBackground }} />
+      )}
+
+      {/* The result, with the heatmap stacked exactly on top when enabled */}
+      <div
+        className="absolute"
+        style={view && imageSize ? {
+          left: view.x,
+          top: view.y,
+          width: imageSize.width * view.zoom,
+          height: imageSize.height * view.zoom,
+        } : { visibility: 'hidden' }}
+      >
+        <img
+          key={playKey}
+          src={resultUrl}
+          alt="Mirage"
+          draggable={false}
+          onLoad={e => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          className="block w-full h-full max-w-none"
+          style={{ imageRendering: pixelated ? 'pixelated' : 'auto' }}
+        />
+        {showHeatmap && heatmapUrl && (
+          <img src={heatmapUrl} alt="Error heatmap" draggable={false} className="absolute inset-0 w-full h-full pointer-events-none" style={{ imageRendering: 'pixelated' }} />
+        )}
+        {pixelated && hover && view && (
+          <div
+            className="absolute pointer-events-none ring-1 ring-fuchsia-400"
+            style={{ left: hover.x * view.zoom, top: hover.y * view.zoom, width: view.zoom, height: view.zoom }}
+          />
+        )}
+      </div>
+
+      {mode === 'split' && (
+        <div
+          onPointerDown={handleSplitDown}
+          onPointerMove={handleSplitMove}
+          className="absolute inset-y-0 z-10 w-4 -ml-2 flex justify-center cursor-ew-resize"
+          style={{ left: `${split * 100}%` }}
+        >
+          <div className="w-px h-full bg-indigo-400/80" />
+          <div className="absolute top-1/2 -translate-y-1/2 w-3 h-8 rounded-full bg-indigo-500 ring-2 ring-zinc-950" />
+        </div>
+      )}
+
+      {info && inspection && (
+        <InspectorPanel info={info} animated={animated} adaptive={inspection.config.adaptiveMapping > 0} />
+      )}
+
+      {view && (
+        <div
+          onPointerDown={e => e.stopPropagation()}
+          className="absolute right-3 bottom-3 z-20 flex items-center gap-1 bg-black/70 backdrop-blur-md border border-zinc-800 rounded-lg p-1 text-[10px] font-mono"
+        >
+          <span className="px-1.5 text-zinc-400">{Math.round(view.zoom * 100)}%</span>
+          <button onClick={() => setManualView(null)} className="px-1.5 py-0.5 rounded text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800">
+            Fit
+          </button>
+          <button onClick={() => zoomTo(1)} className="px-1.5 py-0.5 rounded text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800">
+            1:1
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
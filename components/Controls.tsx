@@ -1,14 +1,63 @@
 import React from 'react';
-import { ProcessingConfig } from '../types';
-import { Sliders, Sun, Moon, Info, Palette, Lock, MessageSquare } from 'lucide-react';
+import { ColorSolver, DitherAlgorithm, ProcessingConfig, StegoChannel } from '../types';
+import { getStegoPayloadSize } from '../services/steganography';
+import { parseHexColor } from '../services/mapping';
+import { AutoTuneBias, AutoTuneResult } from '../services/autoTune';
+import { Sliders, Sun, Moon, Info, Palette, Lock, MessageSquare, KeyRound, Dices, Wand2, Loader2, FileText } from 'lucide-react';
 
 interface ControlsProps {
   config: ProcessingConfig;
   onChange: (newConfig: ProcessingConfig) => void;
   isProcessing: boolean;
+  /** Payload bytes the current output can hold, or null before the first run. */
+  stegoCapacity: number | null;
+  /** Encoded size of the secret image from the last run. */
+  secretBytes: number;
+  /** Runs auto-tune; undefined until both inputs are loaded. */
+  onAutoTune?: (bias: AutoTuneBias) => void;
+  /** Last auto-tune outcome. */
+  autoTune: AutoTuneResult | null;
+  isTuning: boolean;
+  /** Whether an input is a sequence of separate frames, which needs a frame delay. */
+  hasFrameSequence?: boolean;
 }
 
-export const Controls: React.FC<ControlsProps> = ({ config, onChange, isProcessing }) => {
+const STEGO_CHANNELS: StegoChannel[] = ['r', 'g', 'b'];
+
+const AUTO_TUNE_BIASES: { value: AutoTuneBias; label: string }[] = [
+  { value: 'balanced', label: 'Auto' },
+  { value: 'surface', label: 'Favor surface' },
+  { value: 'hidden', label: 'Favor hidden' },
+];
+
+const BACKGROUND_PRESETS = [
+  { label: 'Pure', light: '#FFFFFF', dark: '#000000' },
+  { label: 'Chat', light: '#EDEDED', dark: '#111111' },
+];
+
+const COLOR_SOLVERS: { value: ColorSolver; label: string }[] = [
+  { value: 'max-alpha', label: 'Max alpha' },
+  { value: 'lab', label: 'Min error (Lab)' },
+];
+
+const DITHER_ALGORITHMS: { value: DitherAlgorithm; label: string }[] = [
+  { value: 'blue-noise', label: 'Blue noise' },
+  { value: 'bayer', label: 'Bayer' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'noise', label: 'Noise' },
+];
+
+export const Controls: React.FC<ControlsProps> = ({
+  config,
+  onChange,
+  isProcessing,
+  stegoCapacity,
+  secretBytes,
+  onAutoTune,
+  autoTune,
+  isTuning,
+  hasFrameSequence = false,
+}) => {
   
   const handleSurfaceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onChange({ ...config, surfaceMin: parseInt(e.target.value) });
@@ -18,14 +67,70 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, isProcessi
     onChange({ ...config, hiddenMax: parseInt(e.target.value) });
   };
 
+  const handleAdaptiveChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...config, adaptiveMapping: parseFloat(e.target.value) });
+  };
+
+  const handleAdaptiveRadiusChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...config, adaptiveRadius: parseInt(e.target.value) });
+  };
+
+  const handleFrameDelayChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...config, frameDelay: parseInt(e.target.value) });
+  };
+
   const handleDitheringChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onChange({ ...config, dithering: parseFloat(e.target.value) });
   };
 
+  const handleSolverWeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...config, colorSolverWeight: parseFloat(e.target.value) });
+  };
+
+  const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const seed = parseInt(e.target.value);
+    onChange({ ...config, seed: Number.isNaN(seed) ? 0 : seed >>> 0 });
+  };
+
+  const shuffleSeed = () => {
+    onChange({ ...config, seed: Math.floor(Math.random() * 0x100000000) });
+  };
+
   const handleSteganographyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onChange({ ...config, steganography: e.target.value });
   };
 
+  const handlePassphraseChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...config, steganographyPassphrase: e.target.value });
+  };
+
+  const toggleStegoChannel = (channel: StegoChannel) => {
+    const enabled = config.steganographyChannels.includes(channel);
+    // At least one channel has to carry the payload
+    if (enabled && config.steganographyChannels.length === 1) return;
+    const channels = enabled
+      ? config.steganographyChannels.filter(c => c !== channel)
+      : STEGO_CHANNELS.filter(c => c === channel || config.steganographyChannels.includes(c));
+    onChange({ ...config, steganographyChannels: channels });
+  };
+
+  // The secret image is re-encoded to fill whatever the message leaves over
+  const stegoUsed = getStegoPayloadSize({
+    text: config.steganography,
+    passphrase: config.steganographyPassphrase,
+  }) + secretBytes;
+  const stegoOverflow = stegoCapacity !== null && stegoUsed > stegoCapacity;
+  const stegoPercent = stegoCapacity ? Math.min(100, (stegoUsed / stegoCapacity) * 100) : (stegoUsed > 0 ? 100 : 0);
+
+  // The explanation only applies while the tuned values are untouched
+  const showAutoTune = autoTune !== null
+    && autoTune.surfaceMin === config.surfaceMin
+    && autoTune.hiddenMax === config.hiddenMax;
+
+  const light = parseHexColor(config.lightBackground);
+  const dark = parseHexColor(config.darkBackground);
+  const backgroundsValid = light.every((v, c) => v > dark[c]);
+
   const toggleGrayscale = () => {
     onChange({ ...config, grayscale: !config.grayscale });
   };
@@ -88,6 +193,127 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, isProcessi
             className="w-full h-2 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-purple-500 hover:accent-purple-400"
           />
         </div>
+
+        {/* Auto-tune */}
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+            {AUTO_TUNE_BIASES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => onAutoTune?.(value)}
+                disabled={!onAutoTune || isTuning || isProcessing}
+                className="flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded-md text-zinc-400 hover:text-white hover:bg-zinc-800 transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                {value === 'balanced' && (isTuning ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />)}
+                {label}
+              </button>
+            ))}
+          </div>
+          {showAutoTune && (
+            <div className="bg-indigo-500/10 border border-indigo-500/20 p-3 rounded-lg space-y-1">
+              {autoTune.explanation.map(line => (
+                <p key={line} className="text-xs text-indigo-200/80">{line}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Adaptive local mapping */}
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-xs font-medium text-zinc-400">Adaptive Local Mapping</label>
+            <span className="text-xs text-zinc-500">
+              {config.adaptiveMapping > 0 ? `${Math.round(config.adaptiveMapping * 100)}%` : 'Off'}
+            </span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={config.adaptiveMapping}
+            onChange={handleAdaptiveChange}
+            disabled={isProcessing}
+            className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-zinc-500 hover:accent-zinc-300"
+          />
+          {config.adaptiveMapping > 0 && (
+            <div className="flex items-center gap-3">
+              <label className="text-xs text-zinc-500 whitespace-nowrap">Smoothing</label>
+              <input
+                type="range"
+                min="4"
+                max="128"
+                step="1"
+                value={config.adaptiveRadius}
+                onChange={handleAdaptiveRadiusChange}
+                disabled={isProcessing}
+                className="flex-1 h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-zinc-500 hover:accent-zinc-300"
+              />
+              <span className="text-xs font-mono text-zinc-500 w-12 text-right">{config.adaptiveRadius}px</span>
+            </div>
+          )}
+          <p className="text-[10px] text-zinc-500 leading-tight">
+            Lightens the surface and dims the hidden image only around spots where the hidden image is brighter, instead of clamping it away.
+          </p>
+        </div>
+      </div>
+
+      {/* Frame sequence timing */}
+      {hasFrameSequence && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-xs font-medium text-zinc-400">Frame Delay</label>
+            <span className="text-xs text-zinc-500">{config.frameDelay}ms · {(1000 / config.frameDelay).toFixed(1)} fps</span>
+          </div>
+          <input
+            type="range"
+            min="20"
+            max="1000"
+            step="10"
+            value={config.frameDelay}
+            onChange={handleFrameDelayChange}
+            disabled={isProcessing}
+            className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-zinc-500 hover:accent-zinc-300"
+          />
+          <p className="text-[10px] text-zinc-500 leading-tight">
+            How long each image of a frame sequence is shown. GIF and APNG inputs keep their own timing.
+          </p>
+        </div>
+      )}
+
+      {/* Target Backgrounds */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="text-xs font-medium text-zinc-400">Target Backgrounds</label>
+          <div className="flex items-center gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+            {BACKGROUND_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => onChange({ ...config, lightBackground: preset.light, darkBackground: preset.dark })}
+                disabled={isProcessing}
+                className={`px-2 py-1 text-xs font-medium rounded-md transition-all ${config.lightBackground === preset.light && config.darkBackground === preset.dark ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {([['lightBackground', 'Light', Sun], ['darkBackground', 'Dark', Moon]] as const).map(([key, label, Icon]) => (
+            <label key={key} className="flex items-center gap-2 bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 cursor-pointer">
+              <input
+                type="color"
+                value={config[key].toLowerCase()}
+                onChange={e => onChange({ ...config, [key]: e.target.value.toUpperCase() })}
+                disabled={isProcessing}
+                className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer"
+              />
+              <Icon size={12} className="text-zinc-500" />
+              <span className="text-xs text-zinc-400">{label}</span>
+              <span className="ml-auto text-xs font-mono text-zinc-500">{config[key]}</span>
+            </label>
+          ))}
+        </div>
       </div>
 
       {/* Advanced Toggles */}
@@ -108,6 +334,45 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, isProcessi
           </div>
         </label>
 
+        {/* Color Solver */}
+        {!config.grayscale && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="text-xs font-medium text-zinc-400">Color Solver</label>
+              <div className="flex items-center gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                {COLOR_SOLVERS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => onChange({ ...config, colorSolver: value })}
+                    disabled={isProcessing}
+                    className={`px-2 py-1 text-xs font-medium rounded-md transition-all ${config.colorSolver === value ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {config.colorSolver === 'lab' && (
+              <>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={config.colorSolverWeight}
+                  onChange={handleSolverWeightChange}
+                  disabled={isProcessing}
+                  className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-zinc-500 hover:accent-zinc-300"
+                />
+                <div className="flex justify-between text-xs text-zinc-500">
+                  <span>Favor hidden</span>
+                  <span>Favor surface</span>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Dithering Control */}
         <div className="space-y-2">
            <div className="flex justify-between items-center">
@@ -124,6 +389,38 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, isProcessi
             disabled={isProcessing}
             className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-zinc-500 hover:accent-zinc-300"
           />
+           <div className="grid grid-cols-4 gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+              {DITHER_ALGORITHMS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onChange({ ...config, ditherAlgorithm: value })}
+                  disabled={isProcessing}
+                  className={`px-1 py-1 text-xs font-medium rounded-md transition-all truncate ${config.ditherAlgorithm === value ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                  {label}
+                </button>
+              ))}
+           </div>
+           <div className="flex items-center gap-2">
+              <label htmlFor="seed" className="text-xs text-zinc-500">Seed</label>
+              <input
+                id="seed"
+                type="number"
+                min="0"
+                value={config.seed}
+                onChange={handleSeedChange}
+                disabled={isProcessing}
+                className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded-lg py-1 px-2 text-xs font-mono text-zinc-200 focus:outline-none focus:border-indigo-500"
+              />
+              <button
+                onClick={shuffleSeed}
+                disabled={isProcessing}
+                title="Pick a new seed"
+                className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+              >
+                <Dices size={14} />
+              </button>
+           </div>
         </div>
 
         {/* Steganography */}
@@ -142,10 +439,109 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, isProcessi
                 />
                 <MessageSquare size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-600" />
             </div>
+            <div className="relative">
+                <input 
+                    type="password" 
+                    value={config.steganographyPassphrase}
+                    onChange={handlePassphraseChange}
+                    placeholder="Passphrase (optional, encrypts the message)"
+                    autoComplete="new-password"
+                    className="w-full bg-zinc-950 border border-zinc-800 rounded-lg py-2 pl-9 pr-3 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+                />
+                <KeyRound size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-600" />
+            </div>
+
+            {/* Capacity Meter */}
+            <div className="space-y-1">
+                <div className="h-1.5 w-full bg-zinc-800 rounded-full overflow-hidden">
+                    <div
+                        className={`h-full transition-all ${stegoOverflow ? 'bg-red-500' : 'bg-indigo-500'}`}
+                        style={{ width: `${stegoPercent}%` }}
+                    />
+                </div>
+                <div className={`flex justify-between text-xs font-mono ${stegoOverflow ? 'text-red-400' : 'text-zinc-500'}`}>
+                    <span>{stegoUsed} B used{secretBytes > 0 ? ` (image ${secretBytes} B)` : ''}</span>
+                    <span>{stegoCapacity === null ? '—' : `${stegoCapacity} B available`}</span>
+                </div>
+            </div>
+
+            {/* Bit Layout */}
+            <div className="flex items-center justify-between gap-3 pt-1">
+                <div className="flex items-center gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                    {[1, 2].map(bits => (
+                        <button
+                            key={bits}
+                            onClick={() => onChange({ ...config, steganographyBits: bits })}
+                            disabled={isProcessing}
+                            className={`px-2 py-1 text-xs font-medium rounded-md transition-all ${config.steganographyBits === bits ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                        >
+                            {bits} bit{bits > 1 ? 's' : ''}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                    {STEGO_CHANNELS.map(channel => (
+                        <button
+                            key={channel}
+                            onClick={() => toggleStegoChannel(channel)}
+                            disabled={isProcessing}
+                            className={`w-7 py-1 text-xs font-mono font-medium uppercase rounded-md transition-all ${config.steganographyChannels.includes(channel) ? 'bg-zinc-700 text-white' : 'text-zinc-600 hover:text-zinc-400'}`}
+                        >
+                            {channel}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-zinc-500 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={config.steganographySkipTransparent}
+                    onChange={() => onChange({ ...config, steganographySkipTransparent: !config.steganographySkipTransparent })}
+                    disabled={isProcessing}
+                    className="accent-indigo-500"
+                />
+                <span>Skip near-transparent pixels (fewer errors after browser re-encoding, less capacity)</span>
+            </label>
+        </div>
+
+        {/* Metadata */}
+        <div className="space-y-2 pt-2">
+            <div className="flex items-center gap-2 text-xs font-medium text-zinc-400">
+                <FileText size={12} />
+                <span>Metadata</span>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-zinc-500 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={config.embedSettings}
+                    onChange={() => onChange({ ...config, embedSettings: !config.embedSettings })}
+                    disabled={isProcessing}
+                    className="accent-indigo-500"
+                />
+                <span>Record these settings in the PNG (never the message or passphrase)</span>
+            </label>
+            <label className={`flex items-center gap-2 text-xs cursor-pointer ${config.embedSettings ? 'text-zinc-500' : 'text-zinc-700'}`}>
+                <input
+                    type="checkbox"
+                    checked={config.embedSourceHashes}
+                    onChange={() => onChange({ ...config, embedSourceHashes: !config.embedSourceHashes })}
+                    disabled={isProcessing || !config.embedSettings}
+                    className="accent-indigo-500"
+                />
+                <span>Include SHA-256 hashes of the source images</span>
+            </label>
         </div>
       </div>
 
       {/* Warnings */}
+      {!backgroundsValid && (
+        <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg flex items-start gap-2">
+          <Info size={16} className="text-red-400 mt-0.5" />
+          <p className="text-xs text-red-300">
+            Warning: the light background must be lighter than the dark one in every channel.
+          </p>
+        </div>
+      )}
       {config.surfaceMin < config.hiddenMax && (
         <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg flex items-start gap-2">
           <Info size={16} className="text-red-400 mt-0.5" />
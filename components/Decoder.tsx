@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { ScanText, Loader2, CircleCheck, TriangleAlert, Info, Copy, KeyRound, FileText, RotateCcw } from 'lucide-react';
+import { Uploader } from './Uploader';
+import { MirageSettings, StegoExtractResult } from '../types';
+import { loadRgba } from '../services/imageProcessor';
+import { extractSteganography } from '../services/steganography';
+import { StegoFlags } from '../services/stegoContainer';
+import { readSettings } from '../services/metadata';
+
+type DecodeSlot = 'payload';
+
+const STATUS_COPY: Record<StegoExtractResult['status'], { title: string; detail: string }> = {
+  ok: {
+    title: 'Message recovered',
+    detail: 'The full payload was read back intact.',
+  },
+  empty: {
+    title: 'No payload',
+    detail: 'No container header was found. This image does not carry a message.',
+  },
+  corrupt: {
+    title: 'Checksum mismatch',
+    detail: 'A payload was found but its CRC does not match. The image was probably edited or re-compressed.',
+  },
+  truncated: {
+    title: 'Truncated payload',
+    detail: 'The header claims more data than the image can hold. Showing the part that fits.',
+  },
+  unsupported: {
+    title: 'Unsupported payload',
+    detail: 'The payload was written with a newer format version or options this build cannot read.',
+  },
+  locked: {
+    title: 'Encrypted payload',
+    detail: 'The message is protected. Enter the passphrase it was created with.',
+  },
+};
+
+interface DecoderProps {
+  /** Loads settings recorded in the image into the generator. */
+  onRestoreSettings: (settings: MirageSettings) => void;
+}
+
+export const Decoder: React.FC<DecoderProps> = ({ onRestoreSettings }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [pixels, setPixels] = useState<Uint8ClampedArray | null>(null);
+  const [result, setResult] = useState<StegoExtractResult | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [settings, setSettings] = useState<MirageSettings | null>(null);
+
+  // Draft is what's typed; passphrase is only committed on submit because
+  // every attempt runs a full PBKDF2 derivation.
+  const [passphraseDraft, setPassphraseDraft] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+
+  const handleImageSelect = (_slot: DecodeSlot, selected: File) => {
+    setFile(selected);
+    setPreview(URL.createObjectURL(selected));
+  };
+
+  const handleClear = () => {
+    setFile(null);
+    setPreview(null);
+    setPixels(null);
+    setResult(null);
+    setSettings(null);
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPassphrase(passphraseDraft);
+  };
+
+  // Load pixels and recorded settings once per file
+  useEffect(() => {
+    if (!file) return;
+
+    let active = true;
+    loadRgba(file)
+      .then(image => {
+        if (active) setPixels(image.data);
+      })
+      .catch(err => console.error("Loading failed", err));
+    file.arrayBuffer()
+      .then(buffer => {
+        if (active) setSettings(readSettings(new Uint8Array(buffer)));
+      })
+      .catch(err => console.error("Reading metadata failed", err));
+
+    return () => {
+      active = false;
+    };
+  }, [file]);
+
+  // Extract whenever the pixels or the committed passphrase change
+  useEffect(() => {
+    if (!pixels) return;
+
+    let active = true;
+    const decode = async () => {
+      setIsDecoding(true);
+      try {
+        const extracted = await extractSteganography(pixels, passphrase);
+        if (active) setResult(extracted);
+      } catch (err) {
+        console.error("Decoding failed", err);
+      } finally {
+        if (active) setIsDecoding(false);
+      }
+    };
+
+    decode();
+    return () => {
+      active = false;
+    };
+  }, [pixels, passphrase]);
+
+  // Object URL for an embedded secret image
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!result?.file) {
+      setFileUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([result.file.bytes], { type: result.file.mime }));
+    setFileUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [result]);
+
+  const copyText = () => {
+    if (result?.text) navigator.clipboard.writeText(result.text);
+  };
+
+  const isGood = result?.status === 'ok';
+  const isEncrypted = !!result && (result.flags & StegoFlags.ENCRYPTED) !== 0;
+  const copy = result ? STATUS_COPY[result.status] : null;
+
+  return (
+    <div className="grid lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-5 h-80">
+        <Uploader<DecodeSlot>
+          label="Mirage PNG"
+          description="Drop a generated image to read its hidden message"
+          slot="payload"
+          imageSrc={preview}
+          onImageSelected={handleImageSelect}
+          onClear={handleClear}
+        />
+      </div>
+
+      <div className="lg:col-span-7 bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-6">
+        <div className="flex items-center gap-2 text-zinc-100 font-semibold border-b border-zinc-800 pb-4">
+          <ScanText size={20} className="text-indigo-400" />
+          <h3>Extracted Message</h3>
+        </div>
+
+        {isDecoding && (
+          <div className="flex items-center gap-3 text-zinc-400 text-sm">
+            <Loader2 size={16} className="animate-spin text-indigo-400" />
+            <span>Reading LSB channels...</span>
+          </div>
+        )}
+
+        {!isDecoding && !result && (
+          <div className="flex items-center gap-2 text-zinc-500 text-sm">
+            <Info size={14} />
+            <span>Upload a PNG to begin. Only lossless files keep their payload.</span>
+          </div>
+        )}
+
+        {!isDecoding && result && copy && (
+          <div className="space-y-4">
+            <div className={`p-3 rounded-lg flex items-start gap-2 border ${isGood ? 'bg-emerald-500/10 border-emerald-500/20' : 'bg-amber-500/10 border-amber-500/20'}`}>
+              {isGood
+                ? <CircleCheck size={16} className="text-emerald-400 mt-0.5" />
+                : <TriangleAlert size={16} className="text-amber-400 mt-0.5" />}
+              <div>
+                <p className={`text-sm font-medium ${isGood ? 'text-emerald-300' : 'text-amber-300'}`}>{copy.title}</p>
+                <p className="text-xs text-zinc-400 mt-0.5">{copy.detail}</p>
+              </div>
+            </div>
+
+            {result.status === 'locked' && (
+              <form onSubmit={handleUnlock} className="flex gap-2">
+                <div className="relative flex-1">
+                  <input
+                    type="password"
+                    value={passphraseDraft}
+                    onChange={e => setPassphraseDraft(e.target.value)}
+                    placeholder="Passphrase"
+                    className="w-full bg-zinc-950 border border-zinc-800 rounded-lg py-2 pl-9 pr-3 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+                  />
+                  <KeyRound size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-600" />
+                </div>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-semibold transition-colors"
+                >
+                  Unlock
+                </button>
+              </form>
+            )}
+
+            {result.status === 'locked' && passphrase && (
+              <p className="text-xs text-red-300">That passphrase did not unlock the message.</p>
+            )}
+
+            {(result.status === 'ok' || result.status === 'truncated') && result.text && (
+              <div className="relative">
+                <pre className="w-full bg-zinc-950 border border-zinc-800 rounded-lg p-4 pr-12 text-sm text-zinc-200 whitespace-pre-wrap break-words font-mono">
+                  {result.text}
+                </pre>
+                <button
+                  onClick={copyText}
+                  className="absolute top-3 right-3 text-zinc-500 hover:text-white transition-colors"
+                  title="Copy to clipboard"
+                >
+                  <Copy size={16} />
+                </button>
+              </div>
+            )}
+
+            {fileUrl && result.file && (
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-zinc-400">Secret Image</div>
+                <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 flex items-center justify-center">
+                  <img src={fileUrl} alt="Secret" className="max-w-full max-h-80 object-contain" />
+                </div>
+                <div className="text-xs font-mono text-zinc-500">{result.file.mime}, {result.file.bytes.length} B</div>
+              </div>
+            )}
+
+            <div className="text-xs font-mono text-zinc-500 flex gap-4">
+              {result.version > 0 && <span>format: v{result.version}</span>}
+              {isEncrypted && <span>AES-GCM</span>}
+              <span>declared: {result.declaredLength} B</span>
+              <span>recovered: {result.recoveredLength} B</span>
+            </div>
+          </div>
+        )}
+
+        {settings && (
+          <div className="space-y-3 pt-4 border-t border-zinc-800">
+            <div className="flex items-center gap-2 text-xs font-medium text-zinc-400">
+              <FileText size={12} />
+              <span>Recorded Settings</span>
+            </div>
+            <div className="text-xs font-mono text-zinc-500 flex flex-wrap gap-x-4 gap-y-1">
+              <span>{settings.software ?? 'unknown'}{settings.version !== undefined && ` v${settings.version}`}</span>
+              <span>ranges: {settings.config.surfaceMin}–255 / 0–{settings.config.hiddenMax}</span>
+              <span>{settings.config.grayscale ? 'grayscale' : 'color'}</span>
+              <span>seed: {settings.config.seed}</span>
+            </div>
+            {settings.sources && (
+              <div className="text-[10px] font-mono text-zinc-600 space-y-0.5 break-all">
+                {settings.sources.surface.map((hash, i) => <div key={`s${i}`}>surface: {hash}</div>)}
+                {settings.sources.hidden.map((hash, i) => <div key={`h${i}`}>hidden: {hash}</div>)}
+              </div>
+            )}
+            <button
+              onClick={() => onRestoreSettings(settings)}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-semibold transition-colors"
+            >
+              <RotateCcw size={14} />
+              Restore Settings
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
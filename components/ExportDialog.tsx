@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileDown, Loader2, TriangleAlert, X } from 'lucide-react';
+import { ExportFormat, ExportResult } from '../types';
+import { runExportJob } from '../services/mirageClient';
+
+interface ExportDialogProps {
+  /** The result as a PNG or APNG data URL. */
+  resultUrl: string;
+  /** Animations can only be exported as PNG. */
+  animated: boolean;
+  /** Whether the result carries a hidden message or secret. */
+  hasPayload: boolean;
+  lightBackground: string;
+  darkBackground: string;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'png', label: 'PNG', hint: '32-bit RGBA, lossless' },
+  { value: 'png8', label: 'PNG8', hint: 'Up to 256 colors with alpha' },
+  { value: 'webp', label: 'WebP', hint: 'Lossless, usually smaller than PNG' },
+];
+
+/** Wait after the last change before re-encoding. */
+const ENCODE_DELAY = 300;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const formatPsnr = (db: number) => (Number.isFinite(db) ? `${db.toFixed(1)} dB` : 'exact');
+
+/**
+ * Export in another format and/or under a size limit. The file is encoded
+ * in the worker as settings change, so size and quality loss are known
+ * before downloading.
+ */
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  resultUrl,
+  animated,
+  hasPayload,
+  lightBackground,
+  darkBackground,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [limitSize, setLimitSize] = useState(false);
+  const [limitMb, setLimitMb] = useState(2);
+  const [source, setSource] = useState<Uint8Array | null>(null);
+  const [result, setResult] = useState<ExportResult | null>(null);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(resultUrl)
+      .then(res => res.arrayBuffer())
+      .then(buffer => { if (!cancelled) setSource(new Uint8Array(buffer)); });
+    return () => { cancelled = true; };
+  }, [resultUrl]);
+
+  const maxBytes = limitSize ? Math.round(limitMb * 1024 * 1024) : 0;
+
+  useEffect(() => {
+    if (!source) return;
+    const controller = new AbortController();
+    setIsEncoding(true);
+    setError(null);
+    const timer = setTimeout(async () => {
+      try {
+        const exported = await runExportJob(
+          source,
+          { format, maxBytes, lightBackground, darkBackground },
+          { signal: controller.signal }
+        );
+        setResult(exported);
+        setIsEncoding(false);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        setResult(null);
+        setError(err instanceof Error ? err.message : 'Export failed');
+        setIsEncoding(false);
+      }
+    }, ENCODE_DELAY);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [source, format, maxBytes, lightBackground, darkBackground]);
+
+  const download = () => {
+    if (!result) return;
+    const url = URL.createObjectURL(new Blob([result.bytes], { type: result.mime }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `mirage-tank-${Date.now()}.${result.extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const current = result && !isEncoding ? result : null;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <div className="flex items-center gap-2 text-zinc-100 font-semibold">
+            <FileDown size={16} className="text-indigo-400" />
+            <span>Export</span>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {/* Format */}
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-zinc-400">Format</label>
+            <div className="grid grid-cols-3 gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+              {FORMATS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setFormat(value)}
+                  disabled={animated && value !== 'png'}
+                  className={`px-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-40 ${format === value ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-zinc-500 leading-tight">
+              {FORMATS.find(f => f.value === format)?.hint}
+              {animated && '. Animations export as APNG only.'}
+            </p>
+          </div>
+
+          {/* Size limit */}
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="flex items-center gap-2 text-xs font-medium text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={limitSize}
+                  onChange={() => setLimitSize(!limitSize)}
+                  className="accent-indigo-500"
+                />
+                Limit file size
+              </label>
+              <div className="flex items-center gap-1.5">
+                <input
+                  type="number"
+                  min="0.05"
+                  step="0.1"
+                  value={limitMb}
+                  onChange={e => setLimitMb(Math.max(0.05, parseFloat(e.target.value) || 0.05))}
+                  disabled={!limitSize}
+                  className="w-20 bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-xs font-mono text-zinc-200 text-right disabled:opacity-40 focus:outline-none focus:border-zinc-600"
+                />
+                <span className="text-xs text-zinc-500">MB</span>
+              </div>
+            </div>
+            <p className="text-[10px] text-zinc-500 leading-tight">
+              PNG8 drops colors first; after that the image is scaled down until it fits.
+            </p>
+          </div>
+
+          {/* Outcome */}
+          <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-3 min-h-[88px] space-y-2">
+            {error ? (
+              <p className="text-xs text-red-300">{error}</p>
+            ) : !current ? (
+              <div className="flex items-center justify-center gap-2 h-16 text-xs text-zinc-500">
+                <Loader2 size={14} className="animate-spin" />
+                Encoding…
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  <span className="text-zinc-500">Size</span>
+                  <span className={`font-mono text-right ${current.fits ? 'text-zinc-200' : 'text-amber-400'}`}>
+                    {formatBytes(current.bytes.length)}
+                    {source && <span className="text-zinc-600"> / {formatBytes(source.length)}</span>}
+                  </span>
+                  <span className="text-zinc-500">Dimensions</span>
+                  <span className="font-mono text-right text-zinc-200">
+                    {current.width}×{current.height}
+                    {current.scale < 1 && <span className="text-amber-400"> ({Math.round(current.scale * 100)}%)</span>}
+                  </span>
+                  {current.colors !== undefined && (
+                    <>
+                      <span className="text-zinc-500">Colors</span>
+                      <span className="font-mono text-right text-zinc-200">{current.colors}</span>
+                    </>
+                  )}
+                  <span className="text-zinc-500">Quality over light / dark</span>
+                  <span className="font-mono text-right text-zinc-200">
+                    {current.exact ? 'lossless' : `${formatPsnr(current.lightPsnr)} / ${formatPsnr(current.darkPsnr)}`}
+                  </span>
+                </div>
+                {!current.fits && (
+                  <p className="flex items-start gap-1.5 text-[11px] text-amber-300">
+                    <TriangleAlert size={12} className="mt-0.5 flex-shrink-0" />
+                    Could not get under {formatBytes(maxBytes)}; this is the smallest attempt.
+                  </p>
+                )}
+                {hasPayload && !current.exact && (
+                  <p className="flex items-start gap-1.5 text-[11px] text-amber-300">
+                    <TriangleAlert size={12} className="mt-0.5 flex-shrink-0" />
+                    Changed pixels destroy the hidden message and secret file.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end px-5 py-4 border-t border-zinc-800">
+          <button
+            onClick={download}
+            disabled={!current}
+            className="flex items-center gap-2 px-4 py-1.5 text-xs font-semibold rounded-lg bg-zinc-100 hover:bg-zinc-200 text-zinc-900 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={14} />
+            Download {current ? `.${current.extension}` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crop, FlipHorizontal, FlipVertical, RotateCcw, RotateCw, Undo2, X } from 'lucide-react';
+import { FitMode, LayerTransform, ProcessingConfig } from '../types';
+import { DEFAULT_TRANSFORM, getLayerPlacement } from '../services/framing';
+import { getOutputSize } from '../services/mirageCore';
+
+type FramedSlot = 'surface' | 'hidden';
+
+interface FramingEditorProps {
+  slot: FramedSlot;
+  surfaceSrc: string | null;
+  hiddenSrc: string | null;
+  config: ProcessingConfig;
+  onChange: (slot: FramedSlot, transform: LayerTransform) => void;
+  onClose: () => void;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const FIT_MODES: { value: FitMode; label: string }[] = [
+  { value: 'cover', label: 'Cover' },
+  { value: 'contain', label: 'Contain' },
+  { value: 'stretch', label: 'Stretch' },
+];
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 8;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Keeps rotation in (-180, 180]
+const normalizeAngle = (deg: number) => {
+  const a = ((deg % 360) + 360) % 360;
+  return a > 180 ? a - 360 : a;
+};
+
+const useNaturalSize = (src: string | null) => {
+  const [size, setSize] = useState<Size | null>(null);
+  useEffect(() => {
+    setSize(null);
+    if (!src) return;
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = src;
+  }, [src]);
+  return size;
+};
+
+/**
+ * One input as CSS, placed the way renderLayer will place it: percentages
+ * of the frame, then the same flip/scale/rotate/translate steps.
+ */
+const layerStyle = (src: Size, frame: Size, t: LayerTransform): React.CSSProperties => {
+  const { scaleX, scaleY, angle, centerX, centerY } = getLayerPlacement(src.width, src.height, frame.width, frame.height, t);
+  return {
+    position: 'absolute',
+    left: `${(centerX / frame.width) * 100}%`,
+    top: `${(centerY / frame.height) * 100}%`,
+    width: `${(src.width / frame.width) * 100}%`,
+    height: `${(src.height / frame.height) * 100}%`,
+    maxWidth: 'none',
+    transform: `translate(-50%, -50%) rotate(${angle}rad) scale(${scaleX * (t.flipX ? -1 : 1)}, ${scaleY * (t.flipY ? -1 : 1)})`,
+  };
+};
+
+/**
+ * Modal for framing the surface or hidden input inside the output: fit mode,
+ * pan (drag), zoom (wheel or slider), rotation and flips. The other input is
+ * overlaid at adjustable opacity so both can be lined up.
+ */
+export const FramingEditor: React.FC<FramingEditorProps> = ({ slot, surfaceSrc, hiddenSrc, config, onChange, onClose }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+  const [overlayOpacity, setOverlayOpacity] = useState(0.4);
+
+  const surfaceSize = useNaturalSize(surfaceSrc);
+  const hiddenSize = useNaturalSize(hiddenSrc);
+
+  const transform = slot === 'surface' ? config.surfaceTransform : config.hiddenTransform;
+  const otherTransform = slot === 'surface' ? config.hiddenTransform : config.surfaceTransform;
+  const src = slot === 'surface' ? surfaceSrc : hiddenSrc;
+  const otherSrc = slot === 'surface' ? hiddenSrc : surfaceSrc;
+  const size = slot === 'surface' ? surfaceSize : hiddenSize;
+  const otherSize = slot === 'surface' ? hiddenSize : surfaceSize;
+
+  // Same output size the generator will use; the edited image alone until
+  // the other one is loaded
+  const frame = size && getOutputSize(surfaceSize ?? size, hiddenSize ?? size, config);
+
+  const update = (patch: Partial<LayerTransform>) => onChange(slot, { ...transform, ...patch });
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  const updateRef = useRef(update);
+  updateRef.current = update;
+  const zoomRef = useRef(transform.zoom);
+  zoomRef.current = transform.zoom;
+  useEffect(() => {
+    const el = frameRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      updateRef.current({ zoom: clampZoom(zoomRef.current * Math.exp(-e.deltaY * 0.0015)) });
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [frame !== null]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, offsetX: transform.offsetX, offsetY: transform.offsetY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+    update({
+      offsetX: drag.offsetX + (e.clientX - drag.x) / rect.width,
+      offsetY: drag.offsetY + (e.clientY - drag.y) / rect.height,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-3xl max-h-full overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <div className="flex items-center gap-2 text-zinc-100 font-semibold">
+            <Crop size={16} className="text-indigo-400" />
+            <span>Frame {slot === 'surface' ? 'Surface' : 'Hidden'} Image</span>
+            {frame && <span className="text-xs font-mono font-normal text-zinc-500">{frame.width}×{frame.height}</span>}
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {/* Frame at the output's aspect ratio */}
+          <div className="flex justify-center">
+            {frame && size && src ? (
+              <div
+                ref={frameRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className={`relative overflow-hidden rounded-lg ring-1 ring-zinc-700 cursor-move touch-none select-none ${slot === 'surface' ? 'bg-white' : 'bg-black'}`}
+                style={{
+                  aspectRatio: `${frame.width} / ${frame.height}`,
+                  width: `min(100%, calc(55vh * ${frame.width / frame.height}))`,
+                }}
+              >
+                <img src={src} alt="" draggable={false} style={layerStyle(size, frame, transform)} />
+                {otherSrc && otherSize && (
+                  <img
+                    src={otherSrc}
+                    alt=""
+                    draggable={false}
+                    className="pointer-events-none"
+                    style={{ ...layerStyle(otherSize, frame, otherTransform), opacity: overlayOpacity }}
+                  />
+                )}
+              </div>
+            ) : (
+              <div className="h-64 flex items-center justify-center text-sm text-zinc-500">Loading…</div>
+            )}
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-5">
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                {FIT_MODES.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => update({ fit: value })}
+                    className={`px-1 py-1 text-xs font-medium rounded-md transition-all ${transform.fit === value ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="text-xs font-medium text-zinc-400">Zoom</label>
+                  <span className="text-xs text-zinc-500">{Math.round(transform.zoom * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={Math.log(MIN_ZOOM)}
+                  max={Math.log(MAX_ZOOM)}
+                  step="0.01"
+                  value={Math.log(transform.zoom)}
+                  onChange={e => update({ zoom: clampZoom(Math.exp(parseFloat(e.target.value))) })}
+                  className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="text-xs font-medium text-zinc-400">Rotation</label>
+                  <span className="text-xs text-zinc-500">{Math.round(transform.rotation)}°</span>
+                </div>
+                <input
+                  type="range"
+                  min="-180"
+                  max="180"
+                  step="1"
+                  value={transform.rotation}
+                  onChange={e => update({ rotation: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-4 gap-1">
+                <button
+                  onClick={() => update({ rotation: normalizeAngle(transform.rotation - 90) })}
+                  title="Rotate 90° counter-clockwise"
+                  className="flex justify-center p-2 rounded-lg text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 border border-zinc-800 transition-colors"
+                >
+                  <RotateCcw size={14} />
+                </button>
+                <button
+                  onClick={() => update({ rotation: normalizeAngle(transform.rotation + 90) })}
+                  title="Rotate 90° clockwise"
+                  className="flex justify-center p-2 rounded-lg text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 border border-zinc-800 transition-colors"
+                >
+                  <RotateCw size={14} />
+                </button>
+                <button
+                  onClick={() => update({ flipX: !transform.flipX })}
+                  title="Flip horizontally"
+                  className={`flex justify-center p-2 rounded-lg border transition-colors ${transform.flipX ? 'bg-zinc-700 text-white border-zinc-600' : 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 border-zinc-800'}`}
+                >
+                  <FlipHorizontal size={14} />
+                </button>
+                <button
+                  onClick={() => update({ flipY: !transform.flipY })}
+                  title="Flip vertically"
+                  className={`flex justify-center p-2 rounded-lg border transition-colors ${transform.flipY ? 'bg-zinc-700 text-white border-zinc-600' : 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 border-zinc-800'}`}
+                >
+                  <FlipVertical size={14} />
+                </button>
+              </div>
+
+              {otherSrc && (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-xs font-medium text-zinc-400">
+                      {slot === 'surface' ? 'Hidden' : 'Surface'} overlay
+                    </label>
+                    <span className="text-xs text-zinc-500">{Math.round(overlayOpacity * 100)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={overlayOpacity}
+                    onChange={e => setOverlayOpacity(parseFloat(e.target.value))}
+                    className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-zinc-500 hover:accent-zinc-300"
+                  />
+                </div>
+              )}
+
+              <p className="text-xs text-zinc-500">
+                Drag to pan, scroll to zoom. Areas the image doesn't reach become plain {slot === 'surface' ? 'light' : 'dark'} background.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between px-5 py-4 border-t border-zinc-800">
+          <button
+            onClick={() => onChange(slot, DEFAULT_TRANSFORM)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 transition-colors"
+          >
+            <Undo2 size={14} />
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 text-xs font-medium rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+import { History, Undo2, Redo2, ImageOff, Keyboard } from 'lucide-react';
+import { describeChange, HistoryState } from '../services/history';
+import { SHORTCUTS } from './shortcuts';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Earlier states of the editor, oldest first, with a thumbnail of each
+ * result; clicking one goes back to it. Entries after the current one can
+ * be redone until something new is changed.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onUndo, onRedo }) => {
+  const { entries, index } = history;
+  const stripRef = useRef<HTMLDivElement>(null);
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current entry in view as it moves, without scrolling the page
+  useEffect(() => {
+    const strip = stripRef.current;
+    const item = currentRef.current;
+    if (!strip || !item) return;
+    if (item.offsetLeft < strip.scrollLeft) {
+      strip.scrollLeft = item.offsetLeft;
+    } else if (item.offsetLeft + item.offsetWidth > strip.scrollLeft + strip.clientWidth) {
+      strip.scrollLeft = item.offsetLeft + item.offsetWidth - strip.clientWidth;
+    }
+  }, [index, entries.length]);
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-100 font-semibold">
+          <History size={20} className="text-indigo-400" />
+          <h3>History</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={index <= 0}
+            title="Undo (Ctrl+Z)"
+            className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={index >= entries.length - 1}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            <Redo2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-zinc-600">Changes to the inputs and settings show up here.</p>
+      ) : (
+        <div ref={stripRef} className="relative flex gap-2 overflow-x-auto pb-2">
+          {entries.map((entry, i) => {
+            const { lightBackground, darkBackground } = entry.project.config;
+            const label = describeChange(entries[i - 1]?.project ?? null, entry.project);
+            return (
+              <button
+                key={`${entry.time}-${i}`}
+                ref={i === index ? currentRef : undefined}
+                onClick={() => onJump(i)}
+                title={`${label} · ${formatTime(entry.time)}`}
+                className={`flex-shrink-0 w-20 space-y-1 text-left rounded-lg p-1 transition-all ${i === index ? 'ring-2 ring-indigo-500 bg-zinc-800' : 'hover:bg-zinc-800'} ${i > index ? 'opacity-50' : ''}`}
+              >
+                <div
+                  className="w-full h-14 rounded-md overflow-hidden flex items-center justify-center"
+                  style={{ background: `linear-gradient(90deg, ${lightBackground} 50%, ${darkBackground} 50%)` }}
+                >
+                  {entry.thumbnail
+                    ? <img src={entry.thumbnail} alt="" className="max-w-full max-h-full object-contain" />
+                    : <ImageOff size={16} className="text-zinc-500" />}
+                </div>
+                <div className="text-[10px] leading-tight text-zinc-400 truncate">
+                  {label}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-start gap-2 pt-2 border-t border-zinc-800 text-[10px] text-zinc-500">
+        <Keyboard size={12} className="mt-0.5 flex-shrink-0" />
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {SHORTCUTS.map(({ keys, action }) => (
+            <span key={keys}>
+              <kbd className="font-mono text-zinc-300">{keys}</kbd> {action}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, TriangleAlert } from 'lucide-react';
+import { PlatformProfile, PlatformSimulation, SurvivalStatus } from '../types';
+import { PLATFORM_PROFILES } from '../services/platforms';
+import { runSimulateJob } from '../services/mirageClient';
+
+interface PlatformSimulatorProps {
+  /** The result as a PNG or APNG data URL. */
+  resultUrl: string;
+  /** Whether the result carries a hidden message or secret, which re-encoding destroys. */
+  hasPayload: boolean;
+}
+
+const STATUS_STYLES: Record<SurvivalStatus, { label: string; className: string }> = {
+  ok: { label: 'Survives', className: 'bg-emerald-500/15 text-emerald-300 border-emerald-500/30' },
+  degraded: { label: 'Degraded', className: 'bg-amber-500/15 text-amber-300 border-amber-500/30' },
+  destroyed: { label: 'Destroyed', className: 'bg-red-500/15 text-red-300 border-red-500/30' },
+};
+
+/**
+ * The thumbnail as a received message in one theme.
+ */
+const ChatBubble: React.FC<{ src: string; background: string; label: string; ssim: number }> = ({
+  src,
+  background,
+  label,
+  ssim,
+}) => (
+  <div className="flex-1 min-w-0 rounded-lg p-3 flex flex-col gap-2" style={{ backgroundColor: background }}>
+    <div className="flex items-start gap-2">
+      <div className="w-6 h-6 rounded bg-zinc-500/30 flex-shrink-0" />
+      <div className="rounded-md overflow-hidden max-w-full" style={{ backgroundColor: background }}>
+        {src ? (
+          <img src={src} alt={`${label} theme`} className="max-w-full h-auto block" />
+        ) : (
+          <div className="w-20 h-14 flex items-center justify-center text-[10px] text-zinc-500">Not sent</div>
+        )}
+      </div>
+    </div>
+    <span className="self-end font-mono text-[10px] px-1.5 py-0.5 rounded bg-black/40 text-zinc-300">
+      {label} · SSIM {ssim.toFixed(2)}
+    </span>
+  </div>
+);
+
+const PlatformCard: React.FC<{ profile: PlatformProfile; simulation: PlatformSimulation; hasPayload: boolean }> = ({
+  profile,
+  simulation,
+  hasPayload,
+}) => {
+  const status = STATUS_STYLES[simulation.status];
+  const warnings = hasPayload && !simulation.exact
+    ? [...simulation.warnings, 'Re-encoding strips the hidden message and secret file']
+    : simulation.warnings;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2.5 border-b border-zinc-800">
+        <span className="text-sm font-semibold text-zinc-200">{profile.name}</span>
+        <span className={`text-[10px] font-semibold uppercase tracking-wide px-2 py-0.5 rounded-full border ${status.className}`}>
+          {status.label}
+        </span>
+      </div>
+      <div className="flex gap-2 p-3">
+        <ChatBubble src={simulation.thumbnailUrl} background={profile.lightTheme} label="Light" ssim={simulation.lightSsim} />
+        <ChatBubble src={simulation.thumbnailUrl} background={profile.darkTheme} label="Dark" ssim={simulation.darkSsim} />
+      </div>
+      <div className="px-4 pb-3 space-y-2">
+        <ol className="list-decimal list-inside space-y-0.5 text-[11px] text-zinc-500">
+          {simulation.steps.map(step => <li key={step}>{step}</li>)}
+        </ol>
+        {warnings.map(warning => (
+          <p key={warning} className="flex items-start gap-1.5 text-[11px] text-amber-300">
+            <TriangleAlert size={12} className="mt-0.5 flex-shrink-0" />
+            {warning}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Side-by-side view of what each chat platform makes of the result, over its
+ * light and dark themes. Simulated in the worker whenever the result changes.
+ */
+export const PlatformSimulator: React.FC<PlatformSimulatorProps> = ({ resultUrl, hasPayload }) => {
+  const [simulations, setSimulations] = useState<PlatformSimulation[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setError(null);
+    (async () => {
+      try {
+        const png = new Uint8Array(await (await fetch(resultUrl)).arrayBuffer());
+        setSimulations(await runSimulateJob(png, PLATFORM_PROFILES, { signal: controller.signal }));
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        setSimulations(null);
+        setError(err instanceof Error ? err.message : 'Simulation failed');
+      }
+    })();
+    return () => controller.abort();
+  }, [resultUrl]);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center gap-2 h-full text-sm text-red-300">
+        <TriangleAlert size={16} />
+        {error}
+      </div>
+    );
+  }
+
+  if (!simulations) {
+    return (
+      <div className="flex items-center justify-center gap-2 h-full text-sm text-zinc-500">
+        <Loader2 size={16} className="animate-spin" />
+        Simulating uploads…
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+      {simulations.map(simulation => {
+        const profile = PLATFORM_PROFILES.find(p => p.id === simulation.profileId);
+        return profile && (
+          <PlatformCard key={profile.id} profile={profile} simulation={simulation} hasPayload={hasPayload} />
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, BookmarkPlus, Pencil, Trash2, Upload, Download, Check, TriangleAlert } from 'lucide-react';
+import { Preset, ProcessingConfig } from '../types';
+import {
+  applyPreset,
+  BUILT_IN_PRESETS,
+  createPreset,
+  exportPresets,
+  importPresets,
+  loadPresets,
+  matchesPreset,
+  storePresets,
+} from '../services/presets';
+
+interface PresetManagerProps {
+  config: ProcessingConfig;
+  onChange: (newConfig: ProcessingConfig) => void;
+  isProcessing: boolean;
+}
+
+/**
+ * Built-in profiles and the user's own presets, which can be saved from the
+ * current settings, renamed, deleted and shared as JSON.
+ */
+export const PresetManager: React.FC<PresetManagerProps> = ({ config, onChange, isProcessing }) => {
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const update = (next: Preset[]) => {
+    setPresets(next);
+    try {
+      storePresets(next);
+      setError(null);
+    } catch (err) {
+      console.error("Saving presets failed", err);
+      setError('Presets could not be saved in this browser.');
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    update([...presets, createPreset(name, config)]);
+    setNewName('');
+  };
+
+  const handleRename = (e: React.SyntheticEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    if (name) update(presets.map(preset => (preset.id === renaming.id ? { ...preset, name } : preset)));
+    setRenaming(null);
+  };
+
+  const handleDelete = (preset: Preset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    update(presets.filter(p => p.id !== preset.id));
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportPresets(presets)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'mirage-tank-presets.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPresets(await file.text());
+      update([...presets, ...imported.presets]);
+      if (imported.dropped.length > 0) {
+        setError(`Left out invalid entries: ${imported.dropped.join('; ')}.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  const renderPreset = (preset: Preset) => {
+    const active = matchesPreset(config, preset);
+    const { lightBackground, darkBackground } = preset.settings;
+
+    if (renaming?.id === preset.id) {
+      return (
+        <form key={preset.id} onSubmit={handleRename} className="flex items-center gap-2 p-1.5">
+          <input
+            autoFocus
+            value={renaming.name}
+            onChange={e => setRenaming({ ...renaming, name: e.target.value })}
+            onBlur={handleRename}
+            onKeyDown={e => { if (e.key === 'Escape') setRenaming(null); }}
+            className="flex-1 min-w-0 bg-zinc-950 border border-indigo-500 rounded-lg py-1 px-2 text-xs text-zinc-200 focus:outline-none"
+          />
+        </form>
+      );
+    }
+
+    return (
+      <div
+        key={preset.id}
+        className={`group flex items-center gap-2 p-1.5 rounded-lg transition-colors ${active ? 'bg-indigo-500/10' : 'hover:bg-zinc-800'}`}
+      >
+        <button
+          onClick={() => onChange(applyPreset(config, preset))}
+          disabled={isProcessing}
+          title={preset.description}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left"
+        >
+          <span
+            className="w-5 h-5 flex-shrink-0 rounded ring-1 ring-zinc-700"
+            style={{ background: `linear-gradient(135deg, ${lightBackground ?? '#FFFFFF'} 50%, ${darkBackground ?? '#000000'} 50%)` }}
+          />
+          <span className="min-w-0">
+            <span className={`block text-xs font-medium truncate ${active ? 'text-indigo-300' : 'text-zinc-300'}`}>{preset.name}</span>
+            {preset.settings.surfaceMin !== undefined && preset.settings.hiddenMax !== undefined && (
+              <span className="block text-[10px] font-mono text-zinc-600">
+                {preset.settings.surfaceMin}–255 / 0–{preset.settings.hiddenMax}
+              </span>
+            )}
+          </span>
+        </button>
+        {active && <Check size={14} className="text-indigo-400 flex-shrink-0" />}
+        {!preset.builtIn && (
+          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              onClick={() => setRenaming({ id: preset.id, name: preset.name })}
+              title="Rename"
+              className="p-1 rounded text-zinc-500 hover:text-zinc-200"
+            >
+              <Pencil size={12} />
+            </button>
+            <button
+              onClick={() => handleDelete(preset)}
+              title="Delete"
+              className="p-1 rounded text-zinc-500 hover:text-red-400"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-100 font-semibold">
+          <Bookmark size={20} className="text-indigo-400" />
+          <h3>Presets</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <input ref={importRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => importRef.current?.click()}
+            title="Import presets from a JSON file"
+            className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 transition-colors"
+          >
+            <Upload size={16} />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={presets.length === 0}
+            title="Export your presets as JSON"
+            className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            <Download size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-[10px] uppercase tracking-wide text-zinc-600">Built-in</div>
+        <div className="grid grid-cols-2 gap-1">
+          {BUILT_IN_PRESETS.map(renderPreset)}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-[10px] uppercase tracking-wide text-zinc-600">Yours</div>
+        {presets.length > 0 ? (
+          <div className="grid grid-cols-2 gap-1">
+            {presets.map(renderPreset)}
+          </div>
+        ) : (
+          <p className="text-xs text-zinc-600">Save the current settings to reuse them, or import a file from a teammate.</p>
+        )}
+      </div>
+
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="Name for the current settings"
+          className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded-lg py-1.5 px-3 text-xs text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-semibold transition-colors disabled:opacity-50"
+        >
+          <BookmarkPlus size={14} />
+          Save
+        </button>
+      </form>
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-300 text-xs">
+          <TriangleAlert size={12} />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
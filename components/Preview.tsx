@@ -1,29 +1,107 @@
-import React, { useState } from 'react';
-import { Download, Loader2, Maximize2, Check } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2, Maximize2, Check, TriangleAlert, Flame, RotateCcw } from 'lucide-react';
+import { FidelityMetrics, InspectionData } from '../types';
+import { ExportDialog } from './ExportDialog';
+import { PlatformSimulator } from './PlatformSimulator';
+import { CompareMode, CompareView, mixColors } from './CompareView';
+import { isPlainKey } from './shortcuts';
 
 interface PreviewProps {
   resultUrl: string | null;
   isProcessing: boolean;
+  /** Fraction [0, 1] of the current job done. */
+  progress?: number;
+  error?: string | null;
+  /** Quality of the current result, null before the first run. */
+  fidelity: FidelityMetrics | null;
+  /** Error heatmap for the current result, drawn over it on demand. */
+  heatmapUrl: string | null;
+  /** Backgrounds the result was generated for, as #RRGGBB. */
+  lightBackground: string;
+  darkBackground: string;
+  /** Frames in the result; above 1 it is an animated PNG. */
+  frameCount: number;
+  /** Length of one animation cycle in ms. */
+  duration: number;
+  /** Whether the result carries a hidden message or secret, which lossy exports destroy. */
+  hasPayload: boolean;
+  /** Pixels behind the current result, for the pixel inspector. */
+  inspection: InspectionData | null;
 }
 
-export const Preview: React.FC<PreviewProps> = ({ resultUrl, isProcessing }) => {
-  const [bgMode, setBgMode] = useState<'white' | 'black' | 'chat'>('chat');
+type ViewMode = CompareMode | 'chat';
 
-  const downloadImage = () => {
-    if (!resultUrl) return;
-    const a = document.createElement('a');
-    a.href = resultUrl;
-    a.download = `mirage-tank-${Date.now()}.png`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-  };
+const VIEW_MODES: { value: ViewMode; label: string; title: string }[] = [
+  { value: 'light', label: 'Light', title: 'Over the light background' },
+  { value: 'dark', label: 'Dark', title: 'Over the dark background' },
+  { value: 'split', label: 'Split', title: 'Light and dark side by side; drag the divider' },
+  { value: 'blend', label: 'Blend', title: 'Over any mix of the two backgrounds' },
+  { value: 'custom', label: 'Custom', title: 'Over a background color of your choice' },
+];
+
+/** Number keys 1–6 pick these, in order. */
+const SHORTCUT_MODES: ViewMode[] = [...VIEW_MODES.map(({ value }) => value), 'chat'];
+
+const formatPsnr = (db: number) => (Number.isFinite(db) ? `${db.toFixed(1)} dB` : 'exact');
+
+const Metric: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn }) => (
+  <div className="flex flex-col">
+    <span className="text-[10px] uppercase tracking-wide text-zinc-600">{label}</span>
+    <span className={`font-mono text-xs ${warn ? 'text-amber-400' : 'text-zinc-300'}`}>{value}</span>
+  </div>
+);
+
+export const Preview: React.FC<PreviewProps> = ({
+  resultUrl,
+  isProcessing,
+  progress = 0,
+  error,
+  fidelity,
+  heatmapUrl,
+  lightBackground,
+  darkBackground,
+  frameCount,
+  duration,
+  hasPayload,
+  inspection,
+}) => {
+  const [bgMode, setBgMode] = useState<ViewMode>('split');
+  const [blend, setBlend] = useState(0.5);
+  const [customBackground, setCustomBackground] = useState('#808080');
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // Remounting the images restarts an animation on both backgrounds together
+  const [playKey, setPlayKey] = useState(0);
+  const animated = frameCount > 1;
+  const canExport = !!resultUrl && !isProcessing;
+
+  // 1–6 switch the view, E opens the export dialog
+  useEffect(() => {
+    if (showExport) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!isPlainKey(e)) return;
+      const mode = SHORTCUT_MODES[Number(e.key) - 1];
+      if (mode) setBgMode(mode);
+      else if (e.key.toLowerCase() === 'e' && canExport) setShowExport(true);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [showExport, canExport]);
 
   if (!resultUrl && !isProcessing) {
     return (
       <div className="w-full h-full min-h-[400px] bg-zinc-900/50 border border-dashed border-zinc-800 rounded-xl flex flex-col items-center justify-center text-zinc-600">
-        <Maximize2 size={48} className="mb-4 opacity-50" />
-        <p>Preview will appear here</p>
+        {error ? (
+          <>
+            <TriangleAlert size={48} className="mb-4 text-red-400 opacity-80" />
+            <p className="text-red-300 text-sm max-w-sm text-center">{error}</p>
+          </>
+        ) : (
+          <>
+            <Maximize2 size={48} className="mb-4 opacity-50" />
+            <p>Preview will appear here</p>
+          </>
+        )}
       </div>
     );
   }
@@ -33,100 +111,166 @@ export const Preview: React.FC<PreviewProps> = ({ resultUrl, isProcessing }) =>
       {/* Toolbar */}
       <div className="flex items-center justify-between px-4 py-3 bg-zinc-950 border-b border-zinc-800">
         <div className="flex items-center gap-1 bg-zinc-900 p-1 rounded-lg border border-zinc-800">
+          {VIEW_MODES.map(({ value, label, title }, i) => (
+            <button
+              key={value}
+              onClick={() => setBgMode(value)}
+              title={`${title} (${i + 1})`}
+              className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${bgMode === value ? 'bg-zinc-700 text-white shadow-sm' : 'text-zinc-400 hover:text-zinc-200'}`}
+            >
+              {label}
+            </button>
+          ))}
           <button 
-            onClick={() => setBgMode('white')}
-            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${bgMode === 'white' ? 'bg-white text-black shadow-sm' : 'text-zinc-400 hover:text-zinc-200'}`}
+            onClick={() => setBgMode('chat')}
+            title={`How chat apps treat the upload${animated ? ', for the first frame' : ''} (${SHORTCUT_MODES.length})`}
+            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${bgMode === 'chat' ? 'bg-indigo-600 text-white shadow-sm' : 'text-zinc-400 hover:text-zinc-200'}`}
           >
-            Light
+            Simulate
           </button>
-          <button 
-            onClick={() => setBgMode('black')}
-            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${bgMode === 'black' ? 'bg-zinc-800 text-white shadow-sm' : 'text-zinc-400 hover:text-zinc-200'}`}
+        </div>
+        
+        <div className="flex items-center gap-2">
+          {animated && (
+            <button
+              onClick={() => setPlayKey(playKey + 1)}
+              title="Restart the animation"
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-medium text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+            >
+              <RotateCcw size={14} />
+              Replay
+            </button>
+          )}
+          <button
+            onClick={() => setShowHeatmap(!showHeatmap)}
+            disabled={!heatmapUrl}
+            title={`Overlay per-pixel error (yellow to red) and clamped pixels (magenta)${animated ? ', for the first frame' : ''}`}
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${showHeatmap ? 'bg-amber-500/20 text-amber-300' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'}`}
           >
-            Dark
+            <Flame size={14} />
+            Heatmap
           </button>
           <button 
-            onClick={() => setBgMode('chat')}
-            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${bgMode === 'chat' ? 'bg-indigo-600 text-white shadow-sm' : 'text-zinc-400 hover:text-zinc-200'}`}
+            onClick={() => setShowExport(true)}
+            disabled={!canExport}
+            title="Export (E)"
+            className="flex items-center gap-2 px-4 py-2 bg-zinc-100 hover:bg-zinc-200 text-zinc-900 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Simulate
+            {isProcessing ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            Export
           </button>
         </div>
-        
-        <button 
-          onClick={downloadImage}
-          disabled={!resultUrl || isProcessing}
-          className="flex items-center gap-2 px-4 py-2 bg-zinc-100 hover:bg-zinc-200 text-zinc-900 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {isProcessing ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
-          Export PNG
-        </button>
       </div>
 
-      {/* Canvas Area */}
-      <div className="relative flex-1 w-full min-h-[400px] overflow-hidden flex items-center justify-center bg-zinc-950">
-        
-        {/* Background Layers */}
-        <div className={`absolute inset-0 transition-colors duration-300 ${
-          bgMode === 'white' ? 'bg-white' : 
-          bgMode === 'black' ? 'bg-black' : 
-          'bg-[#ededed]' // Chat background gray
-        }`} />
-
-        {/* Checkerboard for transparency indication (underneath everything) */}
-        {bgMode === 'chat' && (
-             <div className="absolute inset-0 opacity-10" 
-             style={{ 
-                 backgroundImage: 'radial-gradient(#000 1px, transparent 1px)', 
-                 backgroundSize: '20px 20px' 
-             }}></div>
-        )}
+      {showExport && resultUrl && (
+        <ExportDialog
+          resultUrl={resultUrl}
+          animated={animated}
+          hasPayload={hasPayload}
+          lightBackground={lightBackground}
+          darkBackground={darkBackground}
+          onClose={() => setShowExport(false)}
+        />
+      )}
 
-        {/* The Result Image */}
-        <div className={`relative z-10 p-8 max-w-full max-h-full flex items-center justify-center transition-all duration-500 ${isProcessing ? 'blur-sm scale-95 opacity-50' : 'scale-100 opacity-100'}`}>
-          
-          {/* Simulation Container for Chat Mode */}
-          {bgMode === 'chat' ? (
-             <div className="bg-white rounded-lg p-2 shadow-sm max-w-md w-full">
-                <div className="flex items-start gap-3">
-                   <div className="w-10 h-10 rounded bg-zinc-200 flex-shrink-0"></div>
-                   <div className="flex flex-col gap-1 max-w-full">
-                      <div className="text-xs text-zinc-400 font-medium">User</div>
-                      {/* This is the bubble */}
-                      <div className="bg-white border border-zinc-200 rounded-tr-xl rounded-bl-xl rounded-br-xl overflow-hidden">
-                        {resultUrl && (
-                            <img src={resultUrl} alt="Mirage" className="max-w-full h-auto object-contain block" />
-                        )}
-                      </div>
-                   </div>
-                </div>
-                <div className="h-4"></div>
-                {/* Dark mode bubble simulation */}
-                <div className="flex items-start gap-3 flex-row-reverse bg-[#111] p-4 rounded-xl -mx-2 mt-2">
-                   <div className="w-10 h-10 rounded bg-zinc-800 flex-shrink-0"></div>
-                   <div className="flex flex-col items-end gap-1 max-w-full w-full">
-                      <div className="text-xs text-zinc-600 font-medium">Dark Mode User</div>
-                      <div className="bg-black border border-zinc-800 rounded-tl-xl rounded-bl-xl rounded-br-xl overflow-hidden">
-                        {resultUrl && (
-                            <img src={resultUrl} alt="Mirage" className="max-w-full h-auto object-contain block" />
-                        )}
-                      </div>
-                   </div>
-                </div>
-             </div>
+      {fidelity && (
+        <div className="flex items-center gap-6 px-4 py-2 bg-zinc-950/60 border-b border-zinc-800">
+          <Metric label="Surface PSNR" value={formatPsnr(fidelity.surfacePsnr)} />
+          <Metric label="Surface SSIM" value={fidelity.surfaceSsim.toFixed(3)} />
+          <Metric label="Hidden PSNR" value={formatPsnr(fidelity.hiddenPsnr)} />
+          <Metric label="Hidden SSIM" value={fidelity.hiddenSsim.toFixed(3)} />
+          <Metric
+            label="Clamped"
+            value={`${((100 * fidelity.clampedPixels) / fidelity.totalPixels).toFixed(1)}%`}
+            warn={fidelity.clampedPixels > 0}
+          />
+          {animated && <Metric label="Animation" value={`${frameCount} frames · ${(duration / 1000).toFixed(2)} s`} />}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border-b border-red-500/20 px-4 py-2 flex items-center gap-2">
+          <TriangleAlert size={14} className="text-red-400 flex-shrink-0" />
+          <p className="text-xs text-red-300">{error} Showing the last successful result.</p>
+        </div>
+      )}
+
+      {isProcessing && (
+        <div className="h-0.5 bg-zinc-900">
+          <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+
+      {(bgMode === 'blend' || bgMode === 'custom') && (
+        <div className="flex items-center gap-3 px-4 py-2 bg-zinc-950/60 border-b border-zinc-800">
+          <span className="text-[10px] uppercase tracking-wide text-zinc-600">Background</span>
+          {bgMode === 'blend' ? (
+            <>
+              <span className="text-[10px] text-zinc-500">Dark</span>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={blend}
+                onChange={e => setBlend(parseFloat(e.target.value))}
+                className="w-48 h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              />
+              <span className="text-[10px] text-zinc-500">Light</span>
+              <span className="font-mono text-xs text-zinc-300">{mixColors(darkBackground, lightBackground, blend)}</span>
+            </>
           ) : (
-            resultUrl && <img src={resultUrl} alt="Mirage" className="max-w-full max-h-[60vh] object-contain shadow-2xl" />
+            <>
+              <input
+                type="color"
+                value={customBackground}
+                onChange={e => setCustomBackground(e.target.value.toUpperCase())}
+                className="w-7 h-5 bg-transparent border border-zinc-700 rounded cursor-pointer"
+              />
+              <span className="font-mono text-xs text-zinc-300">{customBackground}</span>
+            </>
           )}
+        </div>
+      )}
 
-          {isProcessing && (
-            <div className="absolute inset-0 flex items-center justify-center">
-              <div className="bg-black/80 backdrop-blur-md text-white px-6 py-3 rounded-full flex items-center gap-3 shadow-xl">
-                <Loader2 className="animate-spin text-indigo-400" />
-                <span className="font-medium">Processing pixels...</span>
+      {/* Canvas Area */}
+      <div className="relative flex-1 w-full min-h-[400px] overflow-hidden bg-zinc-950">
+        <div className={`absolute inset-0 transition-all duration-500 ${isProcessing ? 'blur-sm opacity-50' : 'opacity-100'}`}>
+          {/* What chat platforms make of the upload */}
+          {bgMode === 'chat' ? (
+            resultUrl && (
+              <div className="absolute inset-0 p-4 overflow-y-auto">
+                <PlatformSimulator resultUrl={resultUrl} hasPayload={hasPayload} />
               </div>
-            </div>
+            )
+          ) : (
+            resultUrl && (
+              <CompareView
+                resultUrl={resultUrl}
+                mode={bgMode}
+                lightBackground={lightBackground}
+                darkBackground={darkBackground}
+                blend={blend}
+                customBackground={customBackground}
+                heatmapUrl={heatmapUrl}
+                showHeatmap={showHeatmap}
+                inspection={inspection}
+                animated={animated}
+                playKey={playKey}
+              />
+            )
           )}
         </div>
+
+        {isProcessing && (
+          <div className="absolute inset-0 z-30 flex items-center justify-center">
+            <div className="bg-black/80 backdrop-blur-md text-white px-6 py-3 rounded-full flex items-center gap-3 shadow-xl">
+              <Loader2 className="animate-spin text-indigo-400" />
+              <span className="font-medium">Processing pixels...</span>
+              <span className="font-mono text-sm text-zinc-400 w-10 text-right">{Math.round(progress * 100)}%</span>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { Contrast, Undo2 } from 'lucide-react';
+import { EqualizeMode, ProcessingConfig, RgbaImage, ToneAdjustments } from '../types';
+import { DEFAULT_TONE, getToneHistograms, isDefaultTone } from '../services/tone';
+
+type ToneSlot = 'surface' | 'hidden';
+
+interface ToneControlsProps {
+  config: ProcessingConfig;
+  onChange: (newConfig: ProcessingConfig) => void;
+  isProcessing: boolean;
+  /** Decoded inputs for the histograms; null while not loaded. */
+  surfaceImage: RgbaImage | null;
+  hiddenImage: RgbaImage | null;
+}
+
+const EQUALIZE_MODES: { value: EqualizeMode; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'global', label: 'Equalize' },
+  { value: 'clahe', label: 'CLAHE' },
+];
+
+/** Bars drawn per histogram; the 256 bins are summed into these. */
+const HISTOGRAM_BARS = 64;
+
+const TONE_KEYS: Record<ToneSlot, 'surfaceTone' | 'hiddenTone'> = {
+  surface: 'surfaceTone',
+  hidden: 'hiddenTone',
+};
+
+const toPath = (histogram: Uint32Array, peak: number) => {
+  const per = 256 / HISTOGRAM_BARS;
+  let d = `M0 ${HISTOGRAM_BARS / 2}`;
+  for (let bar = 0; bar < HISTOGRAM_BARS; bar++) {
+    let sum = 0;
+    for (let v = bar * per; v < (bar + 1) * per; v++) sum += histogram[v];
+    // Square root keeps small bins visible next to a dominant one
+    const h = peak > 0 ? Math.sqrt(sum / peak) * (HISTOGRAM_BARS / 2) : 0;
+    d += ` L${bar} ${HISTOGRAM_BARS / 2 - h} L${bar + 1} ${HISTOGRAM_BARS / 2 - h}`;
+  }
+  return `${d} L${HISTOGRAM_BARS} ${HISTOGRAM_BARS / 2} Z`;
+};
+
+const Histogram: React.FC<{ image: RgbaImage | null; tone: ToneAdjustments }> = ({ image, tone }) => {
+  const paths = useMemo(() => {
+    if (!image) return null;
+    const { before, after } = getToneHistograms(image, tone);
+    const per = 256 / HISTOGRAM_BARS;
+    let peak = 0;
+    for (const histogram of [before, after]) {
+      for (let bar = 0; bar < HISTOGRAM_BARS; bar++) {
+        let sum = 0;
+        for (let v = bar * per; v < (bar + 1) * per; v++) sum += histogram[v];
+        peak = Math.max(peak, sum);
+      }
+    }
+    return { before: toPath(before, peak), after: toPath(after, peak) };
+  }, [image, tone]);
+
+  return (
+    <div className="h-16 bg-zinc-950 rounded-lg border border-zinc-800 overflow-hidden">
+      {paths ? (
+        <svg viewBox={`0 0 ${HISTOGRAM_BARS} ${HISTOGRAM_BARS / 2}`} preserveAspectRatio="none" className="w-full h-full">
+          <path d={paths.before} className="fill-zinc-700/60" />
+          <path d={paths.after} className="fill-indigo-500/70" />
+        </svg>
+      ) : (
+        <div className="h-full flex items-center justify-center text-xs text-zinc-600">No image</div>
+      )}
+    </div>
+  );
+};
+
+interface SliderProps {
+  label: string;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+const ToneSlider: React.FC<SliderProps> = ({ label, display, min, max, step, value, disabled, onChange }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between items-center">
+      <label className="text-xs font-medium text-zinc-400">{label}</label>
+      <span className="text-xs text-zinc-500 font-mono">{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      disabled={disabled}
+      className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-zinc-500 hover:accent-zinc-300"
+    />
+  </div>
+);
+
+const signedPercent = (v: number) => `${v > 0 ? '+' : ''}${Math.round(v * 100)}%`;
+
+/**
+ * Per-layer tone adjustments (levels, gamma, contrast, brightness,
+ * equalization, invert) with a before/after luma histogram.
+ */
+export const ToneControls: React.FC<ToneControlsProps> = ({ config, onChange, isProcessing, surfaceImage, hiddenImage }) => {
+  const [slot, setSlot] = useState<ToneSlot>('hidden');
+  const tone = config[TONE_KEYS[slot]];
+  const image = slot === 'surface' ? surfaceImage : hiddenImage;
+
+  const update = (patch: Partial<ToneAdjustments>) => {
+    onChange({ ...config, [TONE_KEYS[slot]]: { ...tone, ...patch } });
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-100 font-semibold">
+          <Contrast size={20} className="text-indigo-400" />
+          <h3>Tone</h3>
+        </div>
+        <div className="flex items-center gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+          {(['surface', 'hidden'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setSlot(value)}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${slot === value ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              {value === 'surface' ? 'Surface' : 'Hidden'}
+              {!isDefaultTone(config[TONE_KEYS[value]]) && <span className="ml-1 text-indigo-400">•</span>}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <Histogram image={image} tone={tone} />
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+        <ToneSlider
+          label="Black point"
+          display={String(tone.blackPoint)}
+          min={0}
+          max={254}
+          step={1}
+          value={tone.blackPoint}
+          disabled={isProcessing}
+          onChange={v => update({ blackPoint: v, whitePoint: Math.max(tone.whitePoint, v + 1) })}
+        />
+        <ToneSlider
+          label="White point"
+          display={String(tone.whitePoint)}
+          min={1}
+          max={255}
+          step={1}
+          value={tone.whitePoint}
+          disabled={isProcessing}
+          onChange={v => update({ whitePoint: v, blackPoint: Math.min(tone.blackPoint, v - 1) })}
+        />
+        <ToneSlider
+          label="Gamma"
+          display={tone.gamma.toFixed(2)}
+          min={-1.5}
+          max={1.5}
+          step={0.01}
+          value={Math.log(tone.gamma)}
+          disabled={isProcessing}
+          onChange={v => update({ gamma: Math.round(Math.exp(v) * 100) / 100 })}
+        />
+        <ToneSlider
+          label="Contrast"
+          display={signedPercent(tone.contrast)}
+          min={-1}
+          max={1}
+          step={0.01}
+          value={tone.contrast}
+          disabled={isProcessing}
+          onChange={v => update({ contrast: v })}
+        />
+        <ToneSlider
+          label="Brightness"
+          display={signedPercent(tone.brightness)}
+          min={-1}
+          max={1}
+          step={0.01}
+          value={tone.brightness}
+          disabled={isProcessing}
+          onChange={v => update({ brightness: v })}
+        />
+        <div className="flex items-end">
+          <button
+            onClick={() => update({ invert: !tone.invert })}
+            disabled={isProcessing}
+            className={`w-full py-1.5 text-xs font-medium rounded-lg border transition-colors ${tone.invert ? 'bg-zinc-700 text-white border-zinc-600' : 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 border-zinc-800'}`}
+          >
+            Invert
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex-1 grid grid-cols-3 gap-1 bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+          {EQUALIZE_MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => update({ equalize: value })}
+              disabled={isProcessing}
+              className={`px-1 py-1 text-xs font-medium rounded-md transition-all ${tone.equalize === value ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onChange({ ...config, [TONE_KEYS[slot]]: DEFAULT_TONE })}
+          disabled={isProcessing || isDefaultTone(tone)}
+          title="Reset tone"
+          className="p-2 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors disabled:opacity-40"
+        >
+          <Undo2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
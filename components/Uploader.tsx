@@ -1,24 +1,34 @@
 import React, { useRef, useState } from 'react';
-import { Upload, Image as ImageIcon, X } from 'lucide-react';
+import { Upload, Image as ImageIcon, X, Crop } from 'lucide-react';
 import { ImageSlot } from '../types';
 
-interface UploaderProps {
+interface UploaderProps<S extends string> {
   label: string;
   description: string;
-  slot: ImageSlot;
+  slot: S;
   imageSrc: string | null;
-  onImageSelected: (slot: ImageSlot, file: File) => void;
-  onClear: (slot: ImageSlot) => void;
+  onImageSelected: (slot: S, file: File) => void;
+  onClear: (slot: S) => void;
+  /** Opens the framing editor; slots without one get no button. */
+  onEdit?: (slot: S) => void;
+  /** Accepts several files at once as a frame sequence, sorted by name. */
+  onFramesSelected?: (slot: S, files: File[]) => void;
+  /** Frames in the current selection, shown as a badge above 1. */
+  frameCount?: number;
 }
 
-export const Uploader: React.FC<UploaderProps> = ({
+// Generic over the slot key so other screens (e.g. the decoder) can reuse it
+export const Uploader = <S extends string = ImageSlot,>({
   label,
   description,
   slot,
   imageSrc,
   onImageSelected,
   onClear,
-}) => {
+  onEdit,
+  onFramesSelected,
+  frameCount = 1,
+}: UploaderProps<S>) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
 
@@ -35,22 +45,26 @@ export const Uploader: React.FC<UploaderProps> = ({
     e.preventDefault();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      processFile(e.dataTransfer.files[0]);
+      processFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      processFile(e.target.files[0]);
+      processFiles(Array.from(e.target.files));
     }
   };
 
-  const processFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
+  const processFiles = (files: File[]) => {
+    if (files.some(file => !file.type.startsWith('image/'))) {
       alert('Please upload an image file.');
       return;
     }
-    onImageSelected(slot, file);
+    if (files.length > 1 && onFramesSelected) {
+      onFramesSelected(slot, files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })));
+    } else {
+      onImageSelected(slot, files[0]);
+    }
   };
 
   return (
@@ -63,13 +77,29 @@ export const Uploader: React.FC<UploaderProps> = ({
             className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" 
           />
           <div className="absolute top-0 left-0 w-full h-full bg-gradient-to-b from-black/60 to-transparent p-4 flex justify-between items-start">
-            <span className="text-white font-medium drop-shadow-md">{label}</span>
-            <button
-              onClick={() => onClear(slot)}
-              className="bg-black/50 hover:bg-red-500/80 p-2 rounded-full backdrop-blur-sm transition-colors text-white"
-            >
-              <X size={16} />
-            </button>
+            <div className="flex flex-col items-start gap-1">
+              <span className="text-white font-medium drop-shadow-md">{label}</span>
+              {frameCount > 1 && (
+                <span className="text-[10px] font-mono bg-black/60 text-zinc-200 px-1.5 py-0.5 rounded">{frameCount} frames</span>
+              )}
+            </div>
+            <div className="flex gap-1.5">
+              {onEdit && (
+                <button
+                  onClick={() => onEdit(slot)}
+                  title="Crop & frame"
+                  className="bg-black/50 hover:bg-indigo-500/80 p-2 rounded-full backdrop-blur-sm transition-colors text-white"
+                >
+                  <Crop size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => onClear(slot)}
+                className="bg-black/50 hover:bg-red-500/80 p-2 rounded-full backdrop-blur-sm transition-colors text-white"
+              >
+                <X size={16} />
+              </button>
+            </div>
           </div>
         </div>
       ) : (
@@ -92,6 +122,7 @@ export const Uploader: React.FC<UploaderProps> = ({
             ref={inputRef}
             type="file"
             accept="image/*"
+            multiple={!!onFramesSelected}
             className="hidden"
             onChange={handleFileChange}
           />
@@ -0,0 +1,31 @@
+/**
+ * Keyboard shortcuts, for listing in the UI. Plain keys are ignored while a
+ * text field has focus; it keeps its own undo too.
+ */
+export const SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: 'Ctrl+Z', action: 'Undo' },
+  { keys: 'Ctrl+Shift+Z', action: 'Redo' },
+  { keys: '1–5', action: 'Light, dark, split, blend, custom view' },
+  { keys: '6', action: 'Chat simulation' },
+  { keys: 'X', action: 'Swap surface and hidden' },
+  { keys: 'E', action: 'Export' },
+];
+
+const NON_TEXT_INPUTS = ['range', 'checkbox', 'radio', 'button', 'color', 'file'];
+
+/**
+ * Whether key presses on `target` are typing that shortcuts must leave alone.
+ */
+export const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(target.type))
+  );
+
+/**
+ * A plain key press: no modifier held, not typing, not repeating.
+ */
+export const isPlainKey = (e: KeyboardEvent) =>
+  !e.ctrlKey && !e.metaKey && !e.altKey && !e.repeat && !isTextEntry(e.target);
@@ -0,0 +1,100 @@
+import { ProcessingConfig, RgbaImage } from '../types';
+import { getTargetMapping } from './mapping';
+
+/**
+ * Adaptive local mapping. Wherever the hidden image would come out brighter
+ * than the surface (and get clamped), the surface floor is raised and the
+ * hidden ceiling lowered by the same amount, just far enough to make room.
+ * The amounts are spread with a max filter and then blurred, so each
+ * conflict area gets one smooth bump instead of per-pixel seams.
+ */
+
+/** Box blur passes; three approximate a Gaussian. */
+const BLUR_PASSES = 3;
+
+const luma = (d: Uint8ClampedArray, i: number) => 0.2126 * d[i] + 0.7152 * d[i + 1] + 0.0722 * d[i + 2];
+
+/**
+ * Sliding-window maximum of `radius` along one axis, in place. `count` lines
+ * of `length` samples, `stride` apart within a line and `step` between lines.
+ */
+const dilate = (data: Float32Array, count: number, length: number, step: number, stride: number, radius: number) => {
+  const line = new Float32Array(length);
+  const queue = new Int32Array(length);
+  for (let l = 0; l < count; l++) {
+    for (let k = 0; k < length; k++) line[k] = data[l * step + k * stride];
+    // Monotonic deque of indices with decreasing values
+    let head = 0, tail = 0, next = 0;
+    for (let k = 0; k < length; k++) {
+      for (; next < length && next <= k + radius; next++) {
+        while (tail > head && line[queue[tail - 1]] <= line[next]) tail--;
+        queue[tail++] = next;
+      }
+      while (queue[head] < k - radius) head++;
+      data[l * step + k * stride] = line[queue[head]];
+    }
+  }
+};
+
+/**
+ * Box blur of `radius` along one axis, in place; edges are clamped.
+ */
+const blur = (data: Float32Array, count: number, length: number, step: number, stride: number, radius: number) => {
+  const line = new Float32Array(length);
+  const size = 2 * radius + 1;
+  for (let l = 0; l < count; l++) {
+    for (let k = 0; k < length; k++) line[k] = data[l * step + k * stride];
+    const at = (k: number) => line[Math.max(0, Math.min(length - 1, k))];
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) sum += at(k);
+    for (let k = 0; k < length; k++) {
+      data[l * step + k * stride] = sum / size;
+      sum += at(k + radius + 1) - at(k - radius);
+    }
+  }
+};
+
+/**
+ * Per-pixel amount (0–255 units) by which the surface floor goes up and the
+ * hidden ceiling comes down, or null when adaptive mapping is off. Inputs are
+ * the framed, same-size layers that composeMirage receives.
+ */
+export const getAdaptiveShift = (surface: RgbaImage, hidden: RgbaImage, config: ProcessingConfig): Float32Array | null => {
+  if (config.adaptiveMapping <= 0) return null;
+
+  const { width, height } = surface;
+  const { scaleA, offsetA, scaleB } = getTargetMapping(config);
+  const shift = new Float32Array(width * height);
+  const limit = Math.min(255 - config.surfaceMin, config.hiddenMax);
+  if (limit <= 0) return null;
+
+  // 1. Conflict map: the shift that resolves each pixel exactly. Raising the
+  // floor by s lifts A by s·(1 − a/255), lowering the ceiling drops B by s·b/255.
+  let any = false;
+  for (let p = 0; p < shift.length; p++) {
+    const i = p * 4;
+    let needed = 0;
+    for (let c = 0; c < (config.grayscale ? 1 : 3); c++) {
+      const a = config.grayscale ? luma(surface.data, i) : surface.data[i + c];
+      const b = config.grayscale ? luma(hidden.data, i) : hidden.data[i + c];
+      const over = b * scaleB - (a * scaleA + offsetA);
+      if (over > 0) needed = Math.max(needed, over / (1 + (b - a) / 255));
+    }
+    shift[p] = Math.min(limit, needed);
+    if (needed > 0) any = true;
+  }
+  if (!any) return null;
+
+  // 2. Spread: dilating by the blur's full reach keeps each conflict's peak
+  // intact under the blur, so the smoothing never undershoots it
+  const radius = Math.max(1, Math.round(config.adaptiveRadius));
+  dilate(shift, height, width, width, 1, radius * BLUR_PASSES);
+  dilate(shift, width, height, 1, width, radius * BLUR_PASSES);
+  for (let pass = 0; pass < BLUR_PASSES; pass++) {
+    blur(shift, height, width, width, 1, radius);
+    blur(shift, width, height, 1, width, radius);
+  }
+
+  for (let p = 0; p < shift.length; p++) shift[p] *= config.adaptiveMapping;
+  return shift;
+};
@@ -0,0 +1,94 @@
+import { MirageAnalysis, RgbaImage } from '../types';
+
+/**
+ * Splits an existing mirage back into its two layers. Over white a pixel
+ * shows the mapped surface value, over black the mapped hidden value; the
+ * ranges they were mapped into are read off their distributions, and undoing
+ * that mapping gives full-range images to regenerate from.
+ *
+ * Color mirages are usually exact over black only: one alpha serves three
+ * channels, so all but the brightest show darker over white than intended.
+ * The surface floor is therefore read from each pixel's brightest channel.
+ */
+
+/**
+ * Share of samples ignored at the far end of each distribution when
+ * inferring the ranges, so dithering and stray pixels don't set them.
+ */
+const OUTLIER_SHARE = 0.005;
+
+/** Channels further apart than this make a pixel colored. */
+const GRAY_TOLERANCE = 2;
+
+/** Share of colored pixels from which the mirage counts as a color one. */
+const COLOR_SHARE = 0.01;
+
+/**
+ * Value at `share` of the way up a 256-bin histogram holding `total` samples.
+ */
+const percentile = (histogram: Uint32Array, total: number, share: number) => {
+  const target = share * total;
+  let seen = 0;
+  for (let v = 0; v < 256; v++) {
+    seen += histogram[v];
+    if (seen > target) return v;
+  }
+  return 255;
+};
+
+/**
+ * Recovers approximate surface and hidden images from `image`, assuming it
+ * was made for a white light and a black dark background.
+ */
+export const analyzeMirage = (image: RgbaImage): MirageAnalysis => {
+  const { width, height, data } = image;
+  const pixels = width * height;
+  const overWhite = new Uint8ClampedArray(pixels * 4);
+  const overBlack = new Uint8ClampedArray(pixels * 4);
+  const whiteHistogram = new Uint32Array(256);
+  const blackHistogram = new Uint32Array(256);
+  let translucent = 0;
+  let colored = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    if (a < 255) translucent++;
+    let min = 255, max = 0, brightest = 0;
+    for (let c = 0; c < 3; c++) {
+      const shown = (data[i + c] * a) / 255;
+      overBlack[i + c] = shown;
+      overWhite[i + c] = shown + 255 - a;
+      blackHistogram[overBlack[i + c]]++;
+      brightest = Math.max(brightest, overWhite[i + c]);
+      min = Math.min(min, data[i + c]);
+      max = Math.max(max, data[i + c]);
+    }
+    whiteHistogram[brightest]++;
+    // Transparent pixels have no color to speak of
+    if (a > 0 && max - min > GRAY_TOLERANCE) colored++;
+    overWhite[i + 3] = 255;
+    overBlack[i + 3] = 255;
+  }
+
+  const surfaceMin = Math.min(254, percentile(whiteHistogram, pixels, OUTLIER_SHARE));
+  const hiddenMax = Math.max(1, percentile(blackHistogram, pixels * 3, 1 - OUTLIER_SHARE));
+
+  // Stretch both back to the full range
+  const surfaceScale = 255 / (255 - surfaceMin);
+  const hiddenScale = 255 / hiddenMax;
+  for (let i = 0; i < overWhite.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      overWhite[i + c] = (overWhite[i + c] - surfaceMin) * surfaceScale;
+      overBlack[i + c] = overBlack[i + c] * hiddenScale;
+    }
+  }
+
+  return {
+    surface: { width, height, data: overWhite },
+    hidden: { width, height, data: overBlack },
+    surfaceMin,
+    hiddenMax,
+    grayscale: colored <= pixels * COLOR_SHARE,
+    translucentShare: pixels > 0 ? translucent / pixels : 0,
+  };
+};
@@ -0,0 +1,179 @@
+import { AnimatedImage, AnimationFrame, FidelityMetrics, ProcessingConfig, RgbaImage } from '../types';
+import { generateMirage, MirageOutput, SecretSource } from './mirageCore';
+import { resizeCover } from './framing';
+
+/**
+ * Animated mirages: pairs up the frames of two (possibly animated) inputs on
+ * a shared timeline and runs every pair through generateMirage.
+ */
+
+/** Most frames an output may have. */
+export const MAX_FRAMES = 300;
+
+/**
+ * How much longer than the longer input the output may get so both loops
+ * line up (their least common multiple); past that it just runs as long as
+ * the longer input and the shorter one restarts early.
+ */
+const MAX_CYCLE_FACTOR = 4;
+
+/** Delays are matched on this grid, in ms. */
+const TIME_STEP = 10;
+
+/** Zero delays would make a timeline without progress. */
+const MIN_DELAY = TIME_STEP;
+
+/** Stands in for an exact (infinite PSNR) frame when averaging. */
+const EXACT_PSNR = 100;
+
+export interface FramePair {
+  surface: number;
+  hidden: number;
+  delay: number;
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+const frameDelays = (animation: AnimatedImage) =>
+  animation.frames.map(f => Math.max(MIN_DELAY, Math.round(f.delay / TIME_STEP) * TIME_STEP));
+
+/**
+ * A still image in the shape of an animation.
+ */
+export const stillImage = (image: RgbaImage): AnimatedImage => ({
+  width: image.width,
+  height: image.height,
+  frames: [{ image, delay: 0 }],
+  loops: 0,
+});
+
+/**
+ * Builds an animation from separate images, `delay` ms apart. Images that
+ * differ in size from the first are scaled to cover it.
+ */
+export const frameSequence = (images: RgbaImage[], delay: number): AnimatedImage => {
+  const { width, height } = images[0];
+  return {
+    width,
+    height,
+    frames: images.map(image => ({
+      image: image.width === width && image.height === height ? image : resizeCover(image, width, height),
+      delay: images.length > 1 ? delay : 0,
+    })),
+    loops: 0,
+  };
+};
+
+/**
+ * Pairs the frames of both inputs in time. Each output frame lasts until
+ * either input moves on, so both keep their own timing. A still input pairs
+ * with every frame of the other. Throws if the result would exceed MAX_FRAMES.
+ */
+export const syncFrames = (surface: AnimatedImage, hidden: AnimatedImage): FramePair[] => {
+  const delaysA = frameDelays(surface);
+  const delaysB = frameDelays(hidden);
+  const still = (delays: number[]) => delays.length === 1;
+  if (still(delaysA) && still(delaysB)) return [{ surface: 0, hidden: 0, delay: 0 }];
+
+  const durationA = still(delaysA) ? 0 : delaysA.reduce((a, b) => a + b, 0);
+  const durationB = still(delaysB) ? 0 : delaysB.reduce((a, b) => a + b, 0);
+  const longest = Math.max(durationA, durationB);
+  let total = longest;
+  if (durationA > 0 && durationB > 0) {
+    const cycle = (durationA / gcd(durationA, durationB)) * durationB;
+    if (cycle <= longest * MAX_CYCLE_FACTOR) total = cycle;
+  }
+
+  // Frame index at every change of either input, over `total` ms
+  const changes = (delays: number[], duration: number) => {
+    const times = new Map<number, number>();
+    if (duration === 0) return times;
+    for (let start = 0; start < total; start += duration) {
+      let t = start;
+      delays.forEach((delay, index) => {
+        if (t < total) times.set(t, index);
+        t += delay;
+      });
+    }
+    return times;
+  };
+  const changesA = changes(delaysA, durationA);
+  const changesB = changes(delaysB, durationB);
+  const times = [...new Set([0, ...changesA.keys(), ...changesB.keys()])].sort((a, b) => a - b);
+
+  const pairs: FramePair[] = [];
+  let a = 0, b = 0;
+  times.forEach((t, i) => {
+    a = changesA.get(t) ?? a;
+    b = changesB.get(t) ?? b;
+    pairs.push({ surface: a, hidden: b, delay: (times[i + 1] ?? total) - t });
+  });
+
+  if (pairs.length > MAX_FRAMES) {
+    throw new Error(`The animation would need ${pairs.length} frames; the limit is ${MAX_FRAMES}. Use shorter or slower inputs.`);
+  }
+  return pairs;
+};
+
+export interface AnimatedMirageOutput extends Omit<MirageOutput, 'image'> {
+  frames: AnimationFrame[];
+  /** Length of one cycle in ms, 0 for a still. */
+  duration: number;
+}
+
+/**
+ * Runs every frame pair through generateMirage. The message and secret go
+ * into the first frame only: it doubles as the APNG's default image, which
+ * is what still-image decoders (and Decode) read. Fidelity is averaged over
+ * frames, weighted by how long each is shown; the heatmap and layers are the
+ * first frame's.
+ */
+export const generateAnimatedMirage = async (
+  surface: AnimatedImage,
+  hidden: AnimatedImage,
+  config: ProcessingConfig,
+  secret: SecretSource | null = null,
+  onProgress?: (progress: number) => void
+): Promise<AnimatedMirageOutput> => {
+  const pairs = syncFrames(surface, hidden);
+  const duration = pairs.length > 1 ? pairs.reduce((sum, p) => sum + p.delay, 0) : 0;
+  const quiet = { ...config, steganography: '', steganographyPassphrase: '' };
+
+  const frames: AnimationFrame[] = [];
+  let first: MirageOutput | null = null;
+  const fidelity: FidelityMetrics = {
+    surfacePsnr: 0, surfaceSsim: 0, hiddenPsnr: 0, hiddenSsim: 0, clampedPixels: 0, totalPixels: 0,
+  };
+  for (let i = 0; i < pairs.length; i++) {
+    const { surface: a, hidden: b, delay } = pairs[i];
+    const output = await generateMirage(
+      surface.frames[a].image,
+      hidden.frames[b].image,
+      i === 0 ? config : quiet,
+      i === 0 ? secret : null,
+      onProgress && (p => onProgress((i + p) / pairs.length))
+    );
+    first ??= output;
+    frames.push({ image: output.image, delay });
+
+    // PSNR is averaged in dB
+    const weight = pairs.length > 1 ? delay / duration : 1;
+    const db = (v: number) => (Number.isFinite(v) ? v : EXACT_PSNR);
+    fidelity.surfacePsnr += db(output.fidelity.surfacePsnr) * weight;
+    fidelity.hiddenPsnr += db(output.fidelity.hiddenPsnr) * weight;
+    fidelity.surfaceSsim += output.fidelity.surfaceSsim * weight;
+    fidelity.hiddenSsim += output.fidelity.hiddenSsim * weight;
+    fidelity.clampedPixels += output.fidelity.clampedPixels;
+    fidelity.totalPixels += output.fidelity.totalPixels;
+  }
+
+  return {
+    frames,
+    duration,
+    stegoCapacity: first!.stegoCapacity,
+    secretBytes: first!.secretBytes,
+    fidelity: pairs.length === 1 ? first!.fidelity : fidelity,
+    heatmap: first!.heatmap,
+    layers: first!.layers,
+  };
+};
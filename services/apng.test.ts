@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { inflateSync } from 'node:zlib';
+import { AnimatedImage, RgbaImage } from '../types';
+import { decodeApng, encodeApng } from './apng';
+import { decodePng, encodePng, readPngChunks } from './png';
+
+const inflate = async (data: Uint8Array) => new Uint8Array(inflateSync(data));
+
+const frame = (width: number, height: number, seed: number): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i++) data[i] = (i * 131 + seed * 97) % 256;
+  return { width, height, data };
+};
+
+/** `image` with one pixel changed, so only a small rectangle differs. */
+const touch = (image: RgbaImage, x: number, y: number): RgbaImage => {
+  const data = image.data.slice();
+  data.set([1, 2, 3, 255], (y * image.width + x) * 4);
+  return { ...image, data };
+};
+
+describe('APNG', () => {
+  it('round-trips frames and delays', async () => {
+    const first = frame(13, 9, 1);
+    const animation: AnimatedImage = {
+      width: 13,
+      height: 9,
+      loops: 3,
+      frames: [
+        { image: first, delay: 40 },
+        { image: touch(first, 5, 4), delay: 120 },
+        { image: frame(13, 9, 2), delay: 70_000 },
+      ],
+    };
+    const decoded = await decodeApng(encodeApng(animation), inflate);
+    assert.equal(decoded.loops, 3);
+    assert.deepEqual(decoded.frames.map(f => f.image), animation.frames.map(f => f.image));
+    assert.deepEqual(decoded.frames.map(f => f.delay), [40, 120, 70_000]);
+  });
+
+  it('merges unchanged frames into the one before', async () => {
+    const image = frame(4, 4, 5);
+    const animation: AnimatedImage = {
+      width: 4,
+      height: 4,
+      loops: 0,
+      frames: [{ image, delay: 100 }, { image, delay: 50 }],
+    };
+    const decoded = await decodeApng(encodeApng(animation), inflate);
+    assert.deepEqual(decoded.frames.map(f => f.delay), [150]);
+  });
+
+  it('shows the first frame to plain PNG decoders', async () => {
+    const first = frame(6, 5, 3);
+    const bytes = encodeApng({
+      width: 6,
+      height: 5,
+      loops: 0,
+      frames: [{ image: first, delay: 100 }, { image: frame(6, 5, 4), delay: 100 }],
+    });
+    assert.ok(readPngChunks(bytes).some(c => c.type === 'acTL'));
+    assert.deepEqual(await decodePng(bytes, inflate), first);
+  });
+
+  it('reads a plain PNG as a single frame', async () => {
+    const image = frame(3, 3, 7);
+    const decoded = await decodeApng(encodePng(image), inflate);
+    assert.equal(decoded.frames.length, 1);
+    assert.deepEqual(decoded.frames[0].image, image);
+  });
+});
@@ -0,0 +1,196 @@
+import { AnimatedImage, AnimationFrame, RgbaImage } from '../types';
+import {
+  concatChunkData, createIhdr, decodeImageData, decodePng, encodeImageData, Inflate,
+  PngChunk, readPngChunks, readPngFormat, writePngChunks,
+} from './png';
+
+/**
+ * Animated PNG on top of our PNG codec. APNG keeps full 8-bit alpha per
+ * frame, which the mirage effect can't do without (GIF has 1-bit alpha).
+ *
+ * Frames are written as the rectangle that changed since the previous frame,
+ * replacing what was there (blend op SOURCE, dispose op NONE), so every frame
+ * can carry arbitrary alpha without being composited over the last one.
+ */
+
+const DISPOSE_NONE = 0;
+const DISPOSE_BACKGROUND = 1;
+const DISPOSE_PREVIOUS = 2;
+const BLEND_SOURCE = 0;
+const BLEND_OVER = 1;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Bounding box of the pixels that differ between two frames, or null. */
+const changedRect = (prev: RgbaImage, next: RgbaImage): Rect | null => {
+  const { width, height } = next;
+  const a = prev.data, b = next.data;
+  let x0 = width, y0 = height, x1 = -1, y1 = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (a[i] !== b[i] || a[i + 1] !== b[i + 1] || a[i + 2] !== b[i + 2] || a[i + 3] !== b[i + 3]) {
+        if (x < x0) x0 = x;
+        if (x > x1) x1 = x;
+        if (y < y0) y0 = y;
+        y1 = y;
+      }
+    }
+  }
+  return x1 < 0 ? null : { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+};
+
+const crop = (image: RgbaImage, rect: Rect): RgbaImage => {
+  const data = new Uint8ClampedArray(rect.width * rect.height * 4);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * image.width + rect.x) * 4;
+    data.set(image.data.subarray(start, start + rect.width * 4), y * rect.width * 4);
+  }
+  return { width: rect.width, height: rect.height, data };
+};
+
+const createFctl = (sequence: number, rect: Rect, delay: number): Uint8Array => {
+  const data = new Uint8Array(26);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, sequence);
+  view.setUint32(4, rect.width);
+  view.setUint32(8, rect.height);
+  view.setUint32(12, rect.x);
+  view.setUint32(16, rect.y);
+  // Milliseconds when they fit in 16 bits, centiseconds beyond that
+  const ms = Math.max(0, Math.round(delay));
+  const [num, den] = ms <= 0xFFFF ? [ms, 1000] : [Math.min(0xFFFF, Math.round(ms / 10)), 100];
+  view.setUint16(20, num);
+  view.setUint16(22, den);
+  data[24] = DISPOSE_NONE;
+  data[25] = BLEND_SOURCE;
+  return data;
+};
+
+/**
+ * Encodes frames of the same size as an APNG. The first frame is also the
+ * default image, so viewers without APNG support (and our own decodePng)
+ * see it as a still. `extraChunks` go between IHDR and the animation.
+ */
+export const encodeApng = (animation: AnimatedImage, extraChunks: PngChunk[] = []): Uint8Array => {
+  const { width, height, frames, loops } = animation;
+  if (frames.length === 0) throw new Error('An animation needs at least one frame');
+
+  // Unchanged frames just extend the one before
+  const parts: { rect: Rect; image: RgbaImage; delay: number }[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    const rect = i === 0 ? { x: 0, y: 0, width, height } : changedRect(frames[i - 1].image, frames[i].image);
+    if (rect) parts.push({ rect, image: frames[i].image, delay: frames[i].delay });
+    else parts[parts.length - 1].delay += frames[i].delay;
+  }
+
+  const actl = new Uint8Array(8);
+  new DataView(actl.buffer).setUint32(0, parts.length);
+  new DataView(actl.buffer).setUint32(4, loops);
+
+  const chunks: PngChunk[] = [createIhdr(width, height), ...extraChunks, { type: 'acTL', data: actl }];
+  let sequence = 0;
+  parts.forEach(({ rect, image, delay }, i) => {
+    chunks.push({ type: 'fcTL', data: createFctl(sequence++, rect, delay) });
+    const compressed = encodeImageData(i === 0 ? image : crop(image, rect));
+    if (i === 0) {
+      chunks.push({ type: 'IDAT', data: compressed });
+    } else {
+      const fdat = new Uint8Array(4 + compressed.length);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(compressed, 4);
+      chunks.push({ type: 'fdAT', data: fdat });
+    }
+  });
+  chunks.push({ type: 'IEND', data: new Uint8Array(0) });
+
+  return writePngChunks(chunks);
+};
+
+/**
+ * Draws `src` onto `canvas` at (x, y), replacing or alpha-compositing.
+ */
+const drawFrame = (canvas: RgbaImage, src: RgbaImage, x: number, y: number, over: boolean) => {
+  for (let row = 0; row < src.height; row++) {
+    for (let col = 0; col < src.width; col++) {
+      const s = (row * src.width + col) * 4;
+      const d = ((y + row) * canvas.width + x + col) * 4;
+      const sa = src.data[s + 3] / 255;
+      if (!over || sa === 1) {
+        canvas.data.set(src.data.subarray(s, s + 4), d);
+        continue;
+      }
+      if (sa === 0) continue;
+      const da = canvas.data[d + 3] / 255;
+      const outA = sa + da * (1 - sa);
+      for (let c = 0; c < 3; c++) {
+        canvas.data[d + c] = (src.data[s + c] * sa + canvas.data[d + c] * da * (1 - sa)) / outA;
+      }
+      canvas.data[d + 3] = outA * 255;
+    }
+  }
+};
+
+/**
+ * Decodes a PNG into composited frames. A plain PNG comes back as a single
+ * frame; an APNG's hidden default image (one without an fcTL) is skipped.
+ */
+export const decodeApng = async (bytes: Uint8Array, inflate: Inflate): Promise<AnimatedImage> => {
+  const chunks = readPngChunks(bytes);
+  const format = readPngFormat(chunks);
+  const { width, height } = format;
+  const actl = chunks.find(c => c.type === 'acTL');
+  if (!actl) {
+    return { width, height, frames: [{ image: await decodePng(bytes, inflate), delay: 0 }], loops: 0 };
+  }
+
+  // Group image data by the fcTL in front of it
+  const controls: { fctl: DataView; data: Uint8Array[] }[] = [];
+  for (const chunk of chunks) {
+    if (chunk.type === 'fcTL') {
+      controls.push({ fctl: new DataView(chunk.data.buffer, chunk.data.byteOffset, chunk.data.length), data: [] });
+    } else if (chunk.type === 'IDAT' && controls.length > 0) {
+      controls[controls.length - 1].data.push(chunk.data);
+    } else if (chunk.type === 'fdAT' && controls.length > 0) {
+      controls[controls.length - 1].data.push(chunk.data.subarray(4));
+    }
+  }
+  if (controls.length === 0) throw new Error('APNG has no frames');
+
+  const canvas: RgbaImage = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  const frames: AnimationFrame[] = [];
+  for (let i = 0; i < controls.length; i++) {
+    const { fctl, data } = controls[i];
+    const rect = {
+      width: fctl.getUint32(4),
+      height: fctl.getUint32(8),
+      x: fctl.getUint32(12),
+      y: fctl.getUint32(16),
+    };
+    if (rect.x + rect.width > width || rect.y + rect.height > height) throw new Error('APNG frame is outside the image');
+    const den = fctl.getUint16(22) || 100;
+    const delay = (fctl.getUint16(20) / den) * 1000;
+    // DISPOSE_PREVIOUS on the first frame means clearing it (spec)
+    const dispose = i === 0 && fctl.getUint8(24) === DISPOSE_PREVIOUS ? DISPOSE_BACKGROUND : fctl.getUint8(24);
+
+    const saved = dispose === DISPOSE_PREVIOUS ? new Uint8ClampedArray(canvas.data) : null;
+    const image = await decodeImageData(concatChunkData(data), rect.width, rect.height, format, inflate);
+    drawFrame(canvas, image, rect.x, rect.y, fctl.getUint8(25) === BLEND_OVER);
+    frames.push({ image: { width, height, data: new Uint8ClampedArray(canvas.data) }, delay });
+
+    if (dispose === DISPOSE_BACKGROUND) {
+      for (let y = rect.y; y < rect.y + rect.height; y++) {
+        canvas.data.fill(0, (y * width + rect.x) * 4, (y * width + rect.x + rect.width) * 4);
+      }
+    } else if (saved) {
+      canvas.data.set(saved);
+    }
+  }
+
+  return { width, height, frames, loops: new DataView(actl.data.buffer, actl.data.byteOffset, 8).getUint32(4) };
+};
@@ -0,0 +1,145 @@
+import { ProcessingConfig, RgbaImage } from '../types';
+import { getOutputSize, prepareLayers } from './mirageCore';
+
+/**
+ * Picks surfaceMin and hiddenMax from the inputs' histograms.
+ *
+ * Both inputs are reduced to a small aligned sample, then summarized as a
+ * joint histogram of (surface, hidden) values per channel. Every slider
+ * combination is scored on how much contrast each image keeps and how much
+ * of the hidden image has to be clamped under the surface (B > A).
+ */
+
+export type AutoTuneBias = 'balanced' | 'surface' | 'hidden';
+
+export interface AutoTuneResult {
+  surfaceMin: number;
+  hiddenMax: number;
+  /** Share of each image's own contrast that survives the mapping, 0–1. */
+  surfaceContrast: number;
+  hiddenContrast: number;
+  /** Share of sampled pixels (per channel) that would be clamped. */
+  clampedFraction: number;
+  /** Plain-language summary of the trade-off. */
+  explanation: string[];
+}
+
+/** Same ranges as the sliders in Controls. */
+const SURFACE_RANGE = [100, 250] as const;
+const HIDDEN_RANGE = [50, 200] as const;
+const SEARCH_STEP = 2;
+
+/** Longest edge of the analysis sample. */
+const SAMPLE_EDGE = 160;
+/** Joint histogram resolution per axis. */
+const BINS = 64;
+
+/**
+ * Weight on surface visibility; hidden gets the rest. Clamping only ever costs
+ * hidden detail, so its penalty scales with the hidden weight too.
+ */
+const BIAS_WEIGHT: Record<AutoTuneBias, number> = { balanced: 0.5, surface: 0.7, hidden: 0.3 };
+/** How hard clamping is punished relative to visibility. */
+const CLAMP_PENALTY = 6;
+
+const luma = (d: Uint8ClampedArray, i: number) => 0.2126 * d[i] + 0.7152 * d[i + 1] + 0.0722 * d[i + 2];
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+/**
+ * Searches the slider ranges for the best surfaceMin/hiddenMax pair.
+ * Only the luma (grayscale) or the three channels (color) are analyzed,
+ * matching how composeMirage will map them.
+ */
+export const autoTune = (
+  surface: RgbaImage,
+  hidden: RgbaImage,
+  config: ProcessingConfig,
+  bias: AutoTuneBias = 'balanced'
+): AutoTuneResult => {
+  // 1. Aligned sample at the output's aspect ratio
+  const size = getOutputSize(surface, hidden, config);
+  const scale = Math.min(1, SAMPLE_EDGE / Math.max(size.width, size.height));
+  const width = Math.max(1, Math.round(size.width * scale));
+  const height = Math.max(1, Math.round(size.height * scale));
+  const layers = prepareLayers(surface, hidden, width, height, config);
+  const a = layers.surface.data;
+  const b = layers.hidden.data;
+
+  // 2. Joint histogram of (surface, hidden) values
+  const channels = config.grayscale ? 1 : 3;
+  const joint = new Float64Array(BINS * BINS);
+  const toBin = (v: number) => Math.min(BINS - 1, Math.floor((v / 256) * BINS));
+  for (let i = 0; i < a.length; i += 4) {
+    for (let c = 0; c < channels; c++) {
+      const binA = toBin(config.grayscale ? luma(a, i) : a[i + c]);
+      const binB = toBin(config.grayscale ? luma(b, i) : b[i + c]);
+      joint[binA * BINS + binB]++;
+    }
+  }
+  const samples = (a.length / 4) * channels;
+
+  // 3. Score every slider combination
+  const weight = BIAS_WEIGHT[bias];
+  const binValue = (bin: number) => ((bin + 0.5) * 256) / BINS;
+  const evaluate = (surfaceMin: number, hiddenMax: number) => {
+    let clamped = 0;
+    let excess = 0;
+    for (let binA = 0; binA < BINS; binA++) {
+      const mappedA = binValue(binA) * (255 - surfaceMin) / 255 + surfaceMin;
+      for (let binB = 0; binB < BINS; binB++) {
+        const count = joint[binA * BINS + binB];
+        if (!count) continue;
+        const over = binValue(binB) * hiddenMax / 255 - mappedA;
+        if (over > 0) {
+          clamped += count;
+          excess += count * over;
+        }
+      }
+    }
+    const surfaceContrast = (255 - surfaceMin) / 255;
+    const hiddenContrast = hiddenMax / 255;
+    const score = weight * Math.log(surfaceContrast)
+      + (1 - weight) * Math.log(hiddenContrast)
+      - 2 * (1 - weight) * CLAMP_PENALTY * (excess / samples / 255 + clamped / samples / 10);
+    return { surfaceMin, hiddenMax, surfaceContrast, hiddenContrast, clampedFraction: clamped / samples, score };
+  };
+
+  let best = evaluate(config.surfaceMin, config.hiddenMax);
+  for (let s = SURFACE_RANGE[0]; s <= SURFACE_RANGE[1]; s += SEARCH_STEP) {
+    for (let h = HIDDEN_RANGE[0]; h <= HIDDEN_RANGE[1]; h += SEARCH_STEP) {
+      const candidate = evaluate(s, h);
+      if (candidate.score > best.score) best = candidate;
+    }
+  }
+
+  // 4. Explain the outcome
+  const explanation = [
+    `Surface mapped to [${best.surfaceMin}, 255] keeps ${percent(best.surfaceContrast)} of its contrast on the light background; ` +
+    `hidden mapped to [0, ${best.hiddenMax}] keeps ${percent(best.hiddenContrast)} on the dark one.`,
+  ];
+  if (best.clampedFraction === 0) {
+    explanation.push('No pixel needs clamping, so the hidden image comes through in full.');
+  } else {
+    explanation.push(
+      `${percent(best.clampedFraction)} of the pixels are brighter in the hidden image than in the surface and get clamped there; ` +
+      'those areas lose hidden detail.'
+    );
+  }
+  if (bias === 'surface') {
+    explanation.push('Favoring the surface: more clamping is tolerated to keep its range wide, at the cost of hidden detail.');
+  } else if (bias === 'hidden') {
+    explanation.push('Favoring the hidden image: clamping is avoided harder, even if the surface ends up lighter and flatter.');
+  } else {
+    explanation.push('Balanced: both images get a similar share of the available range.');
+  }
+
+  return {
+    surfaceMin: best.surfaceMin,
+    hiddenMax: best.hiddenMax,
+    surfaceContrast: best.surfaceContrast,
+    hiddenContrast: best.hiddenContrast,
+    clampedFraction: best.clampedFraction,
+    explanation,
+  };
+};
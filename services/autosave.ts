@@ -0,0 +1,65 @@
+import { MirageProject } from '../types';
+import { validateConfig } from './metadata';
+import { createProjectFile, readProjectFile } from './project';
+
+/**
+ * The current session, kept in IndexedDB as a project file so a reload or a
+ * closed tab picks up where it left off.
+ */
+
+const DB_NAME = 'mirage-tank';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+const SESSION_KEY = 'current';
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Runs one request against the store and resolves with its result.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Stores `project` as the session. Throws, keeping the last good session, if
+ * its config is invalid: saved, it would break every later start.
+ */
+export const saveSession = async (project: MirageProject): Promise<void> => {
+  const { rejected } = validateConfig(project.config);
+  if (rejected.length > 0) throw new Error(`Not saving invalid settings: ${rejected.join(', ')}`);
+  await withStore('readwrite', store => store.put(createProjectFile(project), SESSION_KEY));
+};
+
+export const clearSession = async (): Promise<void> => {
+  await withStore('readwrite', store => store.delete(SESSION_KEY));
+};
+
+/**
+ * The last saved session, or null if there is none. A session that can't be
+ * read is deleted before the error is passed on, so it is only hit once.
+ */
+export const loadSession = async (): Promise<MirageProject | null> => {
+  const stored = await withStore<unknown>('readonly', store => store.get(SESSION_KEY));
+  if (!(stored instanceof Blob)) return null;
+  try {
+    return await readProjectFile(stored);
+  } catch (err) {
+    await clearSession();
+    throw err;
+  }
+};
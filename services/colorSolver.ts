@@ -0,0 +1,135 @@
+/**
+ * Error-minimizing color solver, the alternative to max-alpha in color mode.
+ *
+ * An output pixel with alpha `a` and premultiplied color `p` (per channel,
+ * 0 ≤ p ≤ a) shows `p + (1 - a)·L` over the light background L and
+ * `p + (1 - a)·D` over the dark one D. For a given alpha the best `p` per
+ * channel has a closed form (weighted least squares); the alpha itself is
+ * searched to minimize the weighted CIELAB ΔE² against the surface target
+ * (over L) and the hidden target (over D).
+ */
+
+type Lab = [number, number, number];
+
+/** Entries in the sRGB → linear table; values in between are interpolated. */
+const LINEAR_STEPS = 1024;
+
+const SRGB_TO_LINEAR = Float64Array.from({ length: LINEAR_STEPS + 1 }, (_, i) => {
+  const v = i / LINEAR_STEPS;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+});
+
+const toLinear = (v: number) => {
+  const f = Math.max(0, Math.min(1, v)) * LINEAR_STEPS;
+  const i = Math.min(LINEAR_STEPS - 1, Math.floor(f));
+  return SRGB_TO_LINEAR[i] + (SRGB_TO_LINEAR[i + 1] - SRGB_TO_LINEAR[i]) * (f - i);
+};
+
+// D65 reference white
+const XN = 0.95047, YN = 1, ZN = 1.08883;
+
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+
+/**
+ * sRGB components in [0, 1] to CIELAB (D65).
+ */
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / XN);
+  const fy = labF((0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb) / YN);
+  const fz = labF((0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / ZN);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const distanceSq = (lab: Lab, r: number, g: number, b: number) => {
+  const [l2, a2, b2] = rgbToLab(r, g, b);
+  return (lab[0] - l2) ** 2 + (lab[1] - a2) ** 2 + (lab[2] - b2) ** 2;
+};
+
+/** Coarse alpha grid, then golden-section refinement around the best cell. */
+const COARSE_STEPS = 8;
+const REFINE_STEPS = 8;
+const GOLDEN = (Math.sqrt(5) - 1) / 2;
+
+export interface SolvedPixel {
+  /** Alpha, 0–255. */
+  alpha: number;
+  /** What the pixel shows over the dark background, 0–255. */
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Finds the alpha and color for one pixel. Targets are what the surface
+ * (`rA`…) should look like over `light` and the hidden image (`rB`…) over
+ * `dark`, all 0–255; unlike max-alpha they don't need B ≤ A. `weight` [0, 1]
+ * is the share of the error budget given to the surface: 1 matches it
+ * exactly, 0 matches the hidden image exactly.
+ */
+export const solvePixelLab = (
+  rA: number, gA: number, bA: number,
+  rB: number, gB: number, bB: number,
+  light: number[], dark: number[],
+  weight: number
+): SolvedPixel => {
+  const A = [rA / 255, gA / 255, bA / 255];
+  const B = [rB / 255, gB / 255, bB / 255];
+  const L = light.map(v => v / 255);
+  const D = dark.map(v => v / 255);
+  const labA = rgbToLab(A[0], A[1], A[2]);
+  const labB = rgbToLab(B[0], B[1], B[2]);
+  const p = [0, 0, 0];
+
+  // Best premultiplied color for alpha `a`, written into `p`
+  const colorFor = (a: number) => {
+    for (let c = 0; c < 3; c++) {
+      const ideal = weight * (A[c] - (1 - a) * L[c]) + (1 - weight) * (B[c] - (1 - a) * D[c]);
+      p[c] = Math.max(0, Math.min(a, ideal));
+    }
+  };
+  const errorAt = (a: number) => {
+    colorFor(a);
+    const t = 1 - a;
+    return weight * distanceSq(labA, p[0] + t * L[0], p[1] + t * L[1], p[2] + t * L[2])
+      + (1 - weight) * distanceSq(labB, p[0] + t * D[0], p[1] + t * D[1], p[2] + t * D[2]);
+  };
+
+  let best = 0;
+  let bestError = Infinity;
+  for (let k = 0; k <= COARSE_STEPS; k++) {
+    const error = errorAt(k / COARSE_STEPS);
+    if (error < bestError) {
+      bestError = error;
+      best = k;
+    }
+  }
+
+  let lo = Math.max(0, best - 1) / COARSE_STEPS;
+  let hi = Math.min(COARSE_STEPS, best + 1) / COARSE_STEPS;
+  let x1 = hi - GOLDEN * (hi - lo), x2 = lo + GOLDEN * (hi - lo);
+  let e1 = errorAt(x1), e2 = errorAt(x2);
+  for (let i = 0; i < REFINE_STEPS; i++) {
+    if (e1 < e2) {
+      hi = x2; x2 = x1; e2 = e1;
+      x1 = hi - GOLDEN * (hi - lo); e1 = errorAt(x1);
+    } else {
+      lo = x1; x1 = x2; e1 = e2;
+      x2 = lo + GOLDEN * (hi - lo); e2 = errorAt(x2);
+    }
+  }
+
+  // The grid point may still beat the refined interval (the error isn't
+  // strictly unimodal once channels hit their clamps)
+  let alpha = best / COARSE_STEPS;
+  if (Math.min(e1, e2) < bestError) alpha = e1 < e2 ? x1 : x2;
+
+  colorFor(alpha);
+  const t = 1 - alpha;
+  return {
+    alpha: alpha * 255,
+    r: (p[0] + t * D[0]) * 255,
+    g: (p[1] + t * D[1]) * 255,
+    b: (p[2] + t * D[2]) * 255,
+  };
+};
@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { inflateSync } from 'node:zlib';
+import { zlibDeflate } from './deflate';
+
+const roundTrip = (data: Uint8Array) => new Uint8Array(inflateSync(zlibDeflate(data)));
+
+describe('zlibDeflate', () => {
+  it('round-trips through zlib', () => {
+    const samples = [
+      new Uint8Array(0),
+      new Uint8Array([42]),
+      new TextEncoder().encode('abcabcabcabcabcabc, the quick brown fox, abcabcabc'),
+      Uint8Array.from({ length: 100_000 }, (_, i) => (i * 2654435761) >>> 24),
+      new Uint8Array(200_000).fill(7),
+      Uint8Array.from({ length: 70_000 }, (_, i) => (i % 251) ^ (i >> 10)),
+    ];
+    for (const data of samples) assert.deepEqual(roundTrip(data), data);
+  });
+
+  it('compresses repetitive data', () => {
+    assert.ok(zlibDeflate(new Uint8Array(100_000)).length < 1000);
+  });
+});
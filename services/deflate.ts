@@ -0,0 +1,161 @@
+/**
+ * Minimal zlib (RFC 1950) / deflate (RFC 1951) compressor: greedy LZ77 with
+ * fixed Huffman codes.
+ *
+ * Browsers and Node each ship their own zlib build, and those don't produce
+ * identical bytes. Owning the compressor keeps PNG output byte-for-byte the
+ * same on every platform. Decompression is deterministic by definition, so
+ * that is left to the platform.
+ */
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+const WINDOW_SIZE = 1 << 15;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const HASH_BITS = 15;
+/** Candidates examined per position; higher compresses better, slower. */
+const MAX_CHAIN = 32;
+/** Stop searching once a match this long is found. */
+const NICE_MATCH = 128;
+
+// length (3..258) -> index into LENGTH_BASE
+const LENGTH_CODE = (() => {
+  const table = new Uint8Array(MAX_MATCH + 1);
+  for (let code = 0; code < LENGTH_BASE.length; code++) {
+    const end = code + 1 < LENGTH_BASE.length ? LENGTH_BASE[code + 1] : MAX_MATCH + 1;
+    for (let len = LENGTH_BASE[code]; len < end; len++) table[len] = code;
+  }
+  return table;
+})();
+
+const distanceCode = (dist: number) => {
+  let code = 0;
+  while (code + 1 < DIST_BASE.length && DIST_BASE[code + 1] <= dist) code++;
+  return code;
+};
+
+const reverseBits = (value: number, length: number) => {
+  let out = 0;
+  for (let i = 0; i < length; i++) {
+    out = (out << 1) | (value & 1);
+    value >>= 1;
+  }
+  return out;
+};
+
+const adler32 = (data: Uint8Array) => {
+  let a = 1, b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+/**
+ * Compresses `data` into a zlib stream.
+ */
+export const zlibDeflate = (data: Uint8Array): Uint8Array => {
+  // Fixed codes never exceed 9 bits per literal, plus the fixed overhead
+  const out = new Uint8Array(Math.ceil(data.length * 9 / 8) + 16);
+  let pos = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  // Deflate packs bits least significant first
+  const writeBits = (value: number, length: number) => {
+    bitBuffer |= value << bitCount;
+    bitCount += length;
+    while (bitCount >= 8) {
+      out[pos++] = bitBuffer & 0xFF;
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  // ...except Huffman codes, which are defined most significant first
+  const writeCode = (code: number, length: number) => writeBits(reverseBits(code, length), length);
+
+  const writeLiteral = (symbol: number) => {
+    if (symbol < 144) writeCode(0x30 + symbol, 8);
+    else if (symbol < 256) writeCode(0x190 + symbol - 144, 9);
+    else if (symbol < 280) writeCode(symbol - 256, 7);
+    else writeCode(0xC0 + symbol - 280, 8);
+  };
+
+  const writeMatch = (length: number, dist: number) => {
+    const lc = LENGTH_CODE[length];
+    writeLiteral(257 + lc);
+    if (LENGTH_EXTRA[lc]) writeBits(length - LENGTH_BASE[lc], LENGTH_EXTRA[lc]);
+    const dc = distanceCode(dist);
+    writeCode(dc, 5);
+    if (DIST_EXTRA[dc]) writeBits(dist - DIST_BASE[dc], DIST_EXTRA[dc]);
+  };
+
+  // zlib header: deflate, 32K window, no preset dictionary
+  out[pos++] = 0x78;
+  out[pos++] = 0x01;
+
+  // One final block with fixed Huffman codes
+  writeBits(1, 1);
+  writeBits(1, 2);
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const hashAt = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & ((1 << HASH_BITS) - 1);
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const h = hashAt(i);
+    prev[i & (WINDOW_SIZE - 1)] = head[h];
+    head[h] = i;
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDist = 0;
+
+    if (i + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hashAt(i)];
+      let chain = MAX_CHAIN;
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain-- > 0) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[i + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDist = i - candidate;
+          if (length >= NICE_MATCH) break;
+        }
+        const next = prev[candidate & (WINDOW_SIZE - 1)];
+        if (next >= candidate) break; // slot was overwritten by a newer position
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(bestLength, bestDist);
+      for (let k = 0; k < bestLength; k++) insert(i + k);
+      i += bestLength;
+    } else {
+      writeLiteral(data[i]);
+      insert(i);
+      i++;
+    }
+  }
+
+  writeLiteral(256); // end of block
+  if (bitCount > 0) writeBits(0, 8 - bitCount);
+
+  const checksum = adler32(data);
+  out[pos++] = checksum >>> 24;
+  out[pos++] = (checksum >>> 16) & 0xFF;
+  out[pos++] = (checksum >>> 8) & 0xFF;
+  out[pos++] = checksum & 0xFF;
+
+  return out.slice(0, pos);
+};
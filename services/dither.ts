@@ -0,0 +1,196 @@
+import { DitherAlgorithm } from '../types';
+
+/**
+ * Dithering for the final 8-bit quantization step. Everything is driven by a
+ * seed, so the same config always produces the same pixels.
+ */
+
+/**
+ * Seeded PRNG (mulberry32). Returns uniform floats in [0, 1).
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const BAYER_SIZE = 8;
+
+/** 8×8 Bayer matrix as thresholds in (0, 1). */
+const BAYER = (() => {
+  let matrix = [[0]];
+  while (matrix.length < BAYER_SIZE) {
+    const n = matrix.length;
+    const next: number[][] = Array.from({ length: n * 2 }, () => new Array(n * 2));
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const v = matrix[y][x] * 4;
+        next[y][x] = v;
+        next[y][x + n] = v + 2;
+        next[y + n][x] = v + 3;
+        next[y + n][x + n] = v + 1;
+      }
+    }
+    matrix = next;
+  }
+  const cells = BAYER_SIZE * BAYER_SIZE;
+  return Float32Array.from(matrix.flat(), v => (v + 0.5) / cells);
+})();
+
+const BLUE_NOISE_SIZE = 64;
+const BLUE_NOISE_SIGMA = 1.5;
+/** Fixed, so the texture (and every output using it) never changes. */
+const BLUE_NOISE_TEXTURE_SEED = 0x6D697261;
+
+let blueNoise: Float32Array | null = null;
+
+/**
+ * Tileable blue-noise thresholds in (0, 1), built once with Ulichney's
+ * void-and-cluster method.
+ */
+const getBlueNoise = (): Float32Array => {
+  if (blueNoise) return blueNoise;
+
+  const size = BLUE_NOISE_SIZE;
+  const cells = size * size;
+
+  // Toroidal Gaussian falloff, indexed by wrapped offset
+  const kernel = new Float32Array(cells);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx);
+      const wy = Math.min(dy, size - dy);
+      kernel[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * BLUE_NOISE_SIGMA * BLUE_NOISE_SIGMA));
+    }
+  }
+
+  const pattern = new Uint8Array(cells);
+  const energy = new Float32Array(cells);
+  const toggle = (p: number, on: boolean) => {
+    pattern[p] = on ? 1 : 0;
+    const px = p % size, py = (p / size) | 0;
+    const sign = on ? 1 : -1;
+    for (let y = 0; y < size; y++) {
+      const ky = ((y - py + size) % size) * size;
+      for (let x = 0; x < size; x++) {
+        energy[y * size + x] += sign * kernel[ky + ((x - px + size) % size)];
+      }
+    }
+  };
+  // Densest set pixel (tightest cluster) or emptiest unset pixel (largest void)
+  const extreme = (value: number, densest: boolean) => {
+    let best = -1;
+    for (let p = 0; p < cells; p++) {
+      if (pattern[p] !== value) continue;
+      if (best < 0 || (densest ? energy[p] > energy[best] : energy[p] < energy[best])) best = p;
+    }
+    return best;
+  };
+
+  // 1. Random initial pattern, relaxed until evenly spread
+  const random = createRandom(BLUE_NOISE_TEXTURE_SEED);
+  let ones = 0;
+  while (ones < cells / 10) {
+    const p = Math.floor(random() * cells);
+    if (pattern[p]) continue;
+    toggle(p, true);
+    ones++;
+  }
+  for (;;) {
+    const cluster = extreme(1, true);
+    toggle(cluster, false);
+    const gap = extreme(0, false);
+    toggle(gap, true);
+    if (gap === cluster) break;
+  }
+  const initial = pattern.slice();
+  const initialEnergy = energy.slice();
+
+  // 2. Rank the initial pixels by removing tightest clusters
+  const rank = new Uint16Array(cells);
+  for (let r = ones - 1; r >= 0; r--) {
+    const cluster = extreme(1, true);
+    toggle(cluster, false);
+    rank[cluster] = r;
+  }
+
+  // 3. Rank the rest by filling largest voids
+  pattern.set(initial);
+  energy.set(initialEnergy);
+  for (let r = ones; r < cells; r++) {
+    const gap = extreme(0, false);
+    toggle(gap, true);
+    rank[gap] = r;
+  }
+
+  blueNoise = Float32Array.from(rank, r => (r + 0.5) / cells);
+  return blueNoise;
+};
+
+/**
+ * Creates a quantizer that rounds float channel values to 0–255.
+ * `strength` [0, 1] blends from plain rounding to the full algorithm.
+ * Floyd–Steinberg carries error between calls, so pixels must be visited in
+ * raster order; `channel` (0–3) keeps the error of each channel apart.
+ * 'noise' works on the inputs instead (see composeMirage) and rounds here.
+ */
+export const createQuantizer = (
+  algorithm: DitherAlgorithm,
+  strength: number,
+  seed: number,
+  width: number
+) => {
+  const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+
+  if (strength <= 0 || algorithm === 'noise') {
+    return (value: number, _x: number, _y: number, _channel: number) => clamp(value);
+  }
+
+  if (algorithm === 'bayer') {
+    return (value: number, x: number, y: number, _channel: number) =>
+      clamp(value + (BAYER[(y % BAYER_SIZE) * BAYER_SIZE + (x % BAYER_SIZE)] - 0.5) * strength);
+  }
+
+  if (algorithm === 'blue-noise') {
+    const texture = getBlueNoise();
+    // The seed picks where in the tile to start; each channel gets its own
+    // offset so the alpha and color thresholds are uncorrelated.
+    const random = createRandom(seed);
+    const offsets = Array.from({ length: 4 }, () => ({
+      x: Math.floor(random() * BLUE_NOISE_SIZE),
+      y: Math.floor(random() * BLUE_NOISE_SIZE),
+    }));
+    return (value: number, x: number, y: number, channel: number) => {
+      const o = offsets[channel];
+      const t = texture[((y + o.y) % BLUE_NOISE_SIZE) * BLUE_NOISE_SIZE + ((x + o.x) % BLUE_NOISE_SIZE)];
+      return clamp(value + (t - 0.5) * strength);
+    };
+  }
+
+  // Floyd–Steinberg: one padded error row for the current line, one for the next
+  const rowLength = (width + 2) * 4;
+  let current = new Float32Array(rowLength);
+  let next = new Float32Array(rowLength);
+  let row = 0;
+  return (value: number, x: number, y: number, channel: number) => {
+    if (y !== row) {
+      [current, next] = [next, current];
+      next.fill(0);
+      row = y;
+    }
+    const i = (x + 1) * 4 + channel;
+    const target = value + current[i];
+    const quantized = clamp(target);
+    const error = (target - quantized) * strength;
+    current[i + 4] += error * 7 / 16;
+    next[i - 4] += error * 3 / 16;
+    next[i] += error * 5 / 16;
+    next[i + 4] += error * 1 / 16;
+    return quantized;
+  };
+};
@@ -0,0 +1,125 @@
+import { AnimatedImage, ExportOptions, ExportResult, RgbaImage } from '../types';
+import { encodeIndexedPng, encodePng, PngChunk } from './png';
+import { encodeApng } from './apng';
+import { encodeWebp } from './webp';
+import { dequantize, quantizeImage } from './quantize';
+import { parseHexColor } from './mapping';
+import { downscalePremultiplied } from './framing';
+
+/**
+ * Export in other formats and within a file size budget. Palette size is
+ * given up first (PNG8), resolution last; hidden payloads only survive an
+ * export that keeps every pixel.
+ */
+
+/** Palette sizes tried in turn before downscaling. */
+const PALETTE_SIZES = [256, 128, 64, 32];
+
+/** Exports never shrink below this edge length. */
+const MIN_EDGE = 16;
+
+/** Extra shrink per retry on top of the size ratio, so the search converges quickly. */
+const SHRINK_MARGIN = 0.95;
+
+const MIMES = { png: 'image/png', png8: 'image/png', webp: 'image/webp' } as const;
+const EXTENSIONS = { png: 'png', png8: 'png', webp: 'webp' } as const;
+
+/**
+ * PSNR of `output` against `reference` as seen over each background.
+ */
+const compareShown = (reference: RgbaImage, output: RgbaImage, options: ExportOptions) => {
+  const light = parseHexColor(options.lightBackground);
+  const dark = parseHexColor(options.darkBackground);
+  let errorLight = 0, errorDark = 0;
+  const a = reference.data, b = output.data;
+  for (let i = 0; i < a.length; i += 4) {
+    const alphaA = a[i + 3] / 255, alphaB = b[i + 3] / 255;
+    for (let c = 0; c < 3; c++) {
+      const colorDiff = a[i + c] * alphaA - b[i + c] * alphaB;
+      const dLight = colorDiff - light[c] * (alphaA - alphaB);
+      const dDark = colorDiff - dark[c] * (alphaA - alphaB);
+      errorLight += dLight * dLight;
+      errorDark += dDark * dDark;
+    }
+  }
+  const samples = (a.length / 4) * 3;
+  const psnr = (squaredError: number) =>
+    squaredError === 0 ? Infinity : 10 * Math.log10((255 * 255) / (squaredError / samples));
+  return { lightPsnr: psnr(errorLight), darkPsnr: psnr(errorDark) };
+};
+
+interface Attempt {
+  bytes: Uint8Array;
+  /** What a decoder will show for the first frame. */
+  decoded: RgbaImage;
+  colors?: number;
+}
+
+const encodeAttempt = (animation: AnimatedImage, options: ExportOptions, colors: number, metadata: PngChunk[]): Attempt => {
+  const first = animation.frames[0].image;
+  switch (options.format) {
+    case 'png8': {
+      const quantized = quantizeImage(first, colors, options.lightBackground, options.darkBackground);
+      const bytes = encodeIndexedPng(quantized.width, quantized.height, quantized.indices, quantized.palette, metadata);
+      return { bytes, decoded: dequantize(quantized), colors: quantized.palette.length / 4 };
+    }
+    case 'webp':
+      return { bytes: encodeWebp(first), decoded: first };
+    default:
+      return {
+        bytes: animation.frames.length > 1 ? encodeApng(animation, metadata) : encodePng(first, metadata),
+        decoded: first,
+      };
+  }
+};
+
+/**
+ * Encodes `source` in the requested format, as large as fits in
+ * `options.maxBytes`. Animations can only go out as (A)PNG. PNG outputs get
+ * `metadata` (text chunks) too; WebP drops it.
+ */
+export const exportImage = (source: AnimatedImage, options: ExportOptions, metadata: PngChunk[] = []): ExportResult => {
+  if (source.frames.length > 1 && options.format !== 'png') {
+    throw new Error('Animated results can only be exported as PNG');
+  }
+  const minScale = Math.min(1, MIN_EDGE / Math.min(source.width, source.height));
+
+  let scale = 1;
+  for (;;) {
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const animation = scale < 1
+      ? { ...source, width, height, frames: source.frames.map(f => ({ ...f, image: downscalePremultiplied(f.image, width, height) })) }
+      : source;
+
+    const sizes = options.format === 'png8' ? PALETTE_SIZES : [0];
+    let attempt!: Attempt;
+    for (const colors of sizes) {
+      attempt = encodeAttempt(animation, options, colors, metadata);
+      if (!options.maxBytes || attempt.bytes.length <= options.maxBytes) break;
+    }
+
+    const fits = !options.maxBytes || attempt.bytes.length <= options.maxBytes;
+    if (fits || scale <= minScale) {
+      const reference = animation.frames[0].image;
+      const { lightPsnr, darkPsnr } = compareShown(reference, attempt.decoded, options);
+      return {
+        bytes: attempt.bytes,
+        mime: MIMES[options.format],
+        extension: EXTENSIONS[options.format],
+        width,
+        height,
+        scale: width / source.width,
+        colors: attempt.colors,
+        fits,
+        exact: scale === 1 && lightPsnr === Infinity && darkPsnr === Infinity
+          && attempt.decoded.data.every((v, i) => v === reference.data[i]),
+        lightPsnr,
+        darkPsnr,
+      };
+    }
+
+    // Encoded size scales roughly with area
+    scale = Math.max(minScale, scale * Math.min(SHRINK_MARGIN, Math.sqrt(options.maxBytes / attempt.bytes.length)));
+  }
+};
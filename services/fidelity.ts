@@ -0,0 +1,161 @@
+import { FidelityMetrics, ProcessingConfig, RgbaImage } from '../types';
+import { getTargetMapping } from './mapping';
+import { getAdaptiveShift } from './adaptiveMapping';
+
+/**
+ * Objective quality of a result: the output composited over both backgrounds,
+ * compared with the mapped surface and hidden targets.
+ */
+
+/** Side of the SSIM windows, in pixels. */
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/** Luma error at which the heatmap saturates. */
+const HEATMAP_RANGE = 32;
+
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+const psnr = (squaredError: number, samples: number) => {
+  const mse = squaredError / samples;
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+};
+
+/**
+ * Mean SSIM over non-overlapping windows of two luma planes.
+ */
+const ssim = (x: Float32Array, y: Float32Array, width: number, height: number) => {
+  const win = Math.min(SSIM_WINDOW, width, height);
+  let total = 0;
+  let windows = 0;
+
+  for (let wy = 0; wy + win <= height; wy += win) {
+    for (let wx = 0; wx + win <= width; wx += win) {
+      let sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0;
+      for (let yy = wy; yy < wy + win; yy++) {
+        for (let xx = wx; xx < wx + win; xx++) {
+          const a = x[yy * width + xx], b = y[yy * width + xx];
+          sx += a; sy += b;
+          sxx += a * a; syy += b * b; sxy += a * b;
+        }
+      }
+      const n = win * win;
+      const mx = sx / n, my = sy / n;
+      const vx = sxx / n - mx * mx, vy = syy / n - my * my, cov = sxy / n - mx * my;
+      total += ((2 * mx * my + SSIM_C1) * (2 * cov + SSIM_C2))
+        / ((mx * mx + my * my + SSIM_C1) * (vx + vy + SSIM_C2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+};
+
+/**
+ * Measures `output` against the targets derived from the (already resized)
+ * `surface` and `hidden` inputs. Also returns a heatmap overlay the size of
+ * the output: yellow to red for growing error, magenta where B > A had to be
+ * clamped.
+ */
+export const measureFidelity = (
+  surface: RgbaImage,
+  hidden: RgbaImage,
+  output: RgbaImage,
+  config: ProcessingConfig
+): { metrics: FidelityMetrics; heatmap: RgbaImage } => {
+  const { width, height } = output;
+  const pixels = width * height;
+  const { scaleA, offsetA, scaleB, light, dark, span } = getTargetMapping(config);
+  const shift = getAdaptiveShift(surface, hidden, config);
+
+  const targetLight = new Float32Array(pixels);
+  const shownLight = new Float32Array(pixels);
+  const targetDark = new Float32Array(pixels);
+  const shownDark = new Float32Array(pixels);
+  const heatmap = new Uint8ClampedArray(pixels * 4);
+
+  let errorLight = 0;
+  let errorDark = 0;
+  let clampedPixels = 0;
+  const mappedA = [0, 0, 0];
+  const mappedB = [0, 0, 0];
+  const tl = [0, 0, 0], sl = [0, 0, 0], td = [0, 0, 0], sd = [0, 0, 0];
+
+  for (let p = 0; p < pixels; p++) {
+    const i = p * 4;
+
+    // Targets, mapped the same way composeMirage maps them (without B ≤ A).
+    // Clamping is judged under the mapping actually used, so adaptive mode
+    // shows what it saved; the targets stay the plain global mapping.
+    const lift = shift ? shift[p] : 0;
+    const lumA = config.grayscale ? luma(surface.data[i], surface.data[i + 1], surface.data[i + 2]) : 0;
+    const lumB = config.grayscale ? luma(hidden.data[i], hidden.data[i + 1], hidden.data[i + 2]) : 0;
+    let clamped = false;
+    for (let c = 0; c < 3; c++) {
+      const a = config.grayscale ? lumA : surface.data[i + c];
+      const b = config.grayscale ? lumB : hidden.data[i + c];
+      mappedA[c] = Math.max(0, Math.min(255, a * scaleA + offsetA));
+      mappedB[c] = Math.max(0, Math.min(255, b * scaleB));
+      if (b * scaleB - (lift * b) / 255 > a * scaleA + offsetA + lift * (1 - a / 255)) clamped = true;
+    }
+    if (clamped) clampedPixels++;
+
+    const alpha = output.data[i + 3] / 255;
+    for (let c = 0; c < 3; c++) {
+      const color = output.data[i + c] * alpha;
+      tl[c] = dark[c] + (mappedA[c] * span[c]) / 255;
+      td[c] = dark[c] + (mappedB[c] * span[c]) / 255;
+      sl[c] = color + (1 - alpha) * light[c];
+      sd[c] = color + (1 - alpha) * dark[c];
+      errorLight += (sl[c] - tl[c]) ** 2;
+      errorDark += (sd[c] - td[c]) ** 2;
+    }
+
+    targetLight[p] = luma(tl[0], tl[1], tl[2]);
+    shownLight[p] = luma(sl[0], sl[1], sl[2]);
+    targetDark[p] = luma(td[0], td[1], td[2]);
+    shownDark[p] = luma(sd[0], sd[1], sd[2]);
+
+    if (clamped) {
+      heatmap[i] = 255;
+      heatmap[i + 2] = 255;
+      heatmap[i + 3] = 160;
+    } else {
+      const error = Math.max(Math.abs(shownLight[p] - targetLight[p]), Math.abs(shownDark[p] - targetDark[p]));
+      const t = Math.min(1, error / HEATMAP_RANGE);
+      heatmap[i] = 255;
+      heatmap[i + 1] = 220 * (1 - t);
+      heatmap[i + 3] = 220 * t;
+    }
+  }
+
+  return {
+    metrics: {
+      surfacePsnr: psnr(errorLight, pixels * 3),
+      surfaceSsim: ssim(shownLight, targetLight, width, height),
+      hiddenPsnr: psnr(errorDark, pixels * 3),
+      hiddenSsim: ssim(shownDark, targetDark, width, height),
+      clampedPixels,
+      totalPixels: pixels,
+    },
+    heatmap: { width, height, data: heatmap },
+  };
+};
+
+/**
+ * SSIM between two same-size images as they look over `background` (RGB).
+ */
+export const shownSsim = (a: RgbaImage, b: RgbaImage, background: number[]): number => {
+  const { width, height } = a;
+  const shownA = new Float32Array(width * height);
+  const shownB = new Float32Array(width * height);
+  const over = (data: Uint8ClampedArray, i: number, c: number) =>
+    (data[i + c] * data[i + 3] + background[c] * (255 - data[i + 3])) / 255;
+  for (let p = 0; p < shownA.length; p++) {
+    const i = p * 4;
+    shownA[p] = luma(over(a.data, i, 0), over(a.data, i, 1), over(a.data, i, 2));
+    shownB[p] = luma(over(b.data, i, 0), over(b.data, i, 1), over(b.data, i, 2));
+  }
+  return ssim(shownA, shownB, width, height);
+};
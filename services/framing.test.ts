@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RgbaImage } from '../types';
+import { DEFAULT_TRANSFORM, getCoverDimensions, renderLayer, resizeCover } from './framing';
+
+const image = (width: number, height: number, pixel: (x: number, y: number) => number[]): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([...pixel(x, y), 255], (y * width + x) * 4);
+  }
+  return { width, height, data };
+};
+
+const at = (img: RgbaImage, x: number, y: number) => Array.from(img.data.subarray((y * img.width + x) * 4, (y * img.width + x) * 4 + 4));
+
+describe('resizeCover', () => {
+  it('crops the longer side around the center', () => {
+    assert.deepEqual(getCoverDimensions(200, 100, 50, 50), { width: 100, height: 50, x: -25, y: 0 });
+    assert.deepEqual(getCoverDimensions(100, 400, 50, 100), { width: 50, height: 200, x: 0, y: -50 });
+  });
+
+  it('averages pixels when scaling down', () => {
+    const checker = image(4, 4, (x, y) => ((x + y) % 2 ? [255, 255, 255] : [0, 0, 0]));
+    const out = resizeCover(checker, 2, 2);
+    for (let i = 0; i < out.data.length; i += 4) {
+      assert.ok(Math.abs(out.data[i] - 128) <= 1);
+      assert.equal(out.data[i + 3], 255);
+    }
+  });
+
+  it('keeps a same-size image as it is', () => {
+    const source = image(3, 2, (x, y) => [x * 80, y * 120, 7]);
+    assert.deepEqual(resizeCover(source, 3, 2), source);
+  });
+});
+
+describe('renderLayer', () => {
+  const source = image(4, 2, (x, y) => [x * 60, y * 200, 9]);
+
+  it('leaves the default transform to resizeCover', () => {
+    assert.deepEqual(renderLayer(source, 4, 2, DEFAULT_TRANSFORM, [0, 0, 0]), resizeCover(source, 4, 2));
+  });
+
+  it('mirrors with the flips', () => {
+    const flipped = renderLayer(source, 4, 2, { ...DEFAULT_TRANSFORM, flipX: true }, [0, 0, 0]);
+    for (let y = 0; y < 2; y++) {
+      for (let x = 0; x < 4; x++) assert.deepEqual(at(flipped, x, y), at(source, 3 - x, y));
+    }
+  });
+
+  it('fills what a contained image leaves uncovered', () => {
+    const out = renderLayer(source, 4, 4, { ...DEFAULT_TRANSFORM, fit: 'contain' }, [255, 0, 255]);
+    assert.deepEqual(at(out, 0, 0), [255, 0, 255, 255]);
+    assert.deepEqual(at(out, 3, 3), [255, 0, 255, 255]);
+    assert.notDeepEqual(at(out, 1, 1), [255, 0, 255, 255]);
+  });
+});
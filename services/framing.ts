@@ -0,0 +1,261 @@
+import { LayerTransform, RgbaImage } from '../types';
+
+/**
+ * Places an input in the output frame according to its LayerTransform:
+ * fit mode, zoom, pan, rotation and flips.
+ */
+
+/**
+ * Calculates the dimensions to cover a target area while maintaining aspect ratio.
+ */
+export const getCoverDimensions = (
+  imgWidth: number,
+  imgHeight: number,
+  targetWidth: number,
+  targetHeight: number
+) => {
+  const imgRatio = imgWidth / imgHeight;
+  const targetRatio = targetWidth / targetHeight;
+
+  let renderWidth, renderHeight, offsetX, offsetY;
+
+  if (imgRatio > targetRatio) {
+    // Image is wider than target
+    renderHeight = targetHeight;
+    renderWidth = targetHeight * imgRatio;
+    offsetY = 0;
+    offsetX = (targetWidth - renderWidth) / 2;
+  } else {
+    // Image is taller than target
+    renderWidth = targetWidth;
+    renderHeight = targetWidth / imgRatio;
+    offsetX = 0;
+    offsetY = (targetHeight - renderHeight) / 2;
+  }
+
+  return { width: renderWidth, height: renderHeight, x: offsetX, y: offsetY };
+};
+
+/**
+ * Scales and center-crops `src` to exactly cover `width`×`height`.
+ * Downscaling averages every source pixel under the target pixel (box filter);
+ * upscaling interpolates bilinearly.
+ */
+export const resizeCover = (src: RgbaImage, width: number, height: number): RgbaImage => {
+  const dim = getCoverDimensions(src.width, src.height, width, height);
+  const out = new Uint8ClampedArray(width * height * 4);
+
+  // Source pixels per target pixel
+  const stepX = src.width / dim.width;
+  const stepY = src.height / dim.height;
+
+  for (let y = 0; y < height; y++) {
+    const sy0 = (y - dim.y) * stepY;
+    for (let x = 0; x < width; x++) {
+      const sx0 = (x - dim.x) * stepX;
+      const o = (y * width + x) * 4;
+
+      if (stepX > 1 || stepY > 1) {
+        // Box filter over the covered source area
+        const xStart = Math.max(0, Math.floor(sx0));
+        const yStart = Math.max(0, Math.floor(sy0));
+        const xEnd = Math.min(src.width, Math.max(xStart + 1, Math.round(sx0 + stepX)));
+        const yEnd = Math.min(src.height, Math.max(yStart + 1, Math.round(sy0 + stepY)));
+        let r = 0, g = 0, b = 0, a = 0;
+        for (let sy = yStart; sy < yEnd; sy++) {
+          for (let sx = xStart; sx < xEnd; sx++) {
+            const i = (sy * src.width + sx) * 4;
+            r += src.data[i];
+            g += src.data[i + 1];
+            b += src.data[i + 2];
+            a += src.data[i + 3];
+          }
+        }
+        const count = (xEnd - xStart) * (yEnd - yStart);
+        out[o] = r / count;
+        out[o + 1] = g / count;
+        out[o + 2] = b / count;
+        out[o + 3] = a / count;
+      } else {
+        // Bilinear, sampling at pixel centers
+        const fx = Math.min(src.width - 1, Math.max(0, sx0 + stepX / 2 - 0.5));
+        const fy = Math.min(src.height - 1, Math.max(0, sy0 + stepY / 2 - 0.5));
+        const x0 = Math.floor(fx), y0 = Math.floor(fy);
+        const x1 = Math.min(src.width - 1, x0 + 1), y1 = Math.min(src.height - 1, y0 + 1);
+        const tx = fx - x0, ty = fy - y0;
+        for (let c = 0; c < 4; c++) {
+          const top = src.data[(y0 * src.width + x0) * 4 + c] * (1 - tx) + src.data[(y0 * src.width + x1) * 4 + c] * tx;
+          const bottom = src.data[(y1 * src.width + x0) * 4 + c] * (1 - tx) + src.data[(y1 * src.width + x1) * 4 + c] * tx;
+          out[o + c] = top * (1 - ty) + bottom * ty;
+        }
+      }
+    }
+  }
+
+  return { width, height, data: out };
+};
+
+/**
+ * Box-filter downscale on premultiplied color. Compositing is linear there,
+ * so the result looks over either background like the original, averaged.
+ */
+export const downscalePremultiplied = (src: RgbaImage, width: number, height: number): RgbaImage => {
+  const out = new Uint8ClampedArray(width * height * 4);
+  const stepX = src.width / width;
+  const stepY = src.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const yStart = Math.floor(y * stepY);
+    const yEnd = Math.max(yStart + 1, Math.floor((y + 1) * stepY));
+    for (let x = 0; x < width; x++) {
+      const xStart = Math.floor(x * stepX);
+      const xEnd = Math.max(xStart + 1, Math.floor((x + 1) * stepX));
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = yStart; sy < yEnd; sy++) {
+        for (let sx = xStart; sx < xEnd; sx++) {
+          const i = (sy * src.width + sx) * 4;
+          const alpha = src.data[i + 3];
+          r += src.data[i] * alpha;
+          g += src.data[i + 1] * alpha;
+          b += src.data[i + 2] * alpha;
+          a += alpha;
+        }
+      }
+      const o = (y * width + x) * 4;
+      if (a > 0) {
+        out[o] = r / a;
+        out[o + 1] = g / a;
+        out[o + 2] = b / a;
+      }
+      out[o + 3] = a / ((xEnd - xStart) * (yEnd - yStart));
+    }
+  }
+
+  return { width, height, data: out };
+};
+
+export const DEFAULT_TRANSFORM: LayerTransform = {
+  fit: 'cover',
+  offsetX: 0,
+  offsetY: 0,
+  zoom: 1,
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+};
+
+/** Most source pixels averaged per output pixel and axis when shrinking. */
+const MAX_SUPERSAMPLE = 4;
+
+export const isDefaultTransform = (t: LayerTransform) =>
+  t.fit === 'cover' && t.offsetX === 0 && t.offsetY === 0 && t.zoom === 1
+  && t.rotation % 360 === 0 && !t.flipX && !t.flipY;
+
+/**
+ * Where a `srcWidth`×`srcHeight` image lands in a `width`×`height` frame.
+ * The image is flipped, scaled by (scaleX, scaleY) along its own axes,
+ * rotated by `angle` (radians, clockwise) and centered on (centerX, centerY).
+ * The preview in FramingEditor applies the same steps as CSS transforms.
+ */
+export const getLayerPlacement = (
+  srcWidth: number,
+  srcHeight: number,
+  width: number,
+  height: number,
+  t: LayerTransform
+) => {
+  const angle = (t.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+
+  let scaleX: number, scaleY: number;
+  if (t.fit === 'stretch') {
+    // Match the image axes to the frame axes they end up closest to
+    const quarterTurned = sin > cos;
+    scaleX = (quarterTurned ? height : width) / srcWidth;
+    scaleY = (quarterTurned ? width : height) / srcHeight;
+  } else {
+    // Fit the rotated bounding box
+    const boxWidth = srcWidth * cos + srcHeight * sin;
+    const boxHeight = srcWidth * sin + srcHeight * cos;
+    const pick = t.fit === 'cover' ? Math.max : Math.min;
+    scaleX = scaleY = pick(width / boxWidth, height / boxHeight);
+  }
+
+  return {
+    scaleX: scaleX * t.zoom,
+    scaleY: scaleY * t.zoom,
+    angle,
+    centerX: width / 2 + t.offsetX * width,
+    centerY: height / 2 + t.offsetY * height,
+  };
+};
+
+/**
+ * Renders `src` into a `width`×`height` frame. Frame areas the image doesn't
+ * reach get `fill` (opaque RGB), so they read as plain background later.
+ * The default transform goes through resizeCover unchanged.
+ */
+export const renderLayer = (
+  src: RgbaImage,
+  width: number,
+  height: number,
+  t: LayerTransform,
+  fill: [number, number, number]
+): RgbaImage => {
+  if (isDefaultTransform(t)) return resizeCover(src, width, height);
+
+  const { scaleX, scaleY, angle, centerX, centerY } = getLayerPlacement(src.width, src.height, width, height, t);
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const flipX = t.flipX ? -1 : 1, flipY = t.flipY ? -1 : 1;
+  const out = new Uint8ClampedArray(width * height * 4);
+
+  // Shrinking averages a grid of bilinear samples per output pixel
+  const samplesX = Math.min(MAX_SUPERSAMPLE, Math.max(1, Math.ceil(1 / scaleX)));
+  const samplesY = Math.min(MAX_SUPERSAMPLE, Math.max(1, Math.ceil(1 / scaleY)));
+  const samples = samplesX * samplesY;
+
+  // Adds a bilinear sample at source coordinates (pixel centers on .5) to
+  // `acc`; false when the point lies outside the image
+  const acc = [0, 0, 0, 0];
+  const sample = (sx: number, sy: number) => {
+    if (sx < 0 || sy < 0 || sx >= src.width || sy >= src.height) return false;
+    const fx = Math.min(src.width - 1, Math.max(0, sx - 0.5));
+    const fy = Math.min(src.height - 1, Math.max(0, sy - 0.5));
+    const x0 = Math.floor(fx), y0 = Math.floor(fy);
+    const x1 = Math.min(src.width - 1, x0 + 1), y1 = Math.min(src.height - 1, y0 + 1);
+    const tx = fx - x0, ty = fy - y0;
+    for (let c = 0; c < 4; c++) {
+      const top = src.data[(y0 * src.width + x0) * 4 + c] * (1 - tx) + src.data[(y0 * src.width + x1) * 4 + c] * tx;
+      const bottom = src.data[(y1 * src.width + x0) * 4 + c] * (1 - tx) + src.data[(y1 * src.width + x1) * 4 + c] * tx;
+      acc[c] += top * (1 - ty) + bottom * ty;
+    }
+    return true;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      acc.fill(0);
+      let hits = 0;
+      for (let j = 0; j < samplesY; j++) {
+        for (let i = 0; i < samplesX; i++) {
+          // Inverse placement: translate, unrotate, unscale, unflip
+          const dx = x + (i + 0.5) / samplesX - centerX;
+          const dy = y + (j + 0.5) / samplesY - centerY;
+          const rx = dx * cos + dy * sin;
+          const ry = -dx * sin + dy * cos;
+          const sx = (rx / scaleX) * flipX + src.width / 2;
+          const sy = (ry / scaleY) * flipY + src.height / 2;
+          if (sample(sx, sy)) hits++;
+        }
+      }
+
+      // Partly covered edge pixels blend with the fill
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) out[o + c] = (acc[c] + fill[c] * (samples - hits)) / samples;
+      out[o + 3] = 255;
+    }
+  }
+
+  return { width, height, data: out };
+};
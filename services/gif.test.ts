@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { RgbaImage } from '../types';
+import { decodeGif, isGif } from './gif';
+
+/**
+ * The fixtures were written by libvips (sharp) from `swatches`, with few
+ * enough colors that GIF's palette keeps them exact.
+ */
+const fixture = (name: string) => new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+
+const PALETTE = [[255, 0, 0], [0, 128, 255], [10, 20, 30], [255, 255, 255], [90, 200, 40]];
+
+const swatches = (width: number, height: number, shift: number): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) data.set([...PALETTE[(p * 3 + shift) % PALETTE.length], 255], p * 4);
+  return { width, height, data };
+};
+
+describe('GIF', () => {
+  it('decodes a still image', () => {
+    const bytes = fixture('still.gif');
+    assert.ok(isGif(bytes));
+    const decoded = decodeGif(bytes);
+    assert.equal(decoded.frames.length, 1);
+    assert.deepEqual(decoded.frames[0].image, swatches(5, 3, 0));
+  });
+
+  it('decodes every frame of an animation with its delay', () => {
+    const decoded = decodeGif(fixture('animated.gif'));
+    assert.deepEqual(decoded.frames.map(f => f.image), [0, 1, 2].map(shift => swatches(23, 11, shift)));
+    assert.deepEqual(decoded.frames.map(f => f.delay), [50, 70, 300]);
+  });
+
+  it('keeps transparent pixels transparent', () => {
+    // Every third pixel of swatches(8, 8, 0) was cleared before encoding
+    const decoded = decodeGif(fixture('transparent.gif')).frames[0].image;
+    for (let p = 0; p < 64; p++) {
+      assert.equal(decoded.data[p * 4 + 3], p % 3 === 0 ? 0 : 255, `alpha of pixel ${p}`);
+    }
+  });
+
+  it('recognizes only GIF signatures', () => {
+    assert.equal(isGif(new TextEncoder().encode('GIF89a')), true);
+    assert.equal(isGif(new TextEncoder().encode('GIF90a')), false);
+  });
+});
@@ -0,0 +1,205 @@
+import { AnimatedImage, AnimationFrame } from '../types';
+
+/**
+ * GIF decoder (87a/89a, animated or not) producing composited RGBA frames.
+ * Runs in the worker and in Node, like the PNG codec.
+ */
+
+const DISPOSE_BACKGROUND = 2;
+const DISPOSE_PREVIOUS = 3;
+
+/** Browsers play delays this short at 100 ms; so do we, to keep timing alike. */
+const MIN_DELAY = 20;
+const DEFAULT_DELAY = 100;
+
+const MAX_CODES = 4096;
+
+export const isGif = (bytes: Uint8Array): boolean =>
+  bytes.length >= 6 && String.fromCharCode(...bytes.subarray(0, 6)).match(/^GIF8[79]a$/) !== null;
+
+/**
+ * Decompresses GIF LZW data into `out` (palette indices); stops when `out`
+ * is full or the stream ends.
+ */
+const decodeLzw = (data: Uint8Array, minCodeSize: number, out: Uint8Array) => {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const prefix = new Int16Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const firstOf = new Uint8Array(MAX_CODES);
+  const stack = new Uint8Array(MAX_CODES + 1);
+  for (let i = 0; i < clear; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    firstOf[i] = i;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let previous = -1;
+  let bits = 0, buffer = 0, pos = 0, written = 0;
+
+  while (written < out.length) {
+    while (bits < codeSize) {
+      if (pos >= data.length) return;
+      buffer |= data[pos++] << bits;
+      bits += 8;
+    }
+    const code = buffer & ((1 << codeSize) - 1);
+    buffer >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === end) return;
+
+    // Unknown code: the KwKwK case, previous string plus its own first byte
+    let current = code;
+    let top = 0;
+    if (code >= next) {
+      if (previous < 0) throw new Error('Corrupt GIF image data');
+      stack[top++] = firstOf[previous];
+      current = previous;
+    }
+    while (current >= 0) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    while (top > 0 && written < out.length) out[written++] = stack[--top];
+
+    if (previous >= 0 && next < MAX_CODES) {
+      prefix[next] = previous;
+      suffix[next] = firstOf[code < next ? code : previous];
+      firstOf[next] = firstOf[previous];
+      next++;
+      if (next === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = code;
+  }
+};
+
+/**
+ * Decodes a GIF into full-size frames. Transparent pixels and disposed areas
+ * are fully transparent; the background color is ignored, as browsers do.
+ */
+export const decodeGif = (bytes: Uint8Array): AnimatedImage => {
+  if (!isGif(bytes)) throw new Error('Not a GIF file');
+  let pos = 6;
+  const u16 = () => {
+    const v = bytes[pos] | (bytes[pos + 1] << 8);
+    pos += 2;
+    return v;
+  };
+  const readTable = (packed: number) => {
+    const size = 3 * (1 << ((packed & 7) + 1));
+    const table = bytes.subarray(pos, pos + size);
+    pos += size;
+    return table;
+  };
+  const readSubBlocks = () => {
+    const parts: Uint8Array[] = [];
+    while (pos < bytes.length && bytes[pos] !== 0) {
+      parts.push(bytes.subarray(pos + 1, pos + 1 + bytes[pos]));
+      pos += 1 + bytes[pos];
+    }
+    pos++;
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  };
+
+  const width = u16();
+  const height = u16();
+  const screenFlags = bytes[pos];
+  pos += 3;
+  const globalTable = screenFlags & 0x80 ? readTable(screenFlags) : null;
+
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: AnimationFrame[] = [];
+  let loops = 1;
+  let delay = 0, transparent = -1, dispose = 0;
+
+  while (pos < bytes.length) {
+    const block = bytes[pos++];
+    if (block === 0x3B) break;
+
+    if (block === 0x21) {
+      const label = bytes[pos++];
+      const body = readSubBlocks();
+      if (label === 0xF9 && body.length >= 4) {
+        // Graphic control: applies to the next image
+        dispose = (body[0] >> 2) & 7;
+        delay = (body[1] | (body[2] << 8)) * 10;
+        transparent = body[0] & 1 ? body[3] : -1;
+      } else if (label === 0xFF && body.length >= 14 && String.fromCharCode(...body.subarray(0, 11)) === 'NETSCAPE2.0') {
+        loops = body[12] | (body[13] << 8);
+      }
+      continue;
+    }
+
+    if (block !== 0x2C) throw new Error(`Unexpected GIF block 0x${block.toString(16)}`);
+
+    const left = u16(), top = u16(), w = u16(), h = u16();
+    const flags = bytes[pos++];
+    const table = flags & 0x80 ? readTable(flags) : globalTable;
+    if (!table) throw new Error('GIF frame has no color table');
+    const minCodeSize = bytes[pos++];
+    const indices = new Uint8Array(w * h);
+    decodeLzw(readSubBlocks(), minCodeSize, indices);
+
+    // Interlaced rows arrive in four passes
+    const rows: number[] = [];
+    if (flags & 0x40) {
+      for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+        for (let y = start; y < h; y += step) rows.push(y);
+      }
+    } else {
+      for (let y = 0; y < h; y++) rows.push(y);
+    }
+
+    const saved = dispose === DISPOSE_PREVIOUS ? new Uint8ClampedArray(canvas) : null;
+    rows.forEach((y, line) => {
+      const cy = top + y;
+      if (cy >= height) return;
+      for (let x = 0; x < w; x++) {
+        const cx = left + x;
+        const index = indices[line * w + x];
+        if (cx >= width || index === transparent) continue;
+        const o = (cy * width + cx) * 4;
+        canvas[o] = table[index * 3];
+        canvas[o + 1] = table[index * 3 + 1];
+        canvas[o + 2] = table[index * 3 + 2];
+        canvas[o + 3] = 255;
+      }
+    });
+
+    frames.push({
+      image: { width, height, data: new Uint8ClampedArray(canvas) },
+      delay: delay < MIN_DELAY ? DEFAULT_DELAY : delay,
+    });
+
+    if (dispose === DISPOSE_BACKGROUND) {
+      for (let y = top; y < Math.min(height, top + h); y++) {
+        canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + w)) * 4);
+      }
+    } else if (saved) {
+      canvas.set(saved);
+    }
+    delay = 0;
+    transparent = -1;
+    dispose = 0;
+  }
+
+  if (frames.length === 0) throw new Error('GIF has no frames');
+  // A still GIF has no timing of its own
+  if (frames.length === 1) frames[0].delay = 0;
+  return { width, height, frames, loops };
+};
@@ -0,0 +1,87 @@
+import { MirageProject } from '../types';
+
+/**
+ * Undo history of the editor: snapshots of inputs and settings, newest last,
+ * with a pointer to the one on screen. Files are kept by reference, so a
+ * snapshot costs little more than its config.
+ */
+
+/** Oldest snapshots are dropped beyond this. */
+export const MAX_HISTORY = 50;
+
+export interface HistoryEntry {
+  project: MirageProject;
+  /** Small data URL of the result made from this snapshot, once there is one. */
+  thumbnail: string | null;
+  /** When the snapshot was taken, ms since the epoch. */
+  time: number;
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[];
+  /** The entry on screen; -1 while empty. */
+  index: number;
+}
+
+export const EMPTY_HISTORY: HistoryState = { entries: [], index: -1 };
+
+const sameFiles = (a: File[], b: File[]) => a.length === b.length && a.every((file, i) => file === b[i]);
+
+/**
+ * Whether two snapshots hold the same files and settings.
+ */
+export const sameProject = (a: MirageProject, b: MirageProject) =>
+  sameFiles(a.surface, b.surface) &&
+  sameFiles(a.hidden, b.hidden) &&
+  a.secret === b.secret &&
+  JSON.stringify(a.config) === JSON.stringify(b.config);
+
+/**
+ * Records `project` after the current entry, discarding the redo branch.
+ * Unchanged if it matches the current entry.
+ */
+export const pushHistory = (history: HistoryState, project: MirageProject, thumbnail: string | null = null): HistoryState => {
+  const current = history.entries[history.index];
+  if (current && sameProject(current.project, project)) return history;
+  const entries = [...history.entries.slice(0, history.index + 1), { project, thumbnail, time: Date.now() }]
+    .slice(-MAX_HISTORY);
+  return { entries, index: entries.length - 1 };
+};
+
+/**
+ * Attaches `thumbnail` to every entry of `project` that has none yet.
+ */
+export const setThumbnail = (history: HistoryState, project: MirageProject, thumbnail: string): HistoryState => {
+  let changed = false;
+  const entries = history.entries.map(entry => {
+    if (entry.thumbnail || !sameProject(entry.project, project)) return entry;
+    changed = true;
+    return { ...entry, thumbnail };
+  });
+  return changed ? { ...history, entries } : history;
+};
+
+const slotFiles = (project: MirageProject, slot: 'surface' | 'hidden' | 'secret') =>
+  slot === 'secret' ? (project.secret ? [project.secret] : []) : project[slot];
+
+/** "surfaceMin" → "surface min". */
+const settingName = (key: string) => key.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+/**
+ * Short description of what changed between two snapshots, for the history panel.
+ */
+export const describeChange = (before: MirageProject | null, after: MirageProject) => {
+  if (!before) return 'Start';
+  if (before.surface.length > 0 && sameFiles(before.surface, after.hidden) && sameFiles(before.hidden, after.surface)) {
+    return 'Swap inputs';
+  }
+  const slots = (['surface', 'hidden', 'secret'] as const)
+    .filter(slot => !sameFiles(slotFiles(before, slot), slotFiles(after, slot)));
+  if (slots.length > 0) {
+    const cleared = slots.every(slot => slotFiles(after, slot).length === 0);
+    return `${cleared ? 'Clear' : 'Set'} ${slots.join(' and ')}`;
+  }
+  const changed = (Object.keys(after.config) as (keyof MirageProject['config'])[])
+    .filter(key => JSON.stringify(before.config[key]) !== JSON.stringify(after.config[key]));
+  return changed.length === 1 ? `Change ${settingName(changed[0])}` : `Change ${changed.length} settings`;
+};
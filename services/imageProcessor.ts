@@ -1,236 +1,233 @@
-import { ProcessingConfig } from '../types';
+import {
+  AnimatedImage,
+  ExportOptions,
+  ExportResult,
+  PlatformProfile,
+  PlatformSimulation,
+  ProcessingConfig,
+  ProcessedResult,
+  RgbaImage,
+  SourceHashes,
+  StegoFile,
+} from '../types';
+import { StegoCapacityError } from './steganography';
+import { decodePng, encodePng, isPng } from './png';
+import { decodeApng, encodeApng } from './apng';
+import { decodeGif, isGif } from './gif';
+import { frameSequence, generateAnimatedMirage, stillImage } from './animation';
+import { exportImage } from './export';
+import { simulatePlatform } from './platforms';
+import { createSettingsChunks, readTextChunks } from './metadata';
 
 /**
- * Loads a File object into an HTMLImageElement.
+ * Browser wrapper around mirageCore. PNGs are decoded and encoded with our own
+ * codec so pixel data stays exact and output matches the CLI byte for byte;
+ * other formats and the secret image re-encoding go through (Offscreen)Canvas.
  */
-export const loadImage = (file: File): Promise<HTMLImageElement> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = URL.createObjectURL(file);
-  });
+
+/**
+ * Inflates a zlib stream with the browser's DecompressionStream.
+ */
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
 };
 
 /**
- * Calculates the dimensions to cover a target area while maintaining aspect ratio.
+ * Decodes an ImageBitmap into raw RGBA at its natural size.
  */
-const getCoverDimensions = (
-  imgWidth: number,
-  imgHeight: number,
-  targetWidth: number,
-  targetHeight: number
-) => {
-  const imgRatio = imgWidth / imgHeight;
-  const targetRatio = targetWidth / targetHeight;
-
-  let renderWidth, renderHeight, offsetX, offsetY;
-
-  if (imgRatio > targetRatio) {
-    // Image is wider than target
-    renderHeight = targetHeight;
-    renderWidth = targetHeight * imgRatio;
-    offsetY = 0;
-    offsetX = (targetWidth - renderWidth) / 2;
-  } else {
-    // Image is taller than target
-    renderWidth = targetWidth;
-    renderHeight = targetWidth / imgRatio;
-    offsetX = 0;
-    offsetY = (targetHeight - renderHeight) / 2;
-  }
+export const bitmapToRgba = (img: ImageBitmap): RgbaImage => {
+  const canvas = new OffscreenCanvas(img.width, img.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
 
-  return { width: renderWidth, height: renderHeight, x: offsetX, y: offsetY };
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.drawImage(img, 0, 0);
+  const { data } = ctx.getImageData(0, 0, img.width, img.height);
+  return { width: img.width, height: img.height, data };
 };
 
 /**
- * Embeds text data into the LSB of the RGB channels.
- * Format: 32-bit length (Little Endian) followed by UTF-8 bytes.
+ * Decodes an image file into raw RGBA. PNGs bypass the canvas, which would
+ * premultiply alpha and destroy the low bits of translucent pixels.
  */
-const embedSteganography = (data: Uint8ClampedArray, text: string) => {
-  if (!text) return;
-  const encoder = new TextEncoder();
-  const bytes = encoder.encode(text);
-  const length = bytes.length;
-  
-  // We utilize the LSB of R, G, B channels. 3 bits per pixel.
-  const totalPixels = data.length / 4;
-  const totalCapacityBits = totalPixels * 3;
-  const requiredBits = 32 + length * 8; // 32-bit length header + data
-
-  if (requiredBits > totalCapacityBits) {
-    console.warn("Steganography capacity exceeded. Text truncated.");
-    // In a real app we might truncate or throw, here we just proceed with what fits or return
-    // return; 
+export const loadRgba = async (file: Blob): Promise<RgbaImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isPng(bytes)) return decodePng(bytes, inflate);
+
+  const bitmap = await createImageBitmap(file);
+  try {
+    return bitmapToRgba(bitmap);
+  } finally {
+    bitmap.close();
   }
+};
 
-  let bitCursor = 0;
-
-  // Function to write a bit to the next available channel LSB
-  const writeBit = (bit: number) => {
-    if (bitCursor >= totalCapacityBits) return;
-    
-    const pixelIndex = Math.floor(bitCursor / 3);
-    const channelOffset = bitCursor % 3; // 0=R, 1=G, 2=B
-    const dataIndex = pixelIndex * 4 + channelOffset;
+/**
+ * Decodes an input slot into frames. Several files form a sequence `delay`
+ * ms apart; a single GIF or APNG keeps its own frames and timing; anything
+ * else is a still.
+ */
+export const loadAnimation = async (files: Blob[], delay: number): Promise<AnimatedImage> => {
+  if (files.length > 1) return frameSequence(await Promise.all(files.map(loadRgba)), delay);
 
-    // Clear LSB and set new bit
-    data[dataIndex] = (data[dataIndex] & 0xFE) | (bit & 1);
-    
-    bitCursor++;
-  };
+  const bytes = new Uint8Array(await files[0].arrayBuffer());
+  if (isPng(bytes)) return decodeApng(bytes, inflate);
+  if (isGif(bytes)) return decodeGif(bytes);
+  return stillImage(await loadRgba(files[0]));
+};
 
-  // 1. Write Length (32 bits)
-  for (let i = 0; i < 32; i++) {
-    writeBit((length >> i) & 1);
-  }
+/** Format for secret images; browsers without WebP encoding fall back to PNG. */
+const SECRET_MIME = 'image/webp';
+const SECRET_QUALITY = 0.85;
+const SECRET_MIN_EDGE = 16;
 
-  // 2. Write Data Bytes
-  for (let i = 0; i < bytes.length; i++) {
-    const byte = bytes[i];
-    for (let j = 0; j < 8; j++) {
-      writeBit((byte >> j) & 1);
+/**
+ * Re-encodes the secret image small enough to fit `maxBytes`, downscaling
+ * until it does. Throws StegoCapacityError if even a tiny thumbnail won't fit.
+ */
+export const encodeSecretImage = async (img: ImageBitmap, maxBytes: number): Promise<StegoFile> => {
+  const canvas = new OffscreenCanvas(1, 1);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  let scale = 1;
+  let lastSize = 0;
+  while (Math.max(img.width, img.height) * scale >= SECRET_MIN_EDGE) {
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const blob = await canvas.convertToBlob({ type: SECRET_MIME, quality: SECRET_QUALITY });
+    if (blob.size <= maxBytes) {
+      return { mime: blob.type, bytes: new Uint8Array(await blob.arrayBuffer()) };
     }
+
+    // Encoded size scales roughly with area; overshoot a little to converge fast
+    lastSize = blob.size;
+    scale *= Math.min(0.9, Math.sqrt(maxBytes / blob.size));
   }
+
+  throw new StegoCapacityError(lastSize, Math.max(0, maxBytes));
 };
 
 /**
- * The Core Mirage Tank Algorithm.
+ * Encodes a blob as a data URL. Works on the main thread and in workers.
  */
-export const generateMirageTank = (
-  surfaceImg: HTMLImageElement,
-  hiddenImg: HTMLImageElement,
-  config: ProcessingConfig
-): Promise<string> => {
-  return new Promise((resolve) => {
-    // 1. Determine Output Dimensions
-    const width = config.width || Math.min(surfaceImg.width, hiddenImg.width);
-    const height = config.height || Math.min(surfaceImg.height, hiddenImg.height);
-
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
 
+/**
+ * A PNG data URL of the image at `url`, scaled down to at most `size` px on
+ * its long edge. Only for display: the canvas premultiplies alpha.
+ */
+export const createThumbnail = async (url: string, size: number): Promise<string> => {
+  const bitmap = await createImageBitmap(await (await fetch(url)).blob());
+  try {
+    const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+    const canvas = new OffscreenCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+    const ctx = canvas.getContext('2d');
     if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return blobToDataUrl(await canvas.convertToBlob({ type: 'image/png' }));
+  } finally {
+    bitmap.close();
+  }
+};
 
-    // 2. Draw and Get Data for Surface Image (Image A)
-    const dimA = getCoverDimensions(surfaceImg.width, surfaceImg.height, width, height);
-    ctx.clearRect(0, 0, width, height);
-    ctx.drawImage(surfaceImg, dimA.x, dimA.y, dimA.width, dimA.height);
-    const surfaceData = ctx.getImageData(0, 0, width, height);
-
-    // 3. Draw and Get Data for Hidden Image (Image B)
-    const dimB = getCoverDimensions(hiddenImg.width, hiddenImg.height, width, height);
-    ctx.clearRect(0, 0, width, height);
-    ctx.drawImage(hiddenImg, dimB.x, dimB.y, dimB.width, dimB.height);
-    const hiddenData = ctx.getImageData(0, 0, width, height);
-
-    // 4. Create Output Buffer
-    const resultData = ctx.createImageData(width, height);
-
-    // Pre-calculate linear mapping constants
-    const scaleA = (255 - config.surfaceMin) / 255;
-    const offsetA = config.surfaceMin;
-    const scaleB = config.hiddenMax / 255;
-    
-    const ditheringStrength = config.dithering * 10; // Scale 0-1 to reasonable noise amplitude
-
-    for (let i = 0; i < resultData.data.length; i += 4) {
-      // Input Pixel A (Surface)
-      let rA = surfaceData.data[i];
-      let gA = surfaceData.data[i + 1];
-      let bA = surfaceData.data[i + 2];
-
-      // Input Pixel B (Hidden)
-      let rB = hiddenData.data[i];
-      let gB = hiddenData.data[i + 1];
-      let bB = hiddenData.data[i + 2];
-
-      // --- Dithering ---
-      if (ditheringStrength > 0) {
-        const noise = (Math.random() - 0.5) * ditheringStrength;
-        rA += noise; gA += noise; bA += noise;
-        rB += noise; gB += noise; bB += noise;
-      }
-
-      if (config.grayscale) {
-        // --- Grayscale Mode ---
-        let lumA = 0.2126 * rA + 0.7152 * gA + 0.0722 * bA;
-        let lumB = 0.2126 * rB + 0.7152 * gB + 0.0722 * bB;
-
-        // Linear Mapping
-        lumA = Math.max(0, Math.min(255, lumA * scaleA + offsetA));
-        lumB = Math.max(0, Math.min(255, lumB * scaleB));
-
-        // Enforce A >= B
-        if (lumB > lumA) lumB = lumA;
-
-        // Calculate Alpha & Gray
-        const alpha = 255 - (lumA - lumB);
-        let gray = 0;
-        if (alpha > 0) {
-          gray = (lumB * 255) / alpha;
-        }
-
-        resultData.data[i] = gray;
-        resultData.data[i + 1] = gray;
-        resultData.data[i + 2] = gray;
-        resultData.data[i + 3] = alpha;
-
-      } else {
-        // --- Color Mode ---
-        // Map each channel independently
-        rA = Math.max(0, Math.min(255, rA * scaleA + offsetA));
-        gA = Math.max(0, Math.min(255, gA * scaleA + offsetA));
-        bA = Math.max(0, Math.min(255, bA * scaleA + offsetA));
-
-        rB = Math.max(0, Math.min(255, rB * scaleB));
-        gB = Math.max(0, Math.min(255, gB * scaleB));
-        bB = Math.max(0, Math.min(255, bB * scaleB));
-
-        // Enforce A >= B per channel (Clamp B down to A if needed)
-        // This desaturates the hidden image in problem areas but preserves the illusion
-        if (rB > rA) rB = rA;
-        if (gB > gA) gB = gA;
-        if (bB > bA) bB = bA;
-
-        // Calculate Alpha for each channel
-        // alpha_ch = 255 - (Ch_A - Ch_B)
-        const alphaR = 255 - (rA - rB);
-        const alphaG = 255 - (gA - gB);
-        const alphaB = 255 - (bA - bB);
-
-        // We must choose the HIGHEST alpha required by any channel to ensure full coverage.
-        // If we choose a lower alpha, one channel might need more opacity than we provide, 
-        // leading to it blowing out on white or black.
-        // However, choosing the max alpha means some channels will be more opaque than 
-        // theoretically perfect, leading to slight ghosting. This is the trade-off.
-        const finalAlpha = Math.max(alphaR, Math.max(alphaG, alphaB));
-
-        // Calculate resulting RGB
-        // Color = B / Alpha
-        let rOut = 0, gOut = 0, bOut = 0;
-        if (finalAlpha > 0) {
-          rOut = (rB * 255) / finalAlpha;
-          gOut = (gB * 255) / finalAlpha;
-          bOut = (bB * 255) / finalAlpha;
-        }
-
-        resultData.data[i] = rOut;
-        resultData.data[i + 1] = gOut;
-        resultData.data[i + 2] = bOut;
-        resultData.data[i + 3] = finalAlpha;
-      }
-    }
+/**
+ * Full pipeline from decoded inputs to a finished PNG, or an APNG when either
+ * input is animated. `onProgress` receives the fraction [0, 1] of the pixel
+ * loops done. `sources` go into the settings metadata when the config asks
+ * for hashes.
+ */
+export const generateMirageTank = async (
+  surface: AnimatedImage,
+  hidden: AnimatedImage,
+  config: ProcessingConfig,
+  secretImg: ImageBitmap | null = null,
+  onProgress?: (progress: number) => void,
+  sources: SourceHashes | null = null
+): Promise<ProcessedResult> => {
+  const secret = secretImg && {
+    mime: SECRET_MIME,
+    encode: (maxBytes: number) => encodeSecretImage(secretImg, maxBytes),
+  };
+  const { frames, duration, stegoCapacity, secretBytes, fidelity, heatmap, layers } =
+    await generateAnimatedMirage(surface, hidden, config, secret, onProgress);
+
+  const { width, height } = frames[0].image;
+  const metadata = createSettingsChunks(config, sources);
+  const png = frames.length > 1
+    ? encodeApng({ width, height, frames, loops: 0 }, metadata)
+    : encodePng(frames[0].image, metadata);
+  const [dataUrl, heatmapUrl] = await Promise.all([
+    blobToDataUrl(new Blob([png], { type: 'image/png' })),
+    blobToDataUrl(new Blob([encodePng(heatmap)], { type: 'image/png' })),
+  ]);
+  onProgress?.(1);
+  return {
+    dataUrl,
+    width,
+    height,
+    stegoCapacity,
+    secretBytes,
+    fidelity,
+    heatmapUrl,
+    frameCount: frames.length,
+    duration,
+    inspection: { ...layers, output: frames[0].image, config },
+  };
+};
 
-    // 5. Steganography
-    if (config.steganography && config.steganography.length > 0) {
-      embedSteganography(resultData.data, config.steganography);
-    }
+/**
+ * Re-encodes a finished result (PNG or APNG bytes) for download, keeping its
+ * metadata in PNG outputs.
+ */
+export const exportMirage = async (png: Uint8Array, options: ExportOptions): Promise<ExportResult> =>
+  exportImage(await decodeApng(png, inflate), options, readTextChunks(png));
 
-    // 6. Output
-    ctx.putImageData(resultData, 0, 0);
-    resolve(canvas.toDataURL('image/png'));
-  });
-};
\ No newline at end of file
+/**
+ * JPEG round trip through the canvas encoder, standing in for the platforms'.
+ */
+const jpegRoundTrip = async (image: RgbaImage, quality: number): Promise<RgbaImage> => {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return bitmapToRgba(bitmap);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Runs a finished result (PNG or APNG bytes; the first frame for animations)
+ * through each platform profile.
+ */
+export const simulatePlatforms = async (
+  png: Uint8Array,
+  profiles: PlatformProfile[]
+): Promise<PlatformSimulation[]> => {
+  const image = (await decodeApng(png, inflate)).frames[0].image;
+  const simulations: PlatformSimulation[] = [];
+  for (const profile of profiles) {
+    const { thumbnail, ...outcome } = await simulatePlatform(image, png.length, profile, jpegRoundTrip);
+    const thumbnailUrl = thumbnail
+      ? await blobToDataUrl(new Blob([encodePng(thumbnail)], { type: 'image/png' }))
+      : '';
+    simulations.push({ ...outcome, thumbnailUrl });
+  }
+  return simulations;
+};
@@ -0,0 +1,69 @@
+import { InspectionData } from '../types';
+import { getTargetMapping, mapHidden, mapSurface } from './mapping';
+import { getAdaptiveShift } from './adaptiveMapping';
+
+/**
+ * Per-pixel breakdown of a result, for debugging problem regions: what went
+ * in, what it was mapped to, and what came out. Mapping follows composeMirage
+ * without dithering noise.
+ */
+
+export interface PixelInfo {
+  x: number;
+  y: number;
+  /** Inputs after tone and framing, RGB. */
+  surface: number[];
+  hidden: number[];
+  /** Mapped targets: one value in grayscale mode, RGB in color mode. */
+  mappedSurface: number[];
+  mappedHidden: number[];
+  /** Floor lift of the adaptive mapping here, 0 when off. */
+  lift: number;
+  /** Whether the hidden target was above the surface target and got cut down. */
+  clamped: boolean;
+  output: number[];
+  /** The output composited over the light and the dark background, RGB. */
+  overLight: number[];
+  overDark: number[];
+}
+
+const luma = (d: Uint8ClampedArray, i: number) => 0.2126 * d[i] + 0.7152 * d[i + 1] + 0.0722 * d[i + 2];
+
+/**
+ * Returns a lookup by output pixel; out-of-bounds pixels give null.
+ * The adaptive shift is computed once, up front.
+ */
+export const createPixelInspector = ({ surface, hidden, output, config }: InspectionData) => {
+  const mapping = getTargetMapping(config);
+  const shift = getAdaptiveShift(surface, hidden, config);
+
+  return (x: number, y: number): PixelInfo | null => {
+    if (x < 0 || y < 0 || x >= output.width || y >= output.height) return null;
+    const p = y * output.width + x;
+    const i = p * 4;
+    const lift = shift ? shift[p] : 0;
+
+    const sourceA = config.grayscale ? [luma(surface.data, i)] : [0, 1, 2].map(c => surface.data[i + c]);
+    const sourceB = config.grayscale ? [luma(hidden.data, i)] : [0, 1, 2].map(c => hidden.data[i + c]);
+    const mappedSurface = sourceA.map(v => mapSurface(v, mapping, lift));
+    const mappedHidden = sourceB.map(v => mapHidden(v, mapping, lift));
+
+    const alpha = output.data[i + 3] / 255;
+    const over = (background: number[]) =>
+      [0, 1, 2].map(c => Math.round(output.data[i + c] * alpha + background[c] * (1 - alpha)));
+
+    return {
+      x,
+      y,
+      surface: [0, 1, 2].map(c => surface.data[i + c]),
+      hidden: [0, 1, 2].map(c => hidden.data[i + c]),
+      mappedSurface,
+      mappedHidden,
+      lift,
+      clamped: mappedHidden.some((v, c) => v > mappedSurface[c]),
+      output: [0, 1, 2, 3].map(c => output.data[i + c]),
+      overLight: over(mapping.light),
+      overDark: over(mapping.dark),
+    };
+  };
+};
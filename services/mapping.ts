@@ -0,0 +1,49 @@
+import { ProcessingConfig } from '../types';
+
+/**
+ * How source values become targets: the linear [surfaceMin, 255] and
+ * [0, hiddenMax] mappings, placed between the two backgrounds.
+ */
+
+/**
+ * Parses a #RRGGBB (or #RGB) color into [r, g, b], 0–255.
+ */
+export const parseHexColor = (hex: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) throw new Error(`Invalid color "${hex}", expected #RRGGBB`);
+  const digits = match[1].length === 3 ? match[1].replace(/./g, d => d + d) : match[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+/**
+ * Mapping constants for a config. A surface value v maps to v·scaleA + offsetA
+ * and a hidden value to v·scaleB. A mapped value m (0–255) is reproduced on
+ * channel c as dark[c] + m·span[c]/255, which keeps alpha = 255 − (A − B) exact.
+ */
+export const getTargetMapping = (config: ProcessingConfig) => {
+  const light = parseHexColor(config.lightBackground);
+  const dark = parseHexColor(config.darkBackground);
+  return {
+    scaleA: (255 - config.surfaceMin) / 255,
+    offsetA: config.surfaceMin,
+    scaleB: config.hiddenMax / 255,
+    light,
+    dark,
+    span: light.map((l, c) => l - dark[c]),
+  };
+};
+
+export type TargetMapping = ReturnType<typeof getTargetMapping>;
+
+/**
+ * Mapped surface value for source value v. Adaptive mapping raises the floor
+ * by `lift` (0 is the plain mapping), less so towards white.
+ */
+export const mapSurface = (v: number, mapping: TargetMapping, lift = 0) =>
+  Math.max(0, Math.min(255, v * mapping.scaleA + mapping.offsetA + lift * (1 - v / 255)));
+
+/**
+ * Mapped hidden value for source value v, with the ceiling lowered by `lift`.
+ */
+export const mapHidden = (v: number, mapping: TargetMapping, lift = 0) =>
+  Math.max(0, Math.min(255, v * mapping.scaleB - (lift * v) / 255));
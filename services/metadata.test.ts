@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from './mirageCore';
+import { createSettingsChunks, parseConfig, readSettings, restoreConfig, validateConfig } from './metadata';
+import { encodePng } from './png';
+
+const pixel = { width: 1, height: 1, data: new Uint8ClampedArray([0, 0, 0, 255]) };
+
+/** A PNG carrying `text` under the settings keyword, as anyone could write it. */
+const withSettingsText = (text: string) =>
+  encodePng(pixel, [{ type: 'tEXt', data: new TextEncoder().encode(`MirageTank\0${text}`) }]);
+
+describe('settings metadata', () => {
+  it('round-trips the config without the message and passphrase', () => {
+    const config = { ...DEFAULT_CONFIG, surfaceMin: 170, seed: 9, steganography: 'hi', steganographyPassphrase: 'pw' };
+    const settings = readSettings(encodePng(pixel, createSettingsChunks(config)));
+    assert.ok(settings);
+    assert.equal(typeof settings.software, 'string');
+    assert.equal(typeof settings.version, 'number');
+    assert.equal(settings.config.surfaceMin, 170);
+    assert.equal(settings.config.seed, 9);
+    assert.equal(settings.config.steganography, '');
+
+    const restored = restoreConfig(settings, { ...DEFAULT_CONFIG, steganography: 'kept' });
+    assert.equal(restored.surfaceMin, 170);
+    assert.equal(restored.steganography, 'kept');
+  });
+
+  it('drops fields of the wrong type', () => {
+    const settings = readSettings(withSettingsText(JSON.stringify({
+      version: { evil: true },
+      software: ['x'],
+      config: { surfaceMin: '200', hiddenMax: 90, grayscale: 1, steganographyChannels: [{}], surfaceTone: 'dark' },
+      sources: { surface: [1], hidden: [] },
+    })));
+    assert.ok(settings);
+    assert.equal(settings.version, undefined);
+    assert.equal(settings.software, undefined);
+    assert.equal(settings.sources, undefined);
+    assert.equal(settings.config.surfaceMin, DEFAULT_CONFIG.surfaceMin);
+    assert.equal(settings.config.hiddenMax, 90);
+    assert.equal(settings.config.grayscale, DEFAULT_CONFIG.grayscale);
+    assert.deepEqual(settings.config.steganographyChannels, DEFAULT_CONFIG.steganographyChannels);
+    assert.deepEqual(settings.config.surfaceTone, DEFAULT_CONFIG.surfaceTone);
+  });
+
+  it('drops numbers outside their range', () => {
+    const { config, rejected } = validateConfig({
+      steganographyBits: 5,
+      surfaceMin: 9999,
+      hiddenMax: -50,
+      adaptiveRadius: 1e12,
+      width: 1e9,
+      height: 300,
+      seed: 1.5,
+      dithering: Number.NaN,
+      hiddenTone: { blackPoint: 200, whitePoint: 100, gamma: 0 },
+    });
+    assert.equal(config.steganographyBits, DEFAULT_CONFIG.steganographyBits);
+    assert.equal(config.surfaceMin, DEFAULT_CONFIG.surfaceMin);
+    assert.equal(config.hiddenMax, DEFAULT_CONFIG.hiddenMax);
+    assert.equal(config.adaptiveRadius, DEFAULT_CONFIG.adaptiveRadius);
+    assert.equal(config.width, undefined);
+    assert.equal(config.height, 300);
+    assert.equal(config.seed, DEFAULT_CONFIG.seed);
+    assert.equal(config.dithering, DEFAULT_CONFIG.dithering);
+    assert.deepEqual(config.hiddenTone, DEFAULT_CONFIG.hiddenTone);
+    assert.deepEqual(rejected.sort(), [
+      'adaptiveRadius', 'dithering', 'hiddenMax', 'hiddenTone.blackPoint', 'hiddenTone.gamma',
+      'hiddenTone.whitePoint', 'seed', 'steganographyBits', 'surfaceMin', 'width',
+    ]);
+  });
+
+  it('drops values outside their set of choices', () => {
+    const { config, rejected } = validateConfig({
+      lightBackground: 'nope',
+      darkBackground: '#10203',
+      ditherAlgorithm: 'evil',
+      colorSolver: 'lab',
+      steganographyChannels: ['r', 'r', 'x'],
+      surfaceTransform: { fit: 'zoom', flipX: true },
+    });
+    assert.equal(config.lightBackground, DEFAULT_CONFIG.lightBackground);
+    assert.equal(config.darkBackground, DEFAULT_CONFIG.darkBackground);
+    assert.equal(config.ditherAlgorithm, DEFAULT_CONFIG.ditherAlgorithm);
+    assert.equal(config.colorSolver, 'lab');
+    assert.deepEqual(config.steganographyChannels, DEFAULT_CONFIG.steganographyChannels);
+    assert.deepEqual(config.surfaceTransform, { ...DEFAULT_CONFIG.surfaceTransform, flipX: true });
+    assert.deepEqual(rejected.sort(), [
+      'darkBackground', 'ditherAlgorithm', 'lightBackground', 'steganographyChannels', 'surfaceTransform.fit',
+    ]);
+  });
+
+  it('keeps every valid field and defaults missing ones', () => {
+    const config = { ...DEFAULT_CONFIG, lightBackground: '#ededed', steganographyChannels: ['b' as const], width: 640 };
+    assert.deepEqual(validateConfig(config), { config, rejected: [] });
+    assert.deepEqual(parseConfig({}), DEFAULT_CONFIG);
+    assert.deepEqual(parseConfig('junk'), DEFAULT_CONFIG);
+  });
+
+  it('ignores text that is not a settings record', () => {
+    assert.equal(readSettings(withSettingsText('not json')), null);
+    assert.equal(readSettings(withSettingsText('{"config": 3}')), null);
+    assert.equal(readSettings(encodePng(pixel)), null);
+    assert.equal(readSettings(new Uint8Array([1, 2, 3])), null);
+  });
+});
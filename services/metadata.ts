@@ -0,0 +1,291 @@
+import {
+  ColorSolver,
+  DitherAlgorithm,
+  EqualizeMode,
+  FitMode,
+  LayerTransform,
+  MirageSettings,
+  ProcessingConfig,
+  SourceHashes,
+  StegoChannel,
+  ToneAdjustments,
+} from '../types';
+import { PngChunk, readPngChunks } from './png';
+import { DEFAULT_CONFIG } from './mirageCore';
+
+/**
+ * Generation settings recorded in PNG text chunks: a tEXt "Software" tag and
+ * the full settings as JSON in an uncompressed iTXt chunk, which any metadata
+ * viewer can show. Pixels are untouched, so steganography is unaffected.
+ */
+
+/** iTXt keyword the settings are stored under. */
+export const SETTINGS_KEYWORD = 'MirageTank';
+
+export const SOFTWARE = 'Mirage Tank Factory';
+
+/** Bumped when the record changes incompatibly. */
+export const SETTINGS_VERSION = 1;
+
+/** Longest keyword the PNG spec allows. */
+const MAX_KEYWORD_LENGTH = 79;
+
+/** Text chunk types, carried over when an output is re-encoded. */
+const TEXT_CHUNKS = ['tEXt', 'iTXt', 'zTXt'];
+
+const latin1 = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0) & 0xFF);
+
+const createText = (keyword: string, text: string): PngChunk => ({
+  type: 'tEXt',
+  data: latin1(`${keyword}\0${text}`),
+});
+
+/**
+ * iTXt with no compression, language tag or translated keyword.
+ */
+const createInternationalText = (keyword: string, text: string): PngChunk => {
+  const head = latin1(`${keyword}\0\0\0\0\0`);
+  const body = new TextEncoder().encode(text);
+  const data = new Uint8Array(head.length + body.length);
+  data.set(head);
+  data.set(body, head.length);
+  return { type: 'iTXt', data };
+};
+
+/**
+ * Keyword and text of a tEXt or uncompressed iTXt chunk; null for anything else.
+ */
+const readText = (chunk: PngChunk): { keyword: string; text: string } | null => {
+  const end = chunk.data.indexOf(0);
+  if (end < 1 || end > MAX_KEYWORD_LENGTH) return null;
+  const keyword = String.fromCharCode(...chunk.data.subarray(0, end));
+  if (chunk.type === 'tEXt') {
+    return { keyword, text: new TextDecoder('latin1').decode(chunk.data.subarray(end + 1)) };
+  }
+  if (chunk.type !== 'iTXt' || chunk.data[end + 1] !== 0) return null;
+  // Skip the compression method, then the language tag and translated keyword
+  let offset = end + 3;
+  for (let field = 0; field < 2; field++) {
+    const next = chunk.data.indexOf(0, offset);
+    if (next < 0) return null;
+    offset = next + 1;
+  }
+  return { keyword, text: new TextDecoder().decode(chunk.data.subarray(offset)) };
+};
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of every input file.
+ */
+export const hashSources = async (surface: Uint8Array[], hidden: Uint8Array[]): Promise<SourceHashes> => {
+  const hashAll = (files: Uint8Array[]) =>
+    Promise.all(files.map(async bytes => toHex(await crypto.subtle.digest('SHA-256', bytes))));
+  const [surfaceHashes, hiddenHashes] = await Promise.all([hashAll(surface), hashAll(hidden)]);
+  return { surface: surfaceHashes, hidden: hiddenHashes };
+};
+
+/**
+ * Chunks recording `config` (and `sources`, if given), for encodePng and
+ * encodeApng. Empty when the config opts out.
+ */
+export const createSettingsChunks = (config: ProcessingConfig, sources: SourceHashes | null = null): PngChunk[] => {
+  if (!config.embedSettings) return [];
+  const settings: MirageSettings = {
+    version: SETTINGS_VERSION,
+    software: SOFTWARE,
+    config: { ...config, steganography: '', steganographyPassphrase: '' },
+    ...(sources && { sources }),
+  };
+  return [
+    createText('Software', SOFTWARE),
+    createInternationalText(SETTINGS_KEYWORD, JSON.stringify(settings)),
+  ];
+};
+
+/**
+ * The text chunks of a PNG, to keep its metadata through a re-encode.
+ */
+export const readTextChunks = (png: Uint8Array): PngChunk[] =>
+  readPngChunks(png).filter(chunk => TEXT_CHUNKS.includes(chunk.type));
+
+/**
+ * The settings recorded in a PNG, or null if it has none (or isn't a PNG).
+ */
+export const readSettings = (png: Uint8Array): MirageSettings | null => {
+  let chunks: PngChunk[];
+  try {
+    chunks = readPngChunks(png);
+  } catch {
+    return null;
+  }
+  for (const chunk of chunks) {
+    const entry = readText(chunk);
+    if (entry?.keyword !== SETTINGS_KEYWORD) continue;
+    try {
+      const settings = JSON.parse(entry.text);
+      if (settings && typeof settings === 'object' && settings.config && typeof settings.config === 'object') {
+        // Anyone can write this chunk: keep only fields of the expected type
+        const { version, software, sources } = settings;
+        const validSources = sources && ['surface', 'hidden'].every(key =>
+          Array.isArray(sources[key]) && sources[key].every((hash: unknown) => typeof hash === 'string'));
+        return {
+          version: typeof version === 'number' ? version : undefined,
+          software: typeof software === 'string' ? software : undefined,
+          config: parseConfig(settings.config),
+          sources: validSources ? { surface: sources.surface, hidden: sources.hidden } : undefined,
+        };
+      }
+    } catch {
+      // Not ours after all
+    }
+  }
+  return null;
+};
+
+/** The choices of each enumerated setting, also accepted by the CLI. */
+export const FIT_MODES: FitMode[] = ['cover', 'contain', 'stretch'];
+export const EQUALIZE_MODES: EqualizeMode[] = ['none', 'global', 'clahe'];
+export const COLOR_SOLVERS: ColorSolver[] = ['max-alpha', 'lab'];
+export const DITHER_ALGORITHMS: DitherAlgorithm[] = ['noise', 'bayer', 'blue-noise', 'floyd-steinberg'];
+
+/** Largest output width or height. */
+const MAX_OUTPUT_SIZE = 16384;
+
+/**
+ * Reads one stored field: the value if it is within the field's domain,
+ * otherwise `fallback`, with `path` added to `rejected`.
+ */
+type Field<V> = (value: unknown, fallback: V, path: string, rejected: string[]) => V;
+
+const isNumberIn = (value: unknown, min: number, max: number, integer: boolean): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+  && (!integer || Number.isInteger(value));
+
+const field = <V>(accepts: (value: unknown) => value is V): Field<V> => (value, fallback, path, rejected) => {
+  if (accepts(value)) return value;
+  rejected.push(path);
+  return fallback;
+};
+
+const number = (min: number, max: number, integer = false) =>
+  field((value): value is number => isNumberIn(value, min, max, integer));
+
+const choice = <T extends string>(choices: T[]) =>
+  field((value): value is T => choices.includes(value as T));
+
+const boolean = field((value): value is boolean => typeof value === 'boolean');
+const text = field((value): value is string => typeof value === 'string');
+const color = field((value): value is string => typeof value === 'string' && /^#[0-9A-F]{6}$/i.test(value));
+
+/** At least one of r, g and b, each at most once. */
+const channels = field((value): value is StegoChannel[] =>
+  Array.isArray(value) && value.length > 0 && new Set(value).size === value.length
+  && value.every(c => c === 'r' || c === 'g' || c === 'b'));
+
+/** Output size; unset (the default) means the size of the inputs. */
+const size = field((value): value is number | undefined => isNumberIn(value, 1, MAX_OUTPUT_SIZE, true));
+
+/**
+ * An object read field by field. Fields it lacks (older versions) keep their
+ * fallback without counting as rejected.
+ */
+const record = <T extends object>(fields: { [K in keyof T]-?: Field<T[K]> }): Field<T> =>
+  (value, fallback, path, rejected) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      rejected.push(path);
+      return fallback;
+    }
+    const source = value as Record<string, unknown>;
+    const merged = { ...fallback };
+    for (const key of Object.keys(fields) as (keyof T & string)[]) {
+      const next = source[key];
+      if (next === undefined || next === null) continue;
+      merged[key] = fields[key](next, fallback[key], path ? `${path}.${key}` : key, rejected);
+    }
+    return merged;
+  };
+
+const transform = record<LayerTransform>({
+  fit: choice(FIT_MODES),
+  offsetX: number(-10, 10),
+  offsetY: number(-10, 10),
+  zoom: number(0.01, 100),
+  rotation: number(-360, 360),
+  flipX: boolean,
+  flipY: boolean,
+});
+
+const toneFields = record<ToneAdjustments>({
+  blackPoint: number(0, 254, true),
+  whitePoint: number(1, 255, true),
+  gamma: number(0.1, 10),
+  contrast: number(-1, 1),
+  brightness: number(-1, 1),
+  equalize: choice(EQUALIZE_MODES),
+  invert: boolean,
+});
+
+/** Levels only make sense with the black point below the white point. */
+const tone: Field<ToneAdjustments> = (value, fallback, path, rejected) => {
+  const parsed = toneFields(value, fallback, path, rejected);
+  if (parsed.blackPoint < parsed.whitePoint) return parsed;
+  rejected.push(`${path}.blackPoint`, `${path}.whitePoint`);
+  return { ...parsed, blackPoint: fallback.blackPoint, whitePoint: fallback.whitePoint };
+};
+
+const config = record<ProcessingConfig>({
+  surfaceMin: number(0, 255, true),
+  hiddenMax: number(0, 255, true),
+  grayscale: boolean,
+  lightBackground: color,
+  darkBackground: color,
+  colorSolver: choice(COLOR_SOLVERS),
+  colorSolverWeight: number(0, 1),
+  dithering: number(0, 1),
+  ditherAlgorithm: choice(DITHER_ALGORITHMS),
+  seed: number(0, 0xFFFFFFFF, true),
+  steganography: text,
+  steganographyPassphrase: text,
+  steganographyBits: number(1, 2, true),
+  steganographyChannels: channels,
+  steganographySkipTransparent: boolean,
+  adaptiveMapping: number(0, 1),
+  adaptiveRadius: number(1, 1024, true),
+  frameDelay: number(10, 60000, true),
+  surfaceTransform: transform,
+  hiddenTransform: transform,
+  surfaceTone: tone,
+  hiddenTone: tone,
+  embedSettings: boolean,
+  embedSourceHashes: boolean,
+  width: size,
+  height: size,
+});
+
+/**
+ * A config from stored JSON, which anyone may have written. Fields it lacks
+ * (older versions) or that fall outside their domain get their defaults;
+ * `rejected` lists the latter by path, e.g. "hiddenTone.gamma".
+ */
+export const validateConfig = (value: unknown): { config: ProcessingConfig; rejected: string[] } => {
+  const rejected: string[] = [];
+  const recorded = value && typeof value === 'object' ? value : {};
+  return { config: config(recorded, DEFAULT_CONFIG, '', rejected), rejected };
+};
+
+/**
+ * A config from stored JSON, with invalid or missing fields defaulted.
+ */
+export const parseConfig = (value: unknown): ProcessingConfig => validateConfig(value).config;
+
+/**
+ * The config recorded in `settings`, keeping the message and passphrase
+ * from `current`.
+ */
+export const restoreConfig = (settings: MirageSettings, current: ProcessingConfig): ProcessingConfig => ({
+  ...settings.config,
+  steganography: current.steganography,
+  steganographyPassphrase: current.steganographyPassphrase,
+});
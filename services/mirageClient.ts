@@ -0,0 +1,148 @@
+import {
+  ExportOptions,
+  ExportResult,
+  PlatformProfile,
+  PlatformSimulation,
+  ProcessingConfig,
+  ProcessedResult,
+} from '../types';
+import type { MirageJobMessage, MirageJobRequest } from './mirageWorker';
+import { StegoCapacityError } from './steganography';
+
+export interface MirageJobInputs {
+  /** One file, or several forming a frame sequence. */
+  surface: File[];
+  hidden: File[];
+  secret: File | null;
+}
+
+export interface MirageJobOptions {
+  /** Aborting terminates the worker mid-loop; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+type JobKind = MirageJobRequest['type'];
+
+// One long-lived worker per kind of job, so aborting an export or a simulation
+// never takes a running generation down with it; replaced whenever one of its
+// jobs is aborted or it fails
+const workers: Record<JobKind, Worker | null> = { generate: null, export: null, simulate: null };
+let nextJobId = 1;
+
+const getWorker = (kind: JobKind) => {
+  let worker = workers[kind];
+  if (!worker) {
+    worker = new Worker(new URL('./mirageWorker.ts', import.meta.url), { type: 'module' });
+    workers[kind] = worker;
+  }
+  return worker;
+};
+
+const abortError = () => new DOMException('Processing aborted', 'AbortError');
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Posts a job to the worker for its kind and settles with the result.
+ * Errors are rethrown on this side with the same shape they had in the worker.
+ */
+const runJob = <T>(
+  job: DistributiveOmit<MirageJobRequest, 'id'>,
+  { signal, onProgress }: MirageJobOptions
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const id = nextJobId++;
+    const current = getWorker(job.type);
+
+    const cleanup = () => {
+      current.removeEventListener('message', handleMessage);
+      current.removeEventListener('error', handleError);
+      current.removeEventListener('messageerror', handleMessageError);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    // A worker that was killed or crashed can't be trusted with the next job
+    const discardWorker = () => {
+      cleanup();
+      current.terminate();
+      if (workers[job.type] === current) workers[job.type] = null;
+    };
+
+    const handleMessage = (e: MessageEvent<MirageJobMessage>) => {
+      const message = e.data;
+      if (message.id !== id) return;
+
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        cleanup();
+        resolve(message.result as T);
+      } else {
+        cleanup();
+        reject(message.capacity
+          ? new StegoCapacityError(message.capacity.required, message.capacity.available)
+          : new Error(message.message));
+      }
+    };
+
+    // The pixel loop never yields, so the only way to stop it is to kill the worker
+    const handleAbort = () => {
+      discardWorker();
+      reject(abortError());
+    };
+
+    // Uncaught errors (including a script that fails to load) and replies that
+    // can't be deserialized would otherwise leave the job pending forever
+    const handleError = (e: ErrorEvent) => {
+      e.preventDefault();
+      discardWorker();
+      reject(new Error(e.message || 'The processing worker failed'));
+    };
+
+    const handleMessageError = () => {
+      discardWorker();
+      reject(new Error('The processing worker sent a message that could not be read'));
+    };
+
+    current.addEventListener('message', handleMessage);
+    current.addEventListener('error', handleError);
+    current.addEventListener('messageerror', handleMessageError);
+    signal?.addEventListener('abort', handleAbort);
+
+    const request = { ...job, id } as MirageJobRequest;
+    current.postMessage(request);
+  });
+};
+
+/**
+ * Runs generateMirageTank in a Web Worker.
+ */
+export const runMirageJob = (
+  inputs: MirageJobInputs,
+  config: ProcessingConfig,
+  options: MirageJobOptions = {}
+): Promise<ProcessedResult> => runJob({ type: 'generate', ...inputs, config }, options);
+
+/**
+ * Re-encodes a result (PNG or APNG bytes) for download in a Web Worker.
+ */
+export const runExportJob = (
+  png: Uint8Array,
+  exportOptions: ExportOptions,
+  options: MirageJobOptions = {}
+): Promise<ExportResult> => runJob({ type: 'export', png, options: exportOptions }, options);
+
+/**
+ * Runs a result (PNG or APNG bytes) through chat platform profiles in a Web Worker.
+ */
+export const runSimulateJob = (
+  png: Uint8Array,
+  profiles: PlatformProfile[],
+  options: MirageJobOptions = {}
+): Promise<PlatformSimulation[]> => runJob({ type: 'simulate', png, profiles }, options);
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { ProcessingConfig, RgbaImage } from '../types';
+import { composeMirage, DEFAULT_CONFIG } from './mirageCore';
+
+const CONFIG: ProcessingConfig = { ...DEFAULT_CONFIG, dithering: 0 };
+
+const image = (width: number, height: number, pixel: (x: number, y: number) => number[]): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([...pixel(x, y), 255], (y * width + x) * 4);
+  }
+  return { width, height, data };
+};
+
+const swatches = (colors: number[][]) => image(4, 2, (x, y) => colors[y * 4 + x]);
+
+// White over black, black under white, equal grays and a few colors
+const surface = swatches([
+  [255, 255, 255], [0, 0, 0], [128, 128, 128], [200, 40, 90],
+  [30, 220, 160], [255, 0, 0], [64, 64, 64], [10, 200, 250],
+]);
+const hidden = swatches([
+  [0, 0, 0], [255, 255, 255], [128, 128, 128], [90, 200, 40],
+  [250, 10, 100], [0, 0, 255], [200, 200, 200], [40, 40, 40],
+]);
+
+const sha256 = (data: Uint8ClampedArray) => createHash('sha256').update(data).digest('hex');
+
+const gradientA = image(32, 32, (x, y) => [x * 8, y * 8, (x + y) * 4]);
+const gradientB = image(32, 32, (x, y) => [255 - y * 8, x * 8, 128]);
+
+/** What a pixel looks like composited onto a gray background. */
+const over = (data: Uint8ClampedArray, i: number, background: number) =>
+  (data[i] * data[i + 3] + background * (255 - data[i + 3])) / 255;
+
+describe('composeMirage', () => {
+  it('matches the grayscale golden output', () => {
+    const out = composeMirage(surface, hidden, { ...CONFIG, grayscale: true });
+    assert.deepEqual(Array.from(out.data), [
+      0, 0, 0, 0, 131, 131, 131, 195, 131, 131, 131, 98, 126, 126, 126, 131,
+      121, 121, 121, 56, 22, 22, 22, 82, 133, 133, 133, 150, 80, 80, 80, 50,
+    ]);
+  });
+
+  it('matches the color golden output', () => {
+    const out = composeMirage(surface, hidden, { ...CONFIG, grayscale: false });
+    assert.deepEqual(Array.from(out.data), [
+      0, 0, 0, 0, 131, 131, 131, 195, 131, 131, 131, 98, 57, 126, 25, 159,
+      137, 5, 55, 182, 0, 0, 131, 195, 133, 133, 133, 150, 37, 37, 37, 107,
+    ]);
+  });
+
+  it('matches the dithered golden outputs', () => {
+    const gray = composeMirage(gradientA, gradientB, { ...DEFAULT_CONFIG, grayscale: true });
+    const color = composeMirage(gradientA, gradientB, { ...DEFAULT_CONFIG, grayscale: false });
+    assert.equal(sha256(gray.data), 'ffd7dc1220d425ccd02b50dbb976741221ec92d3488935c9825e8370c95bc9f3');
+    assert.equal(sha256(color.data), '508f2820024916de2b194749190da4b2dcdc48fc3ce03926927f89a4e4463807');
+  });
+
+  it('dithers the same way every time for a given seed', () => {
+    for (const ditherAlgorithm of ['noise', 'bayer', 'blue-noise', 'floyd-steinberg'] as const) {
+      const config = { ...DEFAULT_CONFIG, ditherAlgorithm, seed: 7 };
+      const first = composeMirage(gradientA, gradientB, config);
+      assert.deepEqual(composeMirage(gradientA, gradientB, config), first, ditherAlgorithm);
+    }
+  });
+
+  it('shows the surface on white and the hidden image on black', () => {
+    const gray = image(16, 1, x => [x * 17, x * 17, x * 17]);
+    const reversed = image(16, 1, x => [255 - x * 17, 255 - x * 17, 255 - x * 17]);
+    const out = composeMirage(gray, reversed, CONFIG);
+    for (let x = 0; x < 16; x++) {
+      const a = CONFIG.surfaceMin + (x * 17 * (255 - CONFIG.surfaceMin)) / 255;
+      const b = Math.min(a, ((255 - x * 17) * CONFIG.hiddenMax) / 255);
+      assert.ok(Math.abs(over(out.data, x * 4, 255) - a) <= 1, `pixel ${x} on white`);
+      assert.ok(Math.abs(over(out.data, x * 4, 0) - b) <= 1, `pixel ${x} on black`);
+    }
+  });
+
+  it('rejects inputs of different sizes', () => {
+    assert.throws(() => composeMirage(surface, image(2, 2, () => [0, 0, 0]), CONFIG));
+  });
+});
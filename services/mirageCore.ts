@@ -0,0 +1,328 @@
+import { FidelityMetrics, ProcessingConfig, RgbaImage, StegoFile } from '../types';
+import { StegoLayout } from './stegoContainer';
+import { createQuantizer, createRandom } from './dither';
+import { solvePixelLab } from './colorSolver';
+import { getTargetMapping, mapHidden, mapSurface } from './mapping';
+import { getAdaptiveShift } from './adaptiveMapping';
+import { measureFidelity } from './fidelity';
+import { DEFAULT_TRANSFORM, renderLayer } from './framing';
+import { applyTone, DEFAULT_TONE } from './tone';
+import { embedSteganography, getStegoCapacity, getStegoPayloadSize, StegoCapacityError } from './steganography';
+
+/**
+ * DOM-free processing core. Everything here works on raw RGBA buffers, so it
+ * runs the same in the browser, in a worker and in Node.
+ */
+
+/**
+ * Settings a fresh session starts with, in the web app and the CLI alike.
+ */
+export const DEFAULT_CONFIG: ProcessingConfig = {
+  surfaceMin: 160, // Maps Surface to [160, 255]
+  hiddenMax: 100,  // Maps Hidden to [0, 100]
+  grayscale: true,
+  lightBackground: '#FFFFFF',
+  darkBackground: '#000000',
+  dithering: 1, // full-strength blue noise for smoother gradients
+  ditherAlgorithm: 'blue-noise',
+  colorSolver: 'max-alpha',
+  colorSolverWeight: 0.5,
+  seed: 1,
+  steganography: "",
+  steganographyPassphrase: "",
+  steganographyBits: 1,
+  steganographyChannels: ['r', 'g', 'b'],
+  steganographySkipTransparent: false,
+  adaptiveMapping: 0,
+  adaptiveRadius: 24,
+  frameDelay: 100,
+  surfaceTransform: DEFAULT_TRANSFORM,
+  hiddenTransform: DEFAULT_TRANSFORM,
+  surfaceTone: DEFAULT_TONE,
+  hiddenTone: DEFAULT_TONE,
+  embedSettings: true,
+  embedSourceHashes: false,
+};
+
+/**
+ * What uncovered frame areas are filled with: white surface and black hidden
+ * map to the top and bottom of their ranges, i.e. plain background.
+ */
+const SURFACE_FILL: [number, number, number] = [255, 255, 255];
+const HIDDEN_FILL: [number, number, number] = [0, 0, 0];
+
+/** Pixels processed between two progress reports. */
+const PROGRESS_INTERVAL = 1 << 16;
+
+/**
+ * Output size: explicit config values win, otherwise the smaller of the two inputs.
+ */
+export const getOutputSize = (
+  surface: Pick<RgbaImage, 'width' | 'height'>,
+  hidden: Pick<RgbaImage, 'width' | 'height'>,
+  config: ProcessingConfig
+) => ({
+  width: config.width || Math.min(surface.width, hidden.width),
+  height: config.height || Math.min(surface.height, hidden.height),
+});
+
+/**
+ * Tone-adjusts both inputs and frames them into a `width`×`height` output,
+ * ready for composeMirage.
+ */
+export const prepareLayers = (
+  surface: RgbaImage,
+  hidden: RgbaImage,
+  width: number,
+  height: number,
+  config: ProcessingConfig
+) => ({
+  surface: renderLayer(applyTone(surface, config.surfaceTone), width, height, config.surfaceTransform, SURFACE_FILL),
+  hidden: renderLayer(applyTone(hidden, config.hiddenTone), width, height, config.hiddenTransform, HIDDEN_FILL),
+});
+
+/**
+ * Steganography bit layout selected by the config.
+ */
+export const getStegoLayout = (config: ProcessingConfig): StegoLayout => ({
+  bitsPerChannel: config.steganographyBits,
+  channels: config.steganographyChannels,
+  skipTransparent: config.steganographySkipTransparent,
+});
+
+/**
+ * Bytes left for a secret file of type `mime` once the message is in.
+ */
+export const getSecretBudget = (capacity: number, config: ProcessingConfig, mime: string) => {
+  const empty = { mime, bytes: new Uint8Array(0) };
+  return capacity - getStegoPayloadSize({
+    text: config.steganography,
+    passphrase: config.steganographyPassphrase,
+    file: empty,
+  });
+};
+
+/**
+ * The Core Mirage Tank Algorithm.
+ * `surface` and `hidden` must already be the same size (see renderLayer).
+ * `onProgress` receives the fraction [0, 1] of the pixel loop done.
+ */
+export const composeMirage = (
+  surface: RgbaImage,
+  hidden: RgbaImage,
+  config: ProcessingConfig,
+  onProgress?: (progress: number) => void
+): RgbaImage => {
+  const { width, height } = surface;
+  if (hidden.width !== width || hidden.height !== height) {
+    throw new Error('Surface and hidden images must have the same size');
+  }
+  const out = new Uint8ClampedArray(width * height * 4);
+
+  // Pre-calculate linear mapping constants
+  const mapping = getTargetMapping(config);
+  const { light, dark, span } = mapping;
+  const neutral = light.every(v => v === light[0]) && dark.every(v => v === dark[0]);
+
+  // Adaptive mode lifts the surface floor and lowers the hidden ceiling by
+  // `lift` around conflicts; elsewhere lift stays 0 and this is the plain mapping
+  const shift = getAdaptiveShift(surface, hidden, config);
+  let lift = 0;
+  const mapA = (v: number) => mapSurface(v, mapping, lift);
+  const mapB = (v: number) => mapHidden(v, mapping, lift);
+
+  // Color for channel `c` that shows `overDark` on the dark background at `alpha`
+  const colorFor = (overDark: number, alpha: number, c: number) =>
+    Math.max(0, Math.min(255, ((overDark - ((255 - alpha) * dark[c]) / 255) * 255) / alpha));
+
+  // 'noise' perturbs the inputs; the other algorithms act in quantize()
+  const noiseStrength = config.ditherAlgorithm === 'noise' ? config.dithering * 10 : 0; // Scale 0-1 to reasonable noise amplitude
+  const random = createRandom(config.seed);
+  const quantize = createQuantizer(config.ditherAlgorithm, config.dithering, config.seed, width);
+
+  for (let i = 0; i < out.length; i += 4) {
+    const pixel = i / 4;
+    const x = pixel % width;
+    const y = (pixel - x) / width;
+    if (onProgress && pixel % PROGRESS_INTERVAL === 0) {
+      onProgress(i / out.length);
+    }
+    if (shift) lift = shift[pixel];
+
+    // Input Pixel A (Surface)
+    let rA = surface.data[i];
+    let gA = surface.data[i + 1];
+    let bA = surface.data[i + 2];
+
+    // Input Pixel B (Hidden)
+    let rB = hidden.data[i];
+    let gB = hidden.data[i + 1];
+    let bB = hidden.data[i + 2];
+
+    // --- Dithering ---
+    if (noiseStrength > 0) {
+      const noise = (random() - 0.5) * noiseStrength;
+      rA += noise; gA += noise; bA += noise;
+      rB += noise; gB += noise; bB += noise;
+    }
+
+    if (config.grayscale) {
+      // --- Grayscale Mode ---
+      let lumA = 0.2126 * rA + 0.7152 * gA + 0.0722 * bA;
+      let lumB = 0.2126 * rB + 0.7152 * gB + 0.0722 * bB;
+
+      // Linear Mapping
+      lumA = mapA(lumA);
+      lumB = mapB(lumB);
+
+      // Enforce A >= B
+      if (lumB > lumA) lumB = lumA;
+
+      // Calculate Alpha & Gray. Gray is derived from the quantized alpha so
+      // the two errors don't compound.
+      const alpha = quantize(255 - (lumA - lumB), x, y, 3);
+      if (alpha > 0 && neutral) {
+        const gray = quantize(colorFor(dark[0] + (lumB * span[0]) / 255, alpha, 0), x, y, 0);
+        out[i] = gray;
+        out[i + 1] = gray;
+        out[i + 2] = gray;
+      } else if (alpha > 0) {
+        // Tinted backgrounds need a tinted "gray" to cancel them out
+        for (let c = 0; c < 3; c++) {
+          out[i + c] = quantize(colorFor(dark[c] + (lumB * span[c]) / 255, alpha, c), x, y, c);
+        }
+      }
+      out[i + 3] = alpha;
+
+    } else {
+      // --- Color Mode ---
+      // Map each channel independently
+      rA = mapA(rA);
+      gA = mapA(gA);
+      bA = mapA(bA);
+
+      rB = mapB(rB);
+      gB = mapB(gB);
+      bB = mapB(bB);
+
+      // What the pixel should show over the dark background, per channel
+      const overDark = [0, 0, 0];
+      let alpha: number;
+      if (config.colorSolver === 'lab') {
+        // Search for the alpha and color closest to both targets instead
+        const toBackground = (v: number, c: number) => dark[c] + (v * span[c]) / 255;
+        const solved = solvePixelLab(
+          toBackground(rA, 0), toBackground(gA, 1), toBackground(bA, 2),
+          toBackground(rB, 0), toBackground(gB, 1), toBackground(bB, 2),
+          light, dark, config.colorSolverWeight
+        );
+        alpha = solved.alpha;
+        overDark[0] = solved.r; overDark[1] = solved.g; overDark[2] = solved.b;
+      } else {
+        // Enforce A >= B per channel (Clamp B down to A if needed)
+        // This desaturates the hidden image in problem areas but preserves the illusion
+        if (rB > rA) rB = rA;
+        if (gB > gA) gB = gA;
+        if (bB > bA) bB = bA;
+
+        // Calculate Alpha for each channel
+        // alpha_ch = 255 - (Ch_A - Ch_B)
+        const alphaR = 255 - (rA - rB);
+        const alphaG = 255 - (gA - gB);
+        const alphaB = 255 - (bA - bB);
+
+        // We must choose the HIGHEST alpha required by any channel to ensure full coverage.
+        // If we choose a lower alpha, one channel might need more opacity than we provide, 
+        // leading to it blowing out on white or black.
+        // However, choosing the max alpha means some channels will be more opaque than 
+        // theoretically perfect, leading to slight ghosting. This is the trade-off.
+        alpha = Math.max(alphaR, Math.max(alphaG, alphaB));
+
+        overDark[0] = dark[0] + (rB * span[0]) / 255;
+        overDark[1] = dark[1] + (gB * span[1]) / 255;
+        overDark[2] = dark[2] + (bB * span[2]) / 255;
+      }
+      const finalAlpha = quantize(alpha, x, y, 3);
+
+      // Calculate resulting RGB
+      // Color = B / Alpha (over black; colorFor generalizes to any dark background)
+      let rOut = 0, gOut = 0, bOut = 0;
+      if (finalAlpha > 0) {
+        rOut = quantize(colorFor(overDark[0], finalAlpha, 0), x, y, 0);
+        gOut = quantize(colorFor(overDark[1], finalAlpha, 1), x, y, 1);
+        bOut = quantize(colorFor(overDark[2], finalAlpha, 2), x, y, 2);
+      }
+
+      out[i] = rOut;
+      out[i + 1] = gOut;
+      out[i + 2] = bOut;
+      out[i + 3] = finalAlpha;
+    }
+  }
+
+  return { width, height, data: out };
+};
+
+/**
+ * Supplies the secret file once the room left for it is known. `encode` gets
+ * the byte budget and throws StegoCapacityError if it can't fit.
+ */
+export interface SecretSource {
+  mime: string;
+  encode: (maxBytes: number) => Promise<StegoFile>;
+}
+
+export interface MirageOutput {
+  image: RgbaImage;
+  stegoCapacity: number;
+  secretBytes: number;
+  fidelity: FidelityMetrics;
+  /** Per-pixel error overlay, see measureFidelity. */
+  heatmap: RgbaImage;
+  /** The inputs as composeMirage got them. */
+  layers: { surface: RgbaImage; hidden: RgbaImage };
+}
+
+/**
+ * Full pipeline from decoded inputs to final pixels: adjust and frame, compose, hide the
+ * message and secret file, then measure the result. Shared by the web app and the CLI so both produce
+ * the same pixels for the same inputs.
+ */
+export const generateMirage = async (
+  surface: RgbaImage,
+  hidden: RgbaImage,
+  config: ProcessingConfig,
+  secret: SecretSource | null = null,
+  onProgress?: (progress: number) => void
+): Promise<MirageOutput> => {
+  const { width, height } = getOutputSize(surface, hidden, config);
+  const layers = prepareLayers(surface, hidden, width, height, config);
+  const image = composeMirage(layers.surface, layers.hidden, config, onProgress);
+
+  // Steganography (async: encryption goes through WebCrypto)
+  const layout = getStegoLayout(config);
+  const stegoCapacity = getStegoCapacity(image.data, layout);
+
+  // The secret file gets whatever room the message leaves over
+  let file: StegoFile | undefined;
+  if (secret) {
+    const secretBudget = getSecretBudget(stegoCapacity, config, secret.mime);
+    try {
+      file = await secret.encode(secretBudget);
+    } catch (err) {
+      // Report against the whole payload, not just the leftover budget
+      if (err instanceof StegoCapacityError) {
+        throw new StegoCapacityError(err.required + stegoCapacity - secretBudget, stegoCapacity);
+      }
+      throw err;
+    }
+  }
+  await embedSteganography(image.data, {
+    text: config.steganography,
+    passphrase: config.steganographyPassphrase,
+    file,
+  }, layout);
+
+  const { metrics, heatmap } = measureFidelity(layers.surface, layers.hidden, image, config);
+  return { image, stegoCapacity, secretBytes: file ? file.bytes.length : 0, fidelity: metrics, heatmap, layers };
+};
@@ -0,0 +1,95 @@
+import {
+  ExportOptions,
+  ExportResult,
+  PlatformProfile,
+  PlatformSimulation,
+  ProcessingConfig,
+  ProcessedResult,
+} from '../types';
+import { exportMirage, generateMirageTank, loadAnimation, simulatePlatforms } from './imageProcessor';
+import { StegoCapacityError } from './steganography';
+import { hashSources } from './metadata';
+
+/**
+ * Worker entry point. Decodes the input files and runs the full pipeline off
+ * the main thread, re-encodes results for export and simulates chat platforms.
+ * Cancellation is done by the client terminating the worker.
+ */
+
+export type MirageJobRequest =
+  | {
+      type: 'generate';
+      id: number;
+      /** One file, or several forming a frame sequence. */
+      surface: File[];
+      hidden: File[];
+      secret: File | null;
+      config: ProcessingConfig;
+    }
+  | {
+      type: 'export';
+      id: number;
+      /** The result to re-encode, as PNG or APNG bytes. */
+      png: Uint8Array;
+      options: ExportOptions;
+    }
+  | {
+      type: 'simulate';
+      id: number;
+      /** The result to upload, as PNG or APNG bytes. */
+      png: Uint8Array;
+      profiles: PlatformProfile[];
+    };
+
+export type MirageJobMessage =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'done'; id: number; result: ProcessedResult | ExportResult | PlatformSimulation[] }
+  | {
+      type: 'error';
+      id: number;
+      message: string;
+      /** Set when the failure was a StegoCapacityError. */
+      capacity?: { required: number; available: number };
+    };
+
+const post = (message: MirageJobMessage) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<MirageJobRequest>) => {
+  const request = e.data;
+  const { id } = request;
+  try {
+    if (request.type === 'export') {
+      post({ type: 'done', id, result: await exportMirage(request.png, request.options) });
+      return;
+    }
+    if (request.type === 'simulate') {
+      post({ type: 'done', id, result: await simulatePlatforms(request.png, request.profiles) });
+      return;
+    }
+
+    const { surface, hidden, secret, config } = request;
+    const readAll = (files: File[]) => Promise.all(files.map(async file => new Uint8Array(await file.arrayBuffer())));
+    const [imgA, imgB, imgSecret, sources] = await Promise.all([
+      loadAnimation(surface, config.frameDelay),
+      loadAnimation(hidden, config.frameDelay),
+      secret ? createImageBitmap(secret) : null,
+      config.embedSettings && config.embedSourceHashes
+        ? Promise.all([readAll(surface), readAll(hidden)]).then(([a, b]) => hashSources(a, b))
+        : null,
+    ]);
+
+    const result = await generateMirageTank(imgA, imgB, config, imgSecret, progress => {
+      post({ type: 'progress', id, progress });
+    }, sources);
+    post({ type: 'done', id, result });
+  } catch (err) {
+    post({
+      type: 'error',
+      id,
+      message: err instanceof Error ? err.message : 'Processing failed',
+      capacity: err instanceof StegoCapacityError
+        ? { required: err.required, available: err.available }
+        : undefined,
+    });
+  }
+};
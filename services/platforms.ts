@@ -0,0 +1,220 @@
+import { PlatformProfile, PlatformSimulation, RgbaImage, SurvivalStatus } from '../types';
+import { parseHexColor } from './mapping';
+import { downscalePremultiplied } from './framing';
+import { shownSsim } from './fidelity';
+
+/**
+ * What chat platforms do to an upload, and whether the mirage survives it.
+ * Every step is compared with the untouched image at the same size over the
+ * platform's own themes, so plain resolution loss never counts against it;
+ * only changes to how the pixels look do.
+ */
+
+/**
+ * Observed behavior of the big chat apps, for the default "send as photo"
+ * path. Rough by nature; platforms change these without notice.
+ */
+export const PLATFORM_PROFILES: PlatformProfile[] = [
+  {
+    id: 'wechat',
+    name: 'WeChat',
+    maxUploadBytes: 0,
+    maxEdge: 1080,
+    jpegAbove: 0,
+    jpegQuality: 0.75,
+    flattenColor: '#FFFFFF',
+    thumbnailEdge: 240,
+    thumbnailJpeg: true,
+    lightTheme: '#EDEDED',
+    darkTheme: '#111111',
+  },
+  {
+    id: 'wechat-original',
+    name: 'WeChat (Original)',
+    maxUploadBytes: 25 * 1024 * 1024,
+    maxEdge: 0,
+    jpegAbove: null,
+    jpegQuality: 0.9,
+    flattenColor: '#FFFFFF',
+    thumbnailEdge: 240,
+    thumbnailJpeg: false,
+    lightTheme: '#EDEDED',
+    darkTheme: '#111111',
+  },
+  {
+    id: 'qq',
+    name: 'QQ',
+    maxUploadBytes: 0,
+    maxEdge: 0,
+    jpegAbove: 5 * 1024 * 1024,
+    jpegQuality: 0.85,
+    flattenColor: '#000000',
+    thumbnailEdge: 360,
+    thumbnailJpeg: false,
+    lightTheme: '#F5F5F5',
+    darkTheme: '#111111',
+  },
+  {
+    id: 'telegram',
+    name: 'Telegram',
+    maxUploadBytes: 10 * 1024 * 1024,
+    maxEdge: 1280,
+    jpegAbove: 0,
+    jpegQuality: 0.87,
+    flattenColor: '#FFFFFF',
+    thumbnailEdge: 320,
+    thumbnailJpeg: true,
+    lightTheme: '#FFFFFF',
+    darkTheme: '#0E1621',
+  },
+  {
+    id: 'discord',
+    name: 'Discord',
+    maxUploadBytes: 10 * 1024 * 1024,
+    maxEdge: 0,
+    jpegAbove: null,
+    jpegQuality: 0.9,
+    flattenColor: '#FFFFFF',
+    thumbnailEdge: 550,
+    thumbnailJpeg: false,
+    lightTheme: '#FFFFFF',
+    darkTheme: '#313338',
+  },
+];
+
+/** SSIM below which an image counts as lost. */
+const DESTROYED_SSIM = 0.5;
+
+/** SSIM below which the effect is visibly worse. */
+const DEGRADED_SSIM = 0.9;
+
+/**
+ * Encodes `image` as JPEG at `quality` (0–1) and decodes it again. Injected,
+ * since JPEG codecs are platform-specific.
+ */
+export type JpegRoundTrip = (image: RgbaImage, quality: number) => Promise<RgbaImage>;
+
+export interface PlatformOutcome extends Omit<PlatformSimulation, 'thumbnailUrl'> {
+  /** Null when the upload was rejected. */
+  thumbnail: RgbaImage | null;
+}
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Scales `image` so its longest edge is at most `maxEdge` (0 for no limit).
+ */
+const fitEdge = (image: RgbaImage, maxEdge: number): RgbaImage => {
+  const longest = Math.max(image.width, image.height);
+  if (!maxEdge || longest <= maxEdge) return image;
+  const scale = maxEdge / longest;
+  return downscalePremultiplied(
+    image,
+    Math.max(1, Math.round(image.width * scale)),
+    Math.max(1, Math.round(image.height * scale))
+  );
+};
+
+/**
+ * Composites `image` onto an opaque `color`, as every JPEG conversion does.
+ */
+const flatten = (image: RgbaImage, color: string): RgbaImage => {
+  const background = parseHexColor(color);
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = image.data[i + 3];
+    for (let c = 0; c < 3; c++) data[i + c] = (image.data[i + c] * a + background[c] * (255 - a)) / 255;
+    data[i + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+const statusOf = (ssim: number): SurvivalStatus =>
+  ssim < DESTROYED_SSIM ? 'destroyed' : ssim < DEGRADED_SSIM ? 'degraded' : 'ok';
+
+const WORST: SurvivalStatus[] = ['ok', 'degraded', 'destroyed'];
+
+/**
+ * Runs `image` (encoded as `fileBytes` bytes) through what `profile` does to
+ * an upload, and grades both the full view and the chat thumbnail.
+ */
+export const simulatePlatform = async (
+  image: RgbaImage,
+  fileBytes: number,
+  profile: PlatformProfile,
+  jpeg: JpegRoundTrip
+): Promise<PlatformOutcome> => {
+  const steps: string[] = [];
+  const warnings: string[] = [];
+
+  if (profile.maxUploadBytes && fileBytes > profile.maxUploadBytes) {
+    return {
+      profileId: profile.id,
+      status: 'destroyed',
+      steps: [`Rejected: ${formatBytes(fileBytes)} is over the ${formatBytes(profile.maxUploadBytes)} limit`],
+      warnings: ['The upload is rejected; export a smaller file'],
+      exact: false,
+      lightSsim: 0,
+      darkSsim: 0,
+      thumbnail: null,
+    };
+  }
+
+  // 1. Full view: downscale, then maybe JPEG
+  const reference = fitEdge(image, profile.maxEdge);
+  if (reference !== image) steps.push(`Scaled to ${reference.width}×${reference.height}`);
+
+  let full = reference;
+  const toJpeg = profile.jpegAbove !== null && fileBytes >= profile.jpegAbove;
+  if (toJpeg) {
+    full = await jpeg(flatten(reference, profile.flattenColor), profile.jpegQuality);
+    steps.push(`Converted to JPEG at quality ${Math.round(profile.jpegQuality * 100)}, transparency flattened onto ${profile.flattenColor}`);
+  } else {
+    steps.push('Kept as PNG');
+  }
+
+  // 2. Thumbnail, made from what the platform stored
+  const thumbnailReference = fitEdge(reference, profile.thumbnailEdge);
+  let thumbnail = fitEdge(full, profile.thumbnailEdge);
+  if (thumbnail !== full) steps.push(`Thumbnail ${thumbnail.width}×${thumbnail.height}`);
+  if (profile.thumbnailJpeg) {
+    thumbnail = await jpeg(flatten(thumbnail, profile.flattenColor), profile.jpegQuality);
+    if (!toJpeg) steps.push('Thumbnail recompressed as JPEG');
+  }
+
+  // 3. Grade over both themes
+  const light = parseHexColor(profile.lightTheme);
+  const dark = parseHexColor(profile.darkTheme);
+  const grade = (output: RgbaImage, original: RgbaImage) => ({
+    light: shownSsim(original, output, light),
+    dark: shownSsim(original, output, dark),
+  });
+  const views = [
+    { label: 'thumbnail', ...grade(thumbnail, thumbnailReference) },
+    { label: 'full view', ...grade(full, reference) },
+  ];
+
+  let status: SurvivalStatus = 'ok';
+  for (const view of views) {
+    for (const theme of ['light', 'dark'] as const) {
+      const viewStatus = statusOf(view[theme]);
+      if (WORST.indexOf(viewStatus) > WORST.indexOf(status)) status = viewStatus;
+      if (viewStatus === 'destroyed') {
+        warnings.push(`The ${theme} theme ${view.label} no longer shows the intended image`);
+      } else if (viewStatus === 'degraded') {
+        warnings.push(`The ${theme} theme ${view.label} is visibly degraded (SSIM ${view[theme].toFixed(2)})`);
+      }
+    }
+  }
+
+  return {
+    profileId: profile.id,
+    status,
+    steps,
+    warnings,
+    exact: full === image,
+    lightSsim: views[0].light,
+    darkSsim: views[0].dark,
+    thumbnail,
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { inflateSync } from 'node:zlib';
+import { RgbaImage } from '../types';
+import { decodePng, encodeIndexedPng, encodePng, isPng, readPngChunks, readPngFormat } from './png';
+
+const inflate = async (data: Uint8Array) => new Uint8Array(inflateSync(data));
+
+/** Deterministic pixels with every kind of alpha. */
+const noise = (width: number, height: number): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i++) data[i] = (i * 7919 + (i >> 3) * 31) % 256;
+  return { width, height, data };
+};
+
+describe('PNG', () => {
+  it('round-trips RGBA pixels exactly', async () => {
+    for (const [width, height] of [[1, 1], [3, 2], [37, 23], [256, 5]]) {
+      const image = noise(width, height);
+      const bytes = encodePng(image);
+      assert.ok(isPng(bytes));
+      assert.deepEqual(await decodePng(bytes, inflate), image);
+    }
+  });
+
+  it('keeps extra chunks ahead of the pixel data', () => {
+    const text = { type: 'tEXt', data: new TextEncoder().encode('Key\0value') };
+    const types = readPngChunks(encodePng(noise(2, 2), [text])).map(c => c.type);
+    assert.deepEqual(types, ['IHDR', 'tEXt', 'IDAT', 'IEND']);
+  });
+
+  it('round-trips palette images at every bit depth', async () => {
+    for (const colors of [2, 4, 16, 256]) {
+      const width = 19, height = 7;
+      const palette = new Uint8Array(colors * 4);
+      for (let i = 0; i < colors; i++) palette.set([i * 37 % 256, i * 11 % 256, 255 - i % 256, i < 2 ? 128 * i : 255], i * 4);
+      const indices = Uint8Array.from({ length: width * height }, (_, i) => (i * 5) % colors);
+
+      const decoded = await decodePng(encodeIndexedPng(width, height, indices, palette), inflate);
+      const expected = new Uint8ClampedArray(width * height * 4);
+      indices.forEach((index, i) => expected.set(palette.subarray(index * 4, index * 4 + 4), i * 4));
+      assert.deepEqual(decoded.data, expected, `${colors} colors`);
+    }
+  });
+
+  it('decodes Adam7-interlaced files', async () => {
+    // Written by libvips (sharp) from noise() of the same size
+    for (const [width, height] of [[1, 1], [3, 2], [9, 17], [37, 23]]) {
+      const bytes = new Uint8Array(readFileSync(new URL(`./fixtures/interlaced-${width}x${height}.png`, import.meta.url)));
+      assert.equal(readPngFormat(readPngChunks(bytes)).interlaced, true);
+      assert.deepEqual(await decodePng(bytes, inflate), noise(width, height), `${width}×${height}`);
+    }
+  });
+
+  it('rejects files that are not PNG', async () => {
+    assert.equal(isPng(new Uint8Array([1, 2, 3])), false);
+    await assert.rejects(decodePng(new Uint8Array([1, 2, 3]), inflate));
+  });
+});
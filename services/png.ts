@@ -0,0 +1,395 @@
+import { RgbaImage } from '../types';
+import { crc32 } from './crc32';
+import { zlibDeflate } from './deflate';
+
+/**
+ * Platform-independent PNG codec for 8-bit RGBA.
+ *
+ * Going through our own codec instead of canvas keeps pixel data exact: the
+ * browser stores canvas pixels premultiplied, which rounds away the low bits
+ * of translucent pixels (and with them any steganography payload).
+ */
+
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+/** Inflates a zlib stream. Supplied by the platform (zlib in Node, DecompressionStream in browsers). */
+export type Inflate = (data: Uint8Array) => Promise<Uint8Array>;
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export const isPng = (bytes: Uint8Array): boolean => {
+  if (bytes.length < PNG_SIGNATURE.length) return false;
+  return PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+};
+
+/**
+ * Splits a PNG file into its chunks, in file order. Throws on a bad signature,
+ * a truncated chunk or a CRC mismatch.
+ */
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const typeAndData = bytes.subarray(offset + 4, offset + 8 + length);
+    if (offset + 12 + length > bytes.length) throw new Error('Truncated PNG chunk');
+    if (crc32(typeAndData) !== view.getUint32(offset + 8 + length)) {
+      throw new Error('PNG chunk CRC mismatch');
+    }
+
+    const type = String.fromCharCode(...typeAndData.subarray(0, 4));
+    chunks.push({ type, data: typeAndData.subarray(4) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+
+  return chunks;
+};
+
+/**
+ * Serializes chunks into a PNG file (signature included).
+ */
+export const writePngChunks = (chunks: PngChunk[]): Uint8Array => {
+  const size = chunks.reduce((sum, c) => sum + 12 + c.data.length, PNG_SIGNATURE.length);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  out.set(PNG_SIGNATURE, 0);
+
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    view.setUint32(offset, chunk.data.length);
+    for (let i = 0; i < 4; i++) out[offset + 4 + i] = chunk.type.charCodeAt(i);
+    out.set(chunk.data, offset + 8);
+    view.setUint32(offset + 8 + chunk.data.length, crc32(out.subarray(offset + 4, offset + 8 + chunk.data.length)));
+    offset += 12 + chunk.data.length;
+  }
+
+  return out;
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+/**
+ * Filters and compresses RGBA pixels into a zlib stream, the payload of IDAT
+ * (and of APNG's fdAT). Each row gets the filter with the smallest sum of
+ * absolute differences (the usual libpng heuristic).
+ */
+export const encodeImageData = (image: RgbaImage): Uint8Array => {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const filtered = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const prior = row - stride;
+    let bestScore = Infinity;
+
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+      for (let x = 0; x < stride; x++) {
+        const cur = data[row + x];
+        const left = x >= 4 ? data[row + x - 4] : 0;
+        const up = y > 0 ? data[prior + x] : 0;
+        const upLeft = x >= 4 && y > 0 ? data[prior + x - 4] : 0;
+        let value: number;
+        switch (filter) {
+          case 0: value = cur; break;
+          case 1: value = cur - left; break;
+          case 2: value = cur - up; break;
+          case 3: value = cur - ((left + up) >> 1); break;
+          default: value = cur - paeth(left, up, upLeft);
+        }
+        value &= 0xFF;
+        candidate[x] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        filtered[y * (stride + 1)] = filter;
+        filtered.set(candidate, y * (stride + 1) + 1);
+      }
+    }
+  }
+
+  return zlibDeflate(filtered);
+};
+
+/**
+ * IHDR, by default for 8-bit RGBA.
+ */
+export const createIhdr = (width: number, height: number, bitDepth = 8, colorType = 6): PngChunk => {
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr[8] = bitDepth;
+  ihdr[9] = colorType;
+  // compression, filter method and interlace all 0
+  return { type: 'IHDR', data: ihdr };
+};
+
+/**
+ * Encodes RGBA pixels as a PNG. `extraChunks` are written between IHDR and IDAT.
+ */
+export const encodePng = (image: RgbaImage, extraChunks: PngChunk[] = []): Uint8Array => {
+  return writePngChunks([
+    createIhdr(image.width, image.height),
+    ...extraChunks,
+    { type: 'IDAT', data: encodeImageData(image) },
+    { type: 'IEND', data: new Uint8Array(0) },
+  ]);
+};
+
+/**
+ * Encodes a palette image as PNG8: PLTE plus tRNS for the translucent
+ * entries, which must come first in `palette` (RGBA, 4 bytes per entry).
+ * Small palettes get packed into 1, 2 or 4 bits per pixel. Rows stay
+ * unfiltered, which suits palette data best.
+ */
+export const encodeIndexedPng = (
+  width: number,
+  height: number,
+  indices: Uint8Array,
+  palette: Uint8Array,
+  extraChunks: PngChunk[] = []
+): Uint8Array => {
+  const colors = palette.length / 4;
+  const bitDepth = colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8;
+  const stride = Math.ceil((width * bitDepth) / 8);
+  const raw = new Uint8Array((stride + 1) * height);
+  const perByte = 8 / bitDepth;
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1) + 1;
+    for (let x = 0; x < width; x++) {
+      raw[row + Math.floor(x / perByte)] |= indices[y * width + x] << (8 - bitDepth * (1 + (x % perByte)));
+    }
+  }
+
+  const plte = new Uint8Array(colors * 3);
+  let translucent = 0;
+  for (let i = 0; i < colors; i++) {
+    plte.set(palette.subarray(i * 4, i * 4 + 3), i * 3);
+    if (palette[i * 4 + 3] < 255) translucent = i + 1;
+  }
+  const trns = Uint8Array.from({ length: translucent }, (_, i) => palette[i * 4 + 3]);
+
+  return writePngChunks([
+    createIhdr(width, height, bitDepth, 3),
+    ...extraChunks,
+    { type: 'PLTE', data: plte },
+    ...(translucent > 0 ? [{ type: 'tRNS', data: trns }] : []),
+    { type: 'IDAT', data: zlibDeflate(raw) },
+    { type: 'IEND', data: new Uint8Array(0) },
+  ]);
+};
+
+/** Channels per pixel for each PNG color type. */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Pixel format from IHDR, PLTE and tRNS; shared by all frames of an APNG. */
+export interface PngFormat {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  palette?: Uint8Array;
+  trns?: Uint8Array;
+  /** Adam7 interlacing. */
+  interlaced: boolean;
+}
+
+/**
+ * Reads the pixel format from a PNG's chunks.
+ */
+export const readPngFormat = (chunks: PngChunk[]): PngFormat => {
+  const ihdr = chunks.find(c => c.type === 'IHDR');
+  if (!ihdr) throw new Error('PNG is missing IHDR');
+
+  const header = new DataView(ihdr.data.buffer, ihdr.data.byteOffset, ihdr.data.length);
+  const colorType = ihdr.data[9];
+  if (!CHANNELS[colorType]) throw new Error(`Unsupported PNG color type ${colorType}`);
+  if (ihdr.data[12] > 1) throw new Error(`Unsupported PNG interlace method ${ihdr.data[12]}`);
+
+  return {
+    width: header.getUint32(0),
+    height: header.getUint32(4),
+    bitDepth: ihdr.data[8],
+    colorType,
+    palette: chunks.find(c => c.type === 'PLTE')?.data,
+    trns: chunks.find(c => c.type === 'tRNS')?.data,
+    interlaced: ihdr.data[12] === 1,
+  };
+};
+
+/**
+ * Concatenates chunk payloads, e.g. the IDAT stream split over several chunks.
+ */
+export const concatChunkData = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/**
+ * Adam7 passes as [x0, y0, dx, dy]: each covers the pixels at
+ * (x0 + i·dx, y0 + j·dy) and is stored as a small image of its own.
+ */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+] as const;
+
+/**
+ * Undoes the per-row filters of one `width`×`height` image starting at
+ * `offset` in `raw`. Returns the unfiltered rows and where the image ends.
+ */
+const unfilter = (raw: Uint8Array, offset: number, width: number, height: number, bitsPerPixel: number) => {
+  const bpp = Math.max(1, bitsPerPixel >> 3); // filter unit in bytes
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const end = offset + (stride + 1) * height;
+  if (raw.length < end) throw new Error('PNG image data is truncated');
+
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[offset + y * (stride + 1)];
+    const src = offset + y * (stride + 1) + 1;
+    const row = y * stride;
+    const prior = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bpp ? pixels[row + x - bpp] : 0;
+      const up = y > 0 ? pixels[prior + x] : 0;
+      const upLeft = x >= bpp && y > 0 ? pixels[prior + x - bpp] : 0;
+      let predictor = 0;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter ${filter}`);
+      }
+      pixels[row + x] = (raw[src + x] + predictor) & 0xFF;
+    }
+  }
+  return { pixels, stride, end };
+};
+
+/**
+ * Decodes one zlib image stream of `width`×`height` pixels in `format`
+ * (all color types, bit depths 1–16, plain or Adam7) into 8-bit RGBA.
+ */
+export const decodeImageData = async (
+  compressed: Uint8Array,
+  width: number,
+  height: number,
+  format: PngFormat,
+  inflate: Inflate
+): Promise<RgbaImage> => {
+  const { bitDepth, colorType, palette, trns } = format;
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+
+  const raw = await inflate(compressed);
+  const out = new Uint8ClampedArray(width * height * 4);
+
+  const sampleMax = (1 << bitDepth) - 1;
+  const to8 = (sample: number) => (bitDepth === 8 ? sample : Math.round((sample * 255) / sampleMax));
+
+  // tRNS for gray/RGB names one fully transparent color, in sample units
+  const trnsView = trns && new DataView(trns.buffer, trns.byteOffset, trns.length);
+  const transparentGray = colorType === 0 && trnsView && trns.length >= 2 ? trnsView.getUint16(0) : -1;
+  const transparentRgb = colorType === 2 && trnsView && trns.length >= 6
+    ? [trnsView.getUint16(0), trnsView.getUint16(2), trnsView.getUint16(4)]
+    : null;
+
+  /**
+   * Unfilters a (sub)image at `offset` and expands it to 8-bit RGBA at
+   * (x0 + x·dx, y0 + y·dy) of the output. Returns where it ends in `raw`.
+   */
+  const decodePass = (offset: number, passWidth: number, passHeight: number, x0: number, y0: number, dx: number, dy: number) => {
+    const { pixels, stride, end } = unfilter(raw, offset, passWidth, passHeight, bitsPerPixel);
+    const readSample = (y: number, index: number) => {
+      const row = y * stride;
+      if (bitDepth === 8) return pixels[row + index];
+      if (bitDepth === 16) return (pixels[row + index * 2] << 8) | pixels[row + index * 2 + 1];
+      const bit = index * bitDepth;
+      return (pixels[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & sampleMax;
+    };
+
+    for (let y = 0; y < passHeight; y++) {
+      for (let x = 0; x < passWidth; x++) {
+        const o = ((y0 + y * dy) * width + x0 + x * dx) * 4;
+        const s = x * channels;
+        if (colorType === 3) {
+          const index = readSample(y, s);
+          if (!palette || index * 3 + 2 >= palette.length) throw new Error('PNG palette index out of range');
+          out[o] = palette[index * 3];
+          out[o + 1] = palette[index * 3 + 1];
+          out[o + 2] = palette[index * 3 + 2];
+          out[o + 3] = trns && index < trns.length ? trns[index] : 255;
+        } else if (colorType === 0 || colorType === 4) {
+          const gray = readSample(y, s);
+          out[o] = out[o + 1] = out[o + 2] = to8(gray);
+          out[o + 3] = colorType === 4 ? to8(readSample(y, s + 1)) : (gray === transparentGray ? 0 : 255);
+        } else {
+          const r = readSample(y, s), g = readSample(y, s + 1), b = readSample(y, s + 2);
+          out[o] = to8(r);
+          out[o + 1] = to8(g);
+          out[o + 2] = to8(b);
+          out[o + 3] = colorType === 6
+            ? to8(readSample(y, s + 3))
+            : (transparentRgb && r === transparentRgb[0] && g === transparentRgb[1] && b === transparentRgb[2] ? 0 : 255);
+        }
+      }
+    }
+    return end;
+  };
+
+  if (!format.interlaced) {
+    decodePass(0, width, height, 0, 0, 1, 1);
+  } else {
+    // Empty passes (tiny images) have no bytes at all, not even filter bytes
+    let offset = 0;
+    for (const [x0, y0, dx, dy] of ADAM7_PASSES) {
+      const passWidth = Math.ceil((width - x0) / dx);
+      const passHeight = Math.ceil((height - y0) / dy);
+      if (passWidth <= 0 || passHeight <= 0) continue;
+      offset = decodePass(offset, passWidth, passHeight, x0, y0, dx, dy);
+    }
+  }
+
+  return { width, height, data: out };
+};
+
+/**
+ * Decodes any PNG (all color types, bit depths 1–16, plain or interlaced)
+ * into 8-bit RGBA. For an APNG this is the default image.
+ */
+export const decodePng = async (bytes: Uint8Array, inflate: Inflate): Promise<RgbaImage> => {
+  const chunks = readPngChunks(bytes);
+  const format = readPngFormat(chunks);
+  const idat = concatChunkData(chunks.filter(c => c.type === 'IDAT').map(c => c.data));
+  return decodeImageData(idat, format.width, format.height, format, inflate);
+};
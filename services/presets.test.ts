@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Preset } from '../types';
+import { DEFAULT_CONFIG } from './mirageCore';
+import { createPreset, exportPresets, importPresets, PRESET_FILE_VERSION } from './presets';
+
+const presetsFile = (presets: unknown) =>
+  JSON.stringify({ format: 'mirage-tank-presets', version: PRESET_FILE_VERSION, presets });
+
+describe('presets', () => {
+  it('round-trips through a presets file with fresh ids', () => {
+    const preset: Preset = { ...createPreset('Mine', { ...DEFAULT_CONFIG, surfaceMin: 190 }), description: 'dim' };
+    const { presets, dropped } = importPresets(exportPresets([preset]));
+    assert.deepEqual(dropped, []);
+    assert.equal(presets.length, 1);
+    assert.notEqual(presets[0].id, preset.id);
+    assert.deepEqual({ ...presets[0], id: preset.id }, preset);
+  });
+
+  it('keeps settings a preset leaves out unset', () => {
+    const { presets } = importPresets(presetsFile([{ name: 'Ranges', settings: { surfaceMin: 170, hiddenMax: 90 } }]));
+    assert.deepEqual(presets[0].settings, { surfaceMin: 170, hiddenMax: 90 });
+  });
+
+  it('drops invalid settings and says where they were', () => {
+    const { presets, dropped } = importPresets(presetsFile([
+      { name: 'Bad', settings: { surfaceMin: 9999, lightBackground: 'nope', ditherAlgorithm: 'evil', hiddenMax: 90 } },
+      { name: 'Bad tone', settings: { hiddenTone: { ...DEFAULT_CONFIG.hiddenTone, gamma: -1 }, steganographyBits: 5 } },
+      { settings: { surfaceMin: 170 } },
+      { name: 'Good', settings: { grayscale: false } },
+    ]));
+    assert.deepEqual(presets.map(p => p.settings), [{ hiddenMax: 90 }, {}, { grayscale: false }]);
+    assert.deepEqual(dropped, [
+      '"Bad": surfaceMin, lightBackground, ditherAlgorithm',
+      '"Bad tone": steganographyBits, hiddenTone.gamma',
+      'preset 3 (no name)',
+    ]);
+  });
+
+  it('rejects files that are not presets files', () => {
+    assert.throws(() => importPresets('not json'), /invalid JSON/);
+    assert.throws(() => importPresets('{"format": "other"}'), /Not a Mirage Tank presets file/);
+    assert.throws(() => importPresets(presetsFile(null).replace(`"version":${PRESET_FILE_VERSION}`, '"version":99')), /newer/);
+    assert.throws(() => importPresets(presetsFile([{ settings: {} }])), /no presets/);
+  });
+});
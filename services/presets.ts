@@ -0,0 +1,183 @@
+import { Preset, PresetSettings, ProcessingConfig } from '../types';
+import { validateConfig } from './metadata';
+import { PLATFORM_PROFILES } from './platforms';
+
+/**
+ * Named settings: built-in profiles for common targets plus the user's own,
+ * kept in localStorage and shared as JSON files.
+ */
+
+export const PRESET_STORAGE_KEY = 'mirage-tank-presets';
+
+/** Bumped when the file format changes incompatibly. */
+export const PRESET_FILE_VERSION = 1;
+
+const PRESET_FILE_FORMAT = 'mirage-tank-presets';
+
+/**
+ * A chat app's light and dark theme as backgrounds, with mapping bounds
+ * suited to it. Apps that re-encode to JPEG get a wider gap between the
+ * ranges, since compression blurs the two layers into each other.
+ */
+const platformPreset = (
+  profileId: string,
+  surfaceMin: number,
+  hiddenMax: number,
+  description: string
+): Preset => {
+  const profile = PLATFORM_PROFILES.find(p => p.id === profileId);
+  if (!profile) throw new Error(`Unknown platform profile "${profileId}"`);
+  return {
+    id: `builtin-${profileId}`,
+    name: profile.name,
+    description,
+    builtIn: true,
+    settings: { surfaceMin, hiddenMax, lightBackground: profile.lightTheme, darkBackground: profile.darkTheme },
+  };
+};
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  platformPreset('wechat', 175, 80, 'Light and dark chat themes; photos are recompressed, so the ranges sit far apart'),
+  platformPreset('wechat-original', 165, 95, 'Light and dark chat themes, sent as "Original"'),
+  platformPreset('qq', 165, 95, 'Light and dark chat themes'),
+  platformPreset('telegram', 170, 90, 'Day and night themes; photos are recompressed'),
+  platformPreset('discord', 155, 105, 'Light and dark themes; the gray dark theme leaves less contrast'),
+  {
+    id: 'builtin-high-contrast-hidden',
+    name: 'High Contrast Hidden',
+    description: 'Hidden image close to full contrast, surface washed out',
+    builtIn: true,
+    settings: { surfaceMin: 140, hiddenMax: 135, lightBackground: '#FFFFFF', darkBackground: '#000000' },
+  },
+  {
+    id: 'builtin-subtle-surface',
+    name: 'Subtle Surface',
+    description: 'Faint surface that barely gives the hidden image away',
+    builtIn: true,
+    settings: { surfaceMin: 215, hiddenMax: 110, lightBackground: '#FFFFFF', darkBackground: '#000000' },
+  },
+];
+
+/**
+ * The part of `config` a preset keeps.
+ */
+export const pickPresetSettings = (config: ProcessingConfig): PresetSettings => {
+  const {
+    steganography: _message,
+    steganographyPassphrase: _passphrase,
+    surfaceTransform: _surfaceTransform,
+    hiddenTransform: _hiddenTransform,
+    width: _width,
+    height: _height,
+    ...settings
+  } = config;
+  return settings;
+};
+
+export const applyPreset = (config: ProcessingConfig, preset: Preset): ProcessingConfig => ({
+  ...config,
+  ...preset.settings,
+});
+
+/**
+ * Whether `config` already has every setting of `preset`.
+ */
+export const matchesPreset = (config: ProcessingConfig, preset: Preset) =>
+  (Object.keys(preset.settings) as (keyof PresetSettings)[])
+    .every(key => JSON.stringify(config[key]) === JSON.stringify(preset.settings[key]));
+
+const newId = () => crypto.randomUUID();
+
+export const createPreset = (name: string, config: ProcessingConfig): Preset => ({
+  id: newId(),
+  name,
+  builtIn: false,
+  settings: pickPresetSettings(config),
+});
+
+/**
+ * The valid settings of a stored preset. Fields it leaves out stay out, so
+ * applying it keeps the current values; invalid fields are dropped whole and
+ * listed in `rejected`.
+ */
+const parsePresetSettings = (value: unknown) => {
+  const given = value && typeof value === 'object' ? value : {};
+  const { config, rejected } = validateConfig(given);
+  const isRejected = (key: string) => rejected.some(path => path === key || path.startsWith(`${key}.`));
+  const settings = Object.fromEntries(Object.entries(pickPresetSettings(config))
+    .filter(([key]) => key in given && !isRejected(key))) as Partial<PresetSettings>;
+  return { settings, rejected };
+};
+
+/**
+ * User presets from stored JSON. Entries without a name are dropped, as are
+ * settings outside their valid range; `dropped` says which, for the user.
+ */
+const parsePresets = (value: unknown): { presets: Preset[]; dropped: string[] } => {
+  if (!Array.isArray(value)) return { presets: [], dropped: [] };
+  const presets: Preset[] = [];
+  const dropped: string[] = [];
+  value.forEach((entry, i) => {
+    if (!entry || typeof entry !== 'object' || typeof entry.name !== 'string' || !entry.name.trim()) {
+      dropped.push(`preset ${i + 1} (no name)`);
+      return;
+    }
+    const name = entry.name.trim();
+    const { settings, rejected } = parsePresetSettings(entry.settings);
+    if (rejected.length > 0) dropped.push(`"${name}": ${rejected.join(', ')}`);
+    presets.push({
+      id: typeof entry.id === 'string' ? entry.id : newId(),
+      name,
+      ...(typeof entry.description === 'string' && { description: entry.description }),
+      builtIn: false,
+      settings,
+    });
+  });
+  return { presets, dropped };
+};
+
+/**
+ * The user's presets; empty if there are none or storage is unavailable.
+ */
+export const loadPresets = (): Preset[] => {
+  try {
+    const stored = localStorage.getItem(PRESET_STORAGE_KEY);
+    return stored ? parsePresets(JSON.parse(stored)).presets : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storePresets = (presets: Preset[]) => {
+  localStorage.setItem(PRESET_STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+};
+
+/**
+ * A presets file, for sharing.
+ */
+export const exportPresets = (presets: Preset[]): string =>
+  JSON.stringify({
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, description, settings }) => ({ name, description, settings })),
+  }, null, 2);
+
+/**
+ * The presets in a file from exportPresets, with fresh ids so they never
+ * collide with existing ones. `dropped` lists what was left out as invalid.
+ */
+export const importPresets = (text: string): { presets: Preset[]; dropped: string[] } => {
+  let file: { format?: unknown; version?: unknown; presets?: unknown };
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Not a presets file: invalid JSON.');
+  }
+  if (!file || file.format !== PRESET_FILE_FORMAT) throw new Error('Not a Mirage Tank presets file.');
+  if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+    throw new Error(`Presets file version ${file.version} is newer than this build supports.`);
+  }
+  const { presets, dropped } = parsePresets(file.presets);
+  if (presets.length === 0) throw new Error('The presets file has no presets.');
+  return { presets: presets.map(preset => ({ ...preset, id: newId() })), dropped };
+};
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MirageProject } from '../types';
+import { DEFAULT_CONFIG } from './mirageCore';
+import { createProjectFile, PROJECT_MAGIC, readProjectFile } from './project';
+
+const file = (name: string, bytes: number[]) => new File([new Uint8Array(bytes)], name, { type: 'image/png' });
+
+/** A project file with `manifest` written as is, as anyone could. */
+const handmade = (manifest: unknown) => {
+  const json = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(11);
+  header.set(PROJECT_MAGIC);
+  header[6] = 1;
+  new DataView(header.buffer).setUint32(7, json.length, true);
+  return new Blob([header, json]);
+};
+
+describe('project files', () => {
+  it('round-trips settings and inputs', async () => {
+    const project: MirageProject = {
+      config: { ...DEFAULT_CONFIG, surfaceMin: 180, steganography: 'hi' },
+      surface: [file('a.png', [1, 2, 3])],
+      hidden: [file('b.png', [4]), file('c.png', [5, 6])],
+      secret: file('s.bin', [7]),
+    };
+    const read = await readProjectFile(createProjectFile(project));
+    assert.deepEqual(read.config, project.config);
+    assert.deepEqual(read.hidden.map(f => f.name), ['b.png', 'c.png']);
+    assert.deepEqual(new Uint8Array(await read.hidden[1].arrayBuffer()), new Uint8Array([5, 6]));
+    assert.equal(read.secret?.name, 's.bin');
+  });
+
+  it('leaves out what a passphrase would have encrypted', async () => {
+    const project: MirageProject = {
+      config: { ...DEFAULT_CONFIG, steganography: 'hi', steganographyPassphrase: 'pw' },
+      surface: [],
+      hidden: [],
+      secret: file('s.bin', [7]),
+    };
+    const read = await readProjectFile(createProjectFile(project));
+    assert.equal(read.config.steganography, '');
+    assert.equal(read.config.steganographyPassphrase, '');
+    assert.equal(read.secret, null);
+  });
+
+  it('rejects settings outside their valid range', async () => {
+    const blob = handmade({ config: { ...DEFAULT_CONFIG, lightBackground: 'nope', hiddenMax: -50 }, files: [] });
+    await assert.rejects(readProjectFile(blob), /invalid settings: hiddenMax, lightBackground/);
+  });
+
+  it('defaults settings older versions did not have', async () => {
+    const read = await readProjectFile(handmade({ config: { surfaceMin: 200 }, files: [] }));
+    assert.deepEqual(read.config, { ...DEFAULT_CONFIG, surfaceMin: 200 });
+  });
+});
@@ -0,0 +1,108 @@
+import { MirageProject } from '../types';
+import { validateConfig } from './metadata';
+
+/**
+ * Project file layout (multi-byte fields Little Endian):
+ *
+ *   offset  size  field
+ *   0       6     magic "MTPROJ"
+ *   6       1     format version
+ *   7       4     manifest length in bytes
+ *   11      n     manifest, UTF-8 JSON (see ProjectManifest)
+ *   ...           the files, back to back in manifest order
+ *
+ * The passphrase is never written. Neither is anything it would have
+ * encrypted: with a passphrase set, the message and secret file are left out
+ * too, so reopening the project can't embed them in the clear.
+ */
+export const PROJECT_MAGIC = new Uint8Array([0x4D, 0x54, 0x50, 0x52, 0x4F, 0x4A]); // "MTPROJ"
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = 'mtproj';
+
+const HEADER_BYTES = 11;
+
+type ProjectSlot = 'surface' | 'hidden' | 'secret';
+
+interface ProjectManifest {
+  config: unknown;
+  files: { slot: ProjectSlot; name: string; type: string; lastModified: number; size: number }[];
+}
+
+/**
+ * Bundles `project` into one file.
+ */
+export const createProjectFile = (project: MirageProject): Blob => {
+  const encrypted = project.config.steganographyPassphrase !== '';
+  const secret = encrypted ? null : project.secret;
+  const files = [
+    ...project.surface.map(file => ({ slot: 'surface' as const, file })),
+    ...project.hidden.map(file => ({ slot: 'hidden' as const, file })),
+    ...(secret ? [{ slot: 'secret' as const, file: secret }] : []),
+  ];
+  const manifest: ProjectManifest = {
+    config: {
+      ...project.config,
+      steganography: encrypted ? '' : project.config.steganography,
+      steganographyPassphrase: '',
+    },
+    files: files.map(({ slot, file }) => ({
+      slot,
+      name: file.name,
+      type: file.type,
+      lastModified: file.lastModified,
+      size: file.size,
+    })),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(PROJECT_MAGIC);
+  header[6] = PROJECT_VERSION;
+  new DataView(header.buffer).setUint32(7, json.length, true);
+  return new Blob([header, json, ...files.map(({ file }) => file)], { type: 'application/octet-stream' });
+};
+
+/**
+ * Unpacks a project file. Throws if it isn't one, was written by a newer
+ * version, or holds settings outside their valid range, which this app never
+ * writes.
+ */
+export const readProjectFile = async (blob: Blob): Promise<MirageProject> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (bytes.length < HEADER_BYTES || PROJECT_MAGIC.some((b, i) => bytes[i] !== b)) {
+    throw new Error('Not a Mirage Tank project file.');
+  }
+  if (bytes[6] > PROJECT_VERSION) {
+    throw new Error(`Project file version ${bytes[6]} is newer than this build supports.`);
+  }
+  const length = new DataView(bytes.buffer, bytes.byteOffset).getUint32(7, true);
+  let offset = HEADER_BYTES + length;
+  if (offset > bytes.length) throw new Error('Project file is truncated.');
+
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(bytes.subarray(HEADER_BYTES, offset)));
+  } catch {
+    throw new Error('Project file is corrupt.');
+  }
+  if (!manifest || !Array.isArray(manifest.files)) throw new Error('Project file is corrupt.');
+
+  const { config, rejected } = validateConfig(manifest.config);
+  if (rejected.length > 0) throw new Error(`Project file has invalid settings: ${rejected.join(', ')}.`);
+
+  const project: MirageProject = { config, surface: [], hidden: [], secret: null };
+  for (const entry of manifest.files) {
+    const end = offset + entry.size;
+    if (!Number.isInteger(entry.size) || entry.size < 0 || end > bytes.length) {
+      throw new Error('Project file is truncated.');
+    }
+    const file = new File([bytes.slice(offset, end)], String(entry.name), {
+      type: String(entry.type ?? ''),
+      lastModified: Number(entry.lastModified) || Date.now(),
+    });
+    offset = end;
+    if (entry.slot === 'surface') project.surface.push(file);
+    else if (entry.slot === 'hidden') project.hidden.push(file);
+    else if (entry.slot === 'secret') project.secret = file;
+  }
+  return project;
+};
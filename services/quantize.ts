@@ -0,0 +1,278 @@
+import { RgbaImage } from '../types';
+import { parseHexColor } from './mapping';
+
+/**
+ * Alpha-aware palette quantization for PNG8 export.
+ *
+ * Plain RGBA quantizers treat alpha as a fourth color channel, which wrecks
+ * a mirage: two pixels that look alike over white can look nothing alike over
+ * black. Here every color is measured by how it looks over both target
+ * backgrounds (six values), so the palette keeps both images intact.
+ * Averages are taken on premultiplied color, where compositing is linear.
+ */
+
+/** k-means passes after the median cut. */
+const REFINE_PASSES = 3;
+
+/** Unique colors the palette is fitted to; beyond this a spread-out subset is used. */
+const MAX_TRAINING_COLORS = 1 << 14;
+
+export interface QuantizedImage {
+  width: number;
+  height: number;
+  /** RGBA entries, 4 bytes each, sorted so the opaque ones come last. */
+  palette: Uint8Array;
+  indices: Uint8Array;
+}
+
+interface ColorSet {
+  /** Unique colors as RGBA. */
+  rgba: Uint32Array;
+  /** Pixels of each color. */
+  counts: Float64Array;
+  /** The color over the light and the dark background, 6 per color. */
+  shown: Float32Array;
+}
+
+const packRgba = (d: Uint8ClampedArray, i: number) =>
+  ((d[i] << 24) | (d[i + 1] << 16) | (d[i + 2] << 8) | d[i + 3]) >>> 0;
+
+/**
+ * Maps colors into the six-value appearance space for the given backgrounds.
+ */
+const appearance = (light: number[], dark: number[]) => (rgba: number, out: Float32Array, o: number) => {
+  const a = (rgba & 0xFF) / 255;
+  for (let c = 0; c < 3; c++) {
+    const v = ((rgba >>> (24 - 8 * c)) & 0xFF) * a;
+    out[o + c] = v + light[c] * (1 - a);
+    out[o + 3 + c] = v + dark[c] * (1 - a);
+  }
+};
+
+const distance = (shown: Float32Array, i: number, palette: Float32Array, p: number) => {
+  let sum = 0;
+  for (let k = 0; k < 6; k++) {
+    const d = shown[i + k] - palette[p + k];
+    sum += d * d;
+  }
+  return sum;
+};
+
+/**
+ * Nearest-entry lookup. Entries are sorted by the sum of their six values,
+ * and since (Σd)² ≤ 6·Σd², the search can stop once that sum alone is
+ * farther off than the best match so far.
+ */
+const createMatcher = (entries: Float32Array) => {
+  const count = entries.length / 6;
+  const sums = new Float32Array(count);
+  for (let p = 0; p < count; p++) {
+    for (let k = 0; k < 6; k++) sums[p] += entries[p * 6 + k];
+  }
+  const order = Array.from({ length: count }, (_, p) => p).sort((a, b) => sums[a] - sums[b]);
+
+  return (shown: Float32Array, i: number) => {
+    let sum = 0;
+    for (let k = 0; k < 6; k++) sum += shown[i + k];
+    // First entry with a sum at or above ours
+    let lo = 0, hi = count;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sums[order[mid]] < sum) lo = mid + 1;
+      else hi = mid;
+    }
+    let best = -1, bestDistance = Infinity;
+    for (let up = lo, down = lo - 1; up < count || down >= 0;) {
+      if (up < count) {
+        const p = order[up++];
+        const gap = sums[p] - sum;
+        if (gap * gap > 6 * bestDistance) up = count;
+        else {
+          const d = distance(shown, i, entries, p * 6);
+          if (d < bestDistance) { bestDistance = d; best = p; }
+        }
+      }
+      if (down >= 0) {
+        const p = order[down--];
+        const gap = sum - sums[p];
+        if (gap * gap > 6 * bestDistance) down = -1;
+        else {
+          const d = distance(shown, i, entries, p * 6);
+          if (d < bestDistance) { bestDistance = d; best = p; }
+        }
+      }
+    }
+    return best;
+  };
+};
+
+/**
+ * Every `step`-th color, keeping its pixel count.
+ */
+const subset = (set: ColorSet, step: number): ColorSet => {
+  const picks = Array.from({ length: Math.floor(set.rgba.length / step) }, (_, k) => Math.floor(k * step));
+  return {
+    rgba: Uint32Array.from(picks, i => set.rgba[i]),
+    counts: Float64Array.from(picks, i => set.counts[i]),
+    shown: Float32Array.from({ length: picks.length * 6 }, (_, j) => set.shown[picks[Math.floor(j / 6)] * 6 + (j % 6)]),
+  };
+};
+
+/**
+ * Splits the colors into at most `maxColors` boxes, always cutting the box
+ * with the largest pixel-weighted spread at the weighted median of its
+ * widest axis. Returns the boxes as lists of color indices.
+ */
+const medianCut = (set: ColorSet, maxColors: number): number[][] => {
+  const spread = (box: number[]) => {
+    let best = 0, axis = 0;
+    let total = 0;
+    for (let k = 0; k < 6; k++) {
+      let w = 0, s = 0, ss = 0;
+      for (const i of box) {
+        const v = set.shown[i * 6 + k];
+        w += set.counts[i];
+        s += v * set.counts[i];
+        ss += v * v * set.counts[i];
+      }
+      const sse = ss - (s * s) / w;
+      total += sse;
+      if (sse > best) { best = sse; axis = k; }
+    }
+    return { total, axis };
+  };
+
+  const all = Array.from({ length: set.rgba.length }, (_, i) => i);
+  const boxes = [{ colors: all, ...spread(all) }];
+
+  while (boxes.length < maxColors) {
+    let target = -1;
+    for (let b = 0; b < boxes.length; b++) {
+      if (boxes[b].colors.length > 1 && (target < 0 || boxes[b].total > boxes[target].total)) target = b;
+    }
+    if (target < 0 || boxes[target].total <= 0) break;
+
+    const { colors, axis } = boxes[target];
+    colors.sort((a, b) => set.shown[a * 6 + axis] - set.shown[b * 6 + axis]);
+    let half = 0;
+    for (const i of colors) half += set.counts[i];
+    half /= 2;
+    let cut = 1;
+    for (let seen = set.counts[colors[0]]; cut < colors.length - 1 && seen + set.counts[colors[cut]] <= half; cut++) {
+      seen += set.counts[colors[cut]];
+    }
+    const lower = colors.slice(0, cut);
+    const upper = colors.slice(cut);
+    boxes.splice(target, 1, { colors: lower, ...spread(lower) }, { colors: upper, ...spread(upper) });
+  }
+
+  return boxes.map(box => box.colors);
+};
+
+/**
+ * Pixel-weighted mean of colors on premultiplied RGBA, back to straight RGBA.
+ */
+const meanColor = (set: ColorSet, colors: Iterable<number>) => {
+  let r = 0, g = 0, b = 0, a = 0, w = 0;
+  for (const i of colors) {
+    const rgba = set.rgba[i];
+    const alpha = rgba & 0xFF;
+    const weight = set.counts[i];
+    r += (rgba >>> 24) * alpha * weight;
+    g += ((rgba >>> 16) & 0xFF) * alpha * weight;
+    b += ((rgba >>> 8) & 0xFF) * alpha * weight;
+    a += alpha * weight;
+    w += weight;
+  }
+  if (a === 0) return 0;
+  const unpremultiply = (v: number) => Math.min(255, Math.round(v / a));
+  return ((unpremultiply(r) << 24) | (unpremultiply(g) << 16) | (unpremultiply(b) << 8) | Math.round(a / w)) >>> 0;
+};
+
+/**
+ * Reduces `image` to at most `maxColors` (2–256) colors, judged by how they
+ * look over `lightBackground` and `darkBackground` (#RRGGBB). Images that
+ * already have few enough colors come back exact.
+ */
+export const quantizeImage = (
+  image: RgbaImage,
+  maxColors: number,
+  lightBackground: string,
+  darkBackground: string
+): QuantizedImage => {
+  const { width, height, data } = image;
+  const pixels = width * height;
+  const toShown = appearance(parseHexColor(lightBackground), parseHexColor(darkBackground));
+
+  // 1. Unique colors and how often each occurs
+  const lookup = new Map<number, number>();
+  const pixelColor = new Uint32Array(pixels);
+  const found: number[] = [];
+  const counts: number[] = [];
+  for (let p = 0; p < pixels; p++) {
+    const rgba = packRgba(data, p * 4);
+    let index = lookup.get(rgba);
+    if (index === undefined) {
+      index = found.length;
+      lookup.set(rgba, index);
+      found.push(rgba);
+      counts.push(0);
+    }
+    counts[index]++;
+    pixelColor[p] = index;
+  }
+  const set: ColorSet = {
+    rgba: Uint32Array.from(found),
+    counts: Float64Array.from(counts),
+    shown: new Float32Array(found.length * 6),
+  };
+  set.rgba.forEach((rgba, i) => toShown(rgba, set.shown, i * 6));
+  const toShownAll = (colors: Uint32Array) => {
+    const shown = new Float32Array(colors.length * 6);
+    colors.forEach((rgba, i) => toShown(rgba, shown, i * 6));
+    return shown;
+  };
+
+  // 2. Palette: the colors themselves if they fit, else median cut refined by
+  // k-means on (a subset of) the colors, then every color to its nearest entry
+  let entries: Uint32Array;
+  let assignment: Uint32Array;
+  if (set.rgba.length <= maxColors) {
+    entries = set.rgba;
+    assignment = Uint32Array.from(set.rgba, (_, i) => i);
+  } else {
+    const step = Math.max(1, set.rgba.length / MAX_TRAINING_COLORS);
+    const training = step === 1 ? set : subset(set, step);
+    entries = Uint32Array.from(medianCut(training, maxColors), colors => meanColor(training, colors));
+    for (let pass = 0; pass < REFINE_PASSES; pass++) {
+      const nearest = createMatcher(toShownAll(entries));
+      const members: number[][] = Array.from({ length: entries.length }, () => []);
+      for (let i = 0; i < training.rgba.length; i++) members[nearest(training.shown, i * 6)].push(i);
+      entries = Uint32Array.from(members, (colors, p) => (colors.length > 0 ? meanColor(training, colors) : entries[p]));
+    }
+    const nearest = createMatcher(toShownAll(entries));
+    assignment = Uint32Array.from(set.rgba, (_, i) => nearest(set.shown, i * 6));
+  }
+
+  // 3. Translucent entries first, so tRNS can stop at the last one
+  const order = Array.from(entries, (_, p) => p).sort((a, b) => (entries[a] & 0xFF) - (entries[b] & 0xFF));
+  const position = new Uint32Array(entries.length);
+  const palette = new Uint8Array(entries.length * 4);
+  order.forEach((p, slot) => {
+    position[p] = slot;
+    for (let c = 0; c < 4; c++) palette[slot * 4 + c] = (entries[p] >>> (24 - 8 * c)) & 0xFF;
+  });
+
+  const indices = new Uint8Array(pixels);
+  for (let p = 0; p < pixels; p++) indices[p] = position[assignment[pixelColor[p]]];
+  return { width, height, palette, indices };
+};
+
+/**
+ * Expands a quantized image back to RGBA.
+ */
+export const dequantize = ({ width, height, palette, indices }: QuantizedImage): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < indices.length; p++) data.set(palette.subarray(indices[p] * 4, indices[p] * 4 + 4), p * 4);
+  return { width, height, data };
+};
@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { embedSteganography, extractSteganography, getStegoCapacity, StegoCapacityError } from './steganography';
+import { CONTAINER_PREFIX_BYTES, DEFAULT_LAYOUT, encodeContainerHeader, StegoFlags, StegoLayout } from './stegoContainer';
+import { encryptPayload } from './stegoCrypto';
+
+/** Opaque mid-gray pixels, so every low bit starts out the same. */
+const carrier = (pixels: number) => new Uint8ClampedArray(pixels * 4).fill(128);
+
+/**
+ * Writes `bytes` into the RGB low bits from `startPixel` on, the way the
+ * default layout does, for building containers by hand.
+ */
+const writeLowBits = (data: Uint8ClampedArray, bytes: Uint8Array, startPixel: number) => {
+  for (let k = 0; k < bytes.length * 8; k++) {
+    const i = (startPixel + Math.floor(k / 3)) * 4 + (k % 3);
+    data[i] = (data[i] & ~1) | ((bytes[k >> 3] >> (k & 7)) & 1);
+  }
+};
+
+/** Header bits, rounded up to whole pixels; the v2 body starts after them. */
+const BODY_PIXEL = Math.ceil((encodeContainerHeader(new Uint8Array(0)).length * 8) / 3);
+
+const handmade = (payload: Uint8Array, flags: number) => {
+  const data = carrier(4000);
+  writeLowBits(data, encodeContainerHeader(payload, flags), 0);
+  writeLowBits(data, payload, BODY_PIXEL);
+  return data;
+};
+
+describe('steganography', () => {
+  it('round-trips a message', async () => {
+    const data = carrier(500);
+    await embedSteganography(data, { text: 'Hello, 世界!' });
+    const result = await extractSteganography(data);
+    assert.equal(result.status, 'ok');
+    assert.equal(result.text, 'Hello, 世界!');
+  });
+
+  it('round-trips a message and a file with any layout', async () => {
+    const file = { mime: 'application/octet-stream', bytes: Uint8Array.from({ length: 300 }, (_, i) => i % 256) };
+    const layouts: StegoLayout[] = [
+      DEFAULT_LAYOUT,
+      { bitsPerChannel: 2, channels: ['g'], skipTransparent: false },
+      { bitsPerChannel: 1, channels: ['r', 'b'], skipTransparent: true },
+    ];
+    for (const layout of layouts) {
+      const data = carrier(3000);
+      // Every other pixel translucent, which skipTransparent must step over
+      for (let p = 0; p < 3000; p += 2) data[p * 4 + 3] = 40;
+      await embedSteganography(data, { text: 'note', file }, layout);
+      const result = await extractSteganography(data);
+      assert.equal(result.status, 'ok', JSON.stringify(layout));
+      assert.equal(result.text, 'note');
+      assert.deepEqual(result.file, file);
+    }
+  });
+
+  it('round-trips a file with an encrypted payload', async () => {
+    const file = { mime: 'image/png', bytes: new Uint8Array([137, 80, 78, 71]) };
+    const data = carrier(500);
+    await embedSteganography(data, { text: '', passphrase: 'pw', file });
+    const result = await extractSteganography(data, 'pw');
+    assert.equal(result.status, 'ok');
+    assert.equal(result.text, '');
+    assert.deepEqual(result.file, file);
+  });
+
+  it('encrypts with a passphrase and reports a missing or wrong one', async () => {
+    const data = carrier(500);
+    await embedSteganography(data, { text: 'secret', passphrase: 'open sesame' });
+    assert.equal((await extractSteganography(data)).status, 'locked');
+    assert.equal((await extractSteganography(data, 'wrong')).status, 'locked');
+    const result = await extractSteganography(data, 'open sesame');
+    assert.equal(result.status, 'ok');
+    assert.equal(result.text, 'secret');
+  });
+
+  it('reads containers laid out as documented', async () => {
+    const result = await extractSteganography(handmade(new TextEncoder().encode('by hand'), 0));
+    assert.equal(result.status, 'ok');
+    assert.equal(result.text, 'by hand');
+  });
+
+  it('refuses encrypted payloads with a foreign key derivation cost', async () => {
+    const payload = await encryptPayload(new TextEncoder().encode('slow'), 'pw');
+    new DataView(payload.buffer).setUint32(0, 4_000_000_000, true);
+    const result = await extractSteganography(handmade(payload, StegoFlags.ENCRYPTED), 'pw');
+    assert.equal(result.status, 'unsupported');
+  });
+
+  it('still reads v1 containers, whose body follows the header directly', async () => {
+    const payload = new TextEncoder().encode('old');
+    const v1 = new Uint8Array(CONTAINER_PREFIX_BYTES + payload.length);
+    v1.set(encodeContainerHeader(payload).subarray(0, CONTAINER_PREFIX_BYTES));
+    v1[3] = 1;
+    v1.set(payload, CONTAINER_PREFIX_BYTES);
+    const data = carrier(500);
+    writeLowBits(data, v1, 0);
+    const result = await extractSteganography(data);
+    assert.equal(result.status, 'ok');
+    assert.equal(result.text, 'old');
+  });
+
+  it('reports damaged, truncated and missing payloads', async () => {
+    const data = carrier(500);
+    await embedSteganography(data, { text: 'fragile message' });
+    data[(BODY_PIXEL + 3) * 4] ^= 1;
+    assert.equal((await extractSteganography(data)).status, 'corrupt');
+
+    const short = carrier(500);
+    writeLowBits(short, encodeContainerHeader(new Uint8Array(100_000)), 0);
+    assert.equal((await extractSteganography(short)).status, 'truncated');
+
+    assert.equal((await extractSteganography(carrier(500))).status, 'empty');
+  });
+
+  it('refuses payloads from a newer format', async () => {
+    const data = handmade(new TextEncoder().encode('future'), 0);
+    writeLowBits(data, new Uint8Array([99]), 8); // version byte: bits 24–31 start at pixel 8
+    assert.equal((await extractSteganography(data)).status, 'unsupported');
+
+    // Bit 0 is reserved, like any flag this build doesn't know
+    for (const flag of [1, 1 << 7]) {
+      const flagged = handmade(new TextEncoder().encode('future'), flag);
+      assert.equal((await extractSteganography(flagged)).status, 'unsupported');
+    }
+  });
+
+  it('throws rather than writing a partial payload', async () => {
+    const data = carrier(100);
+    const before = data.slice();
+    const text = 'x'.repeat(getStegoCapacity(data, DEFAULT_LAYOUT) + 1);
+    await assert.rejects(embedSteganography(data, { text }), StegoCapacityError);
+    assert.deepEqual(data, before);
+  });
+});
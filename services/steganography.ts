@@ -0,0 +1,302 @@
+import { StegoExtractResult, StegoFile } from '../types';
+import {
+  encodeContainerHeader,
+  parseContainerHeader,
+  verifyContainer,
+  headerBytesFor,
+  CONTAINER_PREFIX_BYTES,
+  STEGO_VERSION,
+  KNOWN_FLAGS,
+  DEFAULT_LAYOUT,
+  StegoFlags,
+  StegoLayout,
+} from './stegoContainer';
+import { encryptPayload, decryptPayload, isSupportedEncryption, ENCRYPTION_OVERHEAD_BYTES } from './stegoCrypto';
+import { encodeRecords, decodeRecords, getRecordsSize, StegoRecord } from './stegoRecords';
+
+/**
+ * Pixels below this alpha are skipped when `skipTransparent` is on. Under it a
+ * premultiplied 8-bit channel has fewer than 7 significant bits, so a canvas
+ * round-trip wipes out the LSBs. Above it they are only damaged less often:
+ * just alpha 255 comes back exact, so this reduces errors, it can't prevent them.
+ */
+const STEGO_MIN_ALPHA = 128;
+
+const CHANNEL_OFFSETS = { r: 0, g: 1, b: 2 } as const;
+
+/**
+ * Thrown when the payload does not fit the output image.
+ */
+export class StegoCapacityError extends Error {
+  constructor(public required: number, public available: number) {
+    super(`Steganography capacity exceeded: message needs ${required} bytes, image holds ${available}.`);
+    this.name = 'StegoCapacityError';
+  }
+}
+
+/**
+ * Sequential access to the low bits of the carrier channels, starting at
+ * `startPixel`. Bytes are written least significant bit first.
+ */
+const createBitCursor = (data: Uint8ClampedArray, layout: StegoLayout, startPixel = 0) => {
+  const offsets = (['r', 'g', 'b'] as const)
+    .filter(c => layout.channels.includes(c))
+    .map(c => CHANNEL_OFFSETS[c]);
+  const bitsPerPixel = offsets.length * layout.bitsPerChannel;
+  const totalPixels = data.length / 4;
+
+  const isUsable = (p: number) => !layout.skipTransparent || data[p * 4 + 3] >= STEGO_MIN_ALPHA;
+
+  let usablePixels = 0;
+  for (let p = startPixel; p < totalPixels; p++) {
+    if (isUsable(p)) usablePixels++;
+  }
+  const capacityBits = usablePixels * bitsPerPixel;
+
+  let usedBits = 0;
+  let pixel = startPixel - 1;
+  let slot = bitsPerPixel; // forces a move to the first usable pixel
+
+  // Locates the next bit: channel byte index and bit position within it
+  const nextSlot = () => {
+    if (slot >= bitsPerPixel) {
+      do { pixel++; } while (pixel < totalPixels && !isUsable(pixel));
+      slot = 0;
+    }
+    const dataIndex = pixel * 4 + offsets[Math.floor(slot / layout.bitsPerChannel)];
+    const bit = slot % layout.bitsPerChannel;
+    slot++;
+    usedBits++;
+    return { dataIndex, bit };
+  };
+
+  return {
+    capacityBits,
+    /** Whole bytes left between the cursor and the end of the image. */
+    remainingBytes: () => Math.floor((capacityBits - usedBits) / 8),
+    /** First pixel not touched by the cursor yet. */
+    nextPixel: () => pixel + 1,
+    writeByte: (byte: number) => {
+      for (let j = 0; j < 8; j++) {
+        if (usedBits >= capacityBits) return;
+        const { dataIndex, bit } = nextSlot();
+        // Clear the target bit and set the new one
+        data[dataIndex] = (data[dataIndex] & ~(1 << bit)) | (((byte >> j) & 1) << bit);
+      }
+    },
+    readBytes: (count: number) => {
+      const bytes = new Uint8Array(count);
+      for (let i = 0; i < count; i++) {
+        let byte = 0;
+        for (let j = 0; j < 8; j++) {
+          const { dataIndex, bit } = nextSlot();
+          byte |= ((data[dataIndex] >> bit) & 1) << j;
+        }
+        bytes[i] = byte;
+      }
+      return bytes;
+    },
+  };
+};
+
+/**
+ * The header is always written at 1 bit per R, G, B channel so a reader can
+ * find it without knowing the body layout; only the transparency skip carries
+ * over, since it decides which pixels are readable at all.
+ */
+const headerLayoutFor = (layout: StegoLayout): StegoLayout => ({
+  ...DEFAULT_LAYOUT,
+  skipTransparent: layout.skipTransparent,
+});
+
+/**
+ * What to hide in an image.
+ */
+export interface StegoPayload {
+  text: string;
+  /** Encrypts everything below when set. */
+  passphrase?: string;
+  file?: StegoFile;
+}
+
+/**
+ * A bare message is stored as plain UTF-8 (the v1 shape); as soon as a file is
+ * involved everything goes into a record list.
+ */
+const toRecords = ({ text, file }: StegoPayload): StegoRecord[] | null => {
+  if (!file) return null;
+  const records: StegoRecord[] = text ? [{ type: 'text', text }] : [];
+  records.push({ type: 'file', mime: file.mime, bytes: file.bytes });
+  return records;
+};
+
+/**
+ * Bytes a payload occupies once encoded (before the container header).
+ */
+export const getStegoPayloadSize = (payload: StegoPayload): number => {
+  const records = toRecords(payload);
+  if (!records && !payload.text) return 0;
+  const size = records ? getRecordsSize(records) : new TextEncoder().encode(payload.text).length;
+  return payload.passphrase ? size + ENCRYPTION_OVERHEAD_BYTES : size;
+};
+
+/**
+ * Payload bytes that fit in the pixel data with the given layout, after the
+ * container header.
+ */
+export const getStegoCapacity = (data: Uint8ClampedArray, layout: StegoLayout): number => {
+  if (layout.channels.length === 0) return 0;
+  const header = createBitCursor(data, headerLayoutFor(layout));
+  const headerBytes = headerBytesFor(STEGO_VERSION);
+  if (header.remainingBytes() < headerBytes) return 0;
+  header.readBytes(headerBytes);
+  return createBitCursor(data, layout, header.nextPixel()).remainingBytes();
+};
+
+/**
+ * Embeds a message and/or file into the low bits of the pixel data, wrapped
+ * in a versioned, checksummed container (see stegoContainer.ts).
+ * With a passphrase the payload is encrypted first (see stegoCrypto.ts).
+ * Throws StegoCapacityError rather than writing a partial payload.
+ */
+export const embedSteganography = async (
+  data: Uint8ClampedArray,
+  stego: StegoPayload,
+  layout = DEFAULT_LAYOUT
+) => {
+  const records = toRecords(stego);
+  if (!records && !stego.text) return;
+
+  const plain = records ? encodeRecords(records) : new TextEncoder().encode(stego.text);
+  const payload = stego.passphrase ? await encryptPayload(plain, stego.passphrase) : plain;
+  const flags = (stego.passphrase ? StegoFlags.ENCRYPTED : 0) | (records ? StegoFlags.BINARY : 0);
+
+  const available = getStegoCapacity(data, layout);
+  if (payload.length > available) {
+    throw new StegoCapacityError(payload.length, available);
+  }
+
+  const header = encodeContainerHeader(payload, flags, layout);
+  const headerCursor = createBitCursor(data, headerLayoutFor(layout));
+  header.forEach(headerCursor.writeByte);
+
+  const bodyCursor = createBitCursor(data, layout, headerCursor.nextPixel());
+  payload.forEach(bodyCursor.writeByte);
+};
+
+/**
+ * Finds a container header, trying a plain scan first and then one that
+ * skips near-transparent pixels.
+ */
+const findHeader = (data: Uint8ClampedArray) => {
+  for (const skipTransparent of [false, true]) {
+    const cursor = createBitCursor(data, { ...DEFAULT_LAYOUT, skipTransparent });
+    if (cursor.remainingBytes() < CONTAINER_PREFIX_BYTES) continue;
+
+    const prefix = cursor.readBytes(CONTAINER_PREFIX_BYTES);
+    const probe = parseContainerHeader(prefix);
+    if (!probe) continue;
+
+    // v2+ carries the body layout right after the frozen prefix
+    const extra = headerBytesFor(probe.version) - CONTAINER_PREFIX_BYTES;
+    if (extra > 0 && probe.version <= STEGO_VERSION) {
+      const full = new Uint8Array(CONTAINER_PREFIX_BYTES + extra);
+      full.set(prefix);
+      full.set(cursor.readBytes(extra), CONTAINER_PREFIX_BYTES);
+      return { header: parseContainerHeader(full)!, cursor };
+    }
+    return { header: probe, cursor };
+  }
+  return null;
+};
+
+/**
+ * Reads a message written by `embedSteganography` back out of RGBA pixel data.
+ * Never throws: every failure mode is reported through the result status.
+ */
+export const extractSteganography = async (
+  data: Uint8ClampedArray,
+  passphrase = ''
+): Promise<StegoExtractResult> => {
+  const none: StegoExtractResult = {
+    status: 'empty',
+    text: '',
+    version: 0,
+    flags: 0,
+    declaredLength: 0,
+    recoveredLength: 0,
+  };
+
+  // 1. Header. No magic means no payload.
+  const found = findHeader(data);
+  if (!found) return none;
+  const { header } = found;
+
+  const base = {
+    version: header.version,
+    flags: header.flags,
+    declaredLength: header.length,
+  };
+
+  // Written by a newer build: we can't trust our reading of the body
+  if (header.version > STEGO_VERSION || (header.flags & ~KNOWN_FLAGS) !== 0 || header.layout.channels.length === 0) {
+    return { ...base, status: 'unsupported', text: '', recoveredLength: 0 };
+  }
+
+  // v1 bodies follow the header bits directly; v2+ start on a fresh pixel
+  const cursor = header.version >= 2
+    ? createBitCursor(data, header.layout, found.cursor.nextPixel())
+    : found.cursor;
+
+  // 2. Body. A header that claims more than the image holds means the
+  // embedder ran out of room; there is no checksum to verify a partial body.
+  const available = cursor.remainingBytes();
+  if (header.length > available) {
+    const partial = cursor.readBytes(available);
+    const text = (header.flags & (StegoFlags.BINARY | StegoFlags.ENCRYPTED))
+      ? ''
+      : new TextDecoder().decode(partial, { stream: true });
+    return { ...base, status: 'truncated', text, recoveredLength: available };
+  }
+
+  const payload = cursor.readBytes(header.length);
+  if (!verifyContainer(header, payload)) {
+    return { ...base, status: 'corrupt', text: '', recoveredLength: payload.length };
+  }
+
+  // 3. Decrypt. The checksum already passed, so a failure here means the
+  // passphrase is missing or wrong.
+  let plain = payload;
+  if (header.flags & StegoFlags.ENCRYPTED) {
+    if (!isSupportedEncryption(payload)) {
+      return { ...base, status: 'unsupported', text: '', recoveredLength: payload.length };
+    }
+    if (!passphrase) {
+      return { ...base, status: 'locked', text: '', recoveredLength: payload.length };
+    }
+    try {
+      plain = await decryptPayload(payload, passphrase);
+    } catch {
+      return { ...base, status: 'locked', text: '', recoveredLength: payload.length };
+    }
+  }
+
+  if (!(header.flags & StegoFlags.BINARY)) {
+    return { ...base, status: 'ok', text: new TextDecoder().decode(plain), recoveredLength: payload.length };
+  }
+
+  // 4. Record list: first text and first file win
+  let records: StegoRecord[];
+  try {
+    records = decodeRecords(plain);
+  } catch {
+    return { ...base, status: 'corrupt', text: '', recoveredLength: payload.length };
+  }
+  let text = '';
+  let file: StegoFile | undefined;
+  for (const record of records) {
+    if (record.type === 'text' && !text) text = record.text;
+    if (record.type === 'file' && !file) file = { mime: record.mime, bytes: record.bytes };
+  }
+  return { ...base, status: 'ok', text, file, recoveredLength: payload.length };
+};
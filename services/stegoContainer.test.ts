@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CONTAINER_PREFIX_BYTES,
+  encodeContainerHeader,
+  headerBytesFor,
+  parseContainerHeader,
+  STEGO_VERSION,
+  StegoFlags,
+  StegoLayout,
+  verifyContainer,
+} from './stegoContainer';
+
+const payload = new TextEncoder().encode('payload');
+
+describe('stego container', () => {
+  it('round-trips the header and layout', () => {
+    const layout: StegoLayout = { bitsPerChannel: 2, channels: ['r', 'b'], skipTransparent: true };
+    const flags = StegoFlags.ENCRYPTED | StegoFlags.BINARY;
+    const bytes = encodeContainerHeader(payload, flags, layout);
+    assert.equal(bytes.length, headerBytesFor(STEGO_VERSION));
+
+    const header = parseContainerHeader(bytes);
+    assert.ok(header);
+    assert.equal(header.version, STEGO_VERSION);
+    assert.equal(header.flags, flags);
+    assert.equal(header.length, payload.length);
+    assert.deepEqual(header.layout, layout);
+    assert.ok(verifyContainer(header, payload));
+  });
+
+  it('detects a changed or cut payload', () => {
+    const header = parseContainerHeader(encodeContainerHeader(payload))!;
+    const changed = payload.slice();
+    changed[2] ^= 0x10;
+    assert.equal(verifyContainer(header, changed), false);
+    assert.equal(verifyContainer(header, payload.subarray(1)), false);
+  });
+
+  it('needs the magic bytes and a full prefix', () => {
+    const bytes = encodeContainerHeader(payload);
+    assert.equal(parseContainerHeader(bytes.subarray(0, CONTAINER_PREFIX_BYTES - 1)), null);
+    const wrongMagic = bytes.slice();
+    wrongMagic[0] ^= 1;
+    assert.equal(parseContainerHeader(wrongMagic), null);
+  });
+
+  it('reads v1 headers with the default layout', () => {
+    const v1 = encodeContainerHeader(payload).slice(0, CONTAINER_PREFIX_BYTES);
+    v1[3] = 1;
+    const header = parseContainerHeader(v1)!;
+    assert.equal(header.version, 1);
+    assert.deepEqual(header.layout.channels, ['r', 'g', 'b']);
+    assert.equal(header.layout.bitsPerChannel, 1);
+  });
+});
@@ -0,0 +1,145 @@
+import { StegoChannel } from '../types';
+import { crc32 } from './crc32';
+
+/**
+ * Container layout (all multi-byte fields Little Endian):
+ *
+ *   offset  size  field
+ *   0       3     magic "MTK"
+ *   3       1     format version
+ *   4       1     flags (see StegoFlags)
+ *   5       4     payload length in bytes
+ *   9       4     CRC-32 of the payload
+ *   13      1     body bit layout (v2+, see encodeLayout)
+ *   ...     n     payload
+ *
+ * The first 13 bytes are frozen: readers parse them first and use the version
+ * to decide how (or whether) to interpret anything after them.
+ *
+ * v1: header and body are one continuous stream at 1 bit per R, G, B channel.
+ * v2: the header is still written that way; the body starts at the next whole
+ *     pixel and uses the layout recorded in byte 13.
+ */
+export const STEGO_MAGIC = new Uint8Array([0x4D, 0x54, 0x4B]); // "MTK"
+export const STEGO_VERSION = 2;
+
+/** Size of the frozen, version-independent part of the header. */
+export const CONTAINER_PREFIX_BYTES = 13;
+
+/**
+ * Flag bits. Bit 0 is reserved and never written; a reader that finds it (or
+ * any other bit not listed here) set reports the payload as unsupported.
+ */
+export const StegoFlags = {
+  /** Payload is encrypted. */
+  ENCRYPTED: 1 << 1,
+  /** Payload is a record list (see stegoRecords.ts) rather than bare UTF-8 text. */
+  BINARY: 1 << 2,
+} as const;
+
+/** Every flag bit this build knows how to interpret. */
+export const KNOWN_FLAGS = StegoFlags.ENCRYPTED | StegoFlags.BINARY;
+
+/**
+ * Where payload bits live in the pixel data.
+ */
+export interface StegoLayout {
+  bitsPerChannel: number;
+  channels: StegoChannel[];
+  skipTransparent: boolean;
+}
+
+/** The v1 layout, also used for every header. */
+export const DEFAULT_LAYOUT: StegoLayout = {
+  bitsPerChannel: 1,
+  channels: ['r', 'g', 'b'],
+  skipTransparent: false,
+};
+
+export interface ContainerHeader {
+  version: number;
+  flags: number;
+  length: number;
+  crc: number;
+  layout: StegoLayout;
+}
+
+/**
+ * Total header size for a given format version.
+ */
+export const headerBytesFor = (version: number) => {
+  return version >= 2 ? CONTAINER_PREFIX_BYTES + 1 : CONTAINER_PREFIX_BYTES;
+};
+
+/**
+ * Packs a layout into one byte:
+ * bits 0-1 = bitsPerChannel - 1, bits 2-4 = R/G/B enabled, bit 5 = skipTransparent.
+ */
+const encodeLayout = (layout: StegoLayout): number => {
+  return ((layout.bitsPerChannel - 1) & 0b11)
+    | (layout.channels.includes('r') ? 1 << 2 : 0)
+    | (layout.channels.includes('g') ? 1 << 3 : 0)
+    | (layout.channels.includes('b') ? 1 << 4 : 0)
+    | (layout.skipTransparent ? 1 << 5 : 0);
+};
+
+const decodeLayout = (byte: number): StegoLayout => {
+  const channels: StegoChannel[] = [];
+  if (byte & (1 << 2)) channels.push('r');
+  if (byte & (1 << 3)) channels.push('g');
+  if (byte & (1 << 4)) channels.push('b');
+  return {
+    bitsPerChannel: (byte & 0b11) + 1,
+    channels,
+    skipTransparent: (byte & (1 << 5)) !== 0,
+  };
+};
+
+/**
+ * Builds the header for a payload in the current format version.
+ */
+export const encodeContainerHeader = (payload: Uint8Array, flags = 0, layout = DEFAULT_LAYOUT): Uint8Array => {
+  const out = new Uint8Array(headerBytesFor(STEGO_VERSION));
+  const view = new DataView(out.buffer);
+
+  out.set(STEGO_MAGIC, 0);
+  view.setUint8(3, STEGO_VERSION);
+  view.setUint8(4, flags);
+  view.setUint32(5, payload.length, true);
+  view.setUint32(9, crc32(payload), true);
+  view.setUint8(13, encodeLayout(layout));
+
+  return out;
+};
+
+/**
+ * Parses a header. Returns null when the magic bytes are missing, i.e. the
+ * data does not contain a container at all. `bytes` must hold at least
+ * CONTAINER_PREFIX_BYTES; pass `headerBytesFor(version)` bytes to also get the
+ * layout of a v2+ container.
+ */
+export const parseContainerHeader = (bytes: Uint8Array): ContainerHeader | null => {
+  if (bytes.length < CONTAINER_PREFIX_BYTES) return null;
+  for (let i = 0; i < STEGO_MAGIC.length; i++) {
+    if (bytes[i] !== STEGO_MAGIC[i]) return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const version = view.getUint8(3);
+  return {
+    version,
+    flags: view.getUint8(4),
+    length: view.getUint32(5, true),
+    crc: view.getUint32(9, true),
+    layout: version >= 2 && bytes.length > CONTAINER_PREFIX_BYTES
+      ? decodeLayout(view.getUint8(13))
+      : DEFAULT_LAYOUT,
+  };
+};
+
+/**
+ * Checks a payload against the checksum recorded in its header.
+ */
+export const verifyContainer = (header: ContainerHeader, payload: Uint8Array): boolean => {
+  return payload.length === header.length && crc32(payload) === header.crc;
+};
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decryptPayload, encryptPayload, ENCRYPTION_OVERHEAD_BYTES, isSupportedEncryption } from './stegoCrypto';
+
+const plain = new TextEncoder().encode('attack at dawn');
+
+describe('stego crypto', () => {
+  it('round-trips with the right passphrase', async () => {
+    const payload = await encryptPayload(plain, 'correct horse');
+    assert.equal(payload.length, plain.length + ENCRYPTION_OVERHEAD_BYTES);
+    assert.ok(isSupportedEncryption(payload));
+    assert.deepEqual(await decryptPayload(payload, 'correct horse'), plain);
+  });
+
+  it('salts every encryption differently', async () => {
+    const a = await encryptPayload(plain, 'pw');
+    const b = await encryptPayload(plain, 'pw');
+    assert.notDeepEqual(a, b);
+  });
+
+  it('fails on a wrong passphrase or tampered ciphertext', async () => {
+    const payload = await encryptPayload(plain, 'pw');
+    await assert.rejects(decryptPayload(payload, 'PW'));
+    const tampered = payload.slice();
+    tampered[tampered.length - 1] ^= 1;
+    await assert.rejects(decryptPayload(tampered, 'pw'));
+    await assert.rejects(decryptPayload(payload.subarray(0, ENCRYPTION_OVERHEAD_BYTES - 1), 'pw'));
+  });
+
+  it('refuses iteration counts it did not write, without deriving a key', async () => {
+    const payload = await encryptPayload(plain, 'pw');
+    new DataView(payload.buffer).setUint32(0, 0xFFFFFFFF, true);
+    assert.equal(isSupportedEncryption(payload), false);
+    await assert.rejects(decryptPayload(payload, 'pw'), /Unsupported/);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Passphrase encryption for steganography payloads.
+ *
+ * Encrypted payload layout (inside the container body):
+ *
+ *   offset  size  field
+ *   0       4     PBKDF2 iteration count (Little Endian)
+ *   4       16    PBKDF2 salt
+ *   20      12    AES-GCM IV
+ *   32      n     ciphertext + 16 byte GCM tag
+ */
+const PBKDF2_ITERATIONS = 200_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const ENCRYPTION_HEADER_BYTES = 4 + SALT_BYTES + IV_BYTES;
+
+/** Bytes that encryption adds on top of the plaintext (header + GCM tag). */
+export const ENCRYPTION_OVERHEAD_BYTES = ENCRYPTION_HEADER_BYTES + 16;
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts `plain` with AES-GCM under a key derived from `passphrase`.
+ * Salt and IV are random per call and stored in front of the ciphertext.
+ */
+export const encryptPayload = async (plain: Uint8Array, passphrase: string): Promise<Uint8Array> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain));
+
+  const out = new Uint8Array(ENCRYPTION_HEADER_BYTES + cipher.length);
+  new DataView(out.buffer).setUint32(0, PBKDF2_ITERATIONS, true);
+  out.set(salt, 4);
+  out.set(iv, 4 + SALT_BYTES);
+  out.set(cipher, ENCRYPTION_HEADER_BYTES);
+  return out;
+};
+
+/**
+ * Whether `payload` looks like something `encryptPayload` wrote. The
+ * iteration count comes from the image, so anything but our own is refused
+ * rather than handed to PBKDF2, where a huge value would hang the reader.
+ */
+export const isSupportedEncryption = (payload: Uint8Array): boolean =>
+  payload.length >= ENCRYPTION_OVERHEAD_BYTES &&
+  new DataView(payload.buffer, payload.byteOffset, 4).getUint32(0, true) === PBKDF2_ITERATIONS;
+
+/**
+ * Reverses `encryptPayload`. Throws on any failure: a wrong passphrase and a
+ * tampered ciphertext look the same to AES-GCM.
+ */
+export const decryptPayload = async (payload: Uint8Array, passphrase: string): Promise<Uint8Array> => {
+  if (payload.length < ENCRYPTION_OVERHEAD_BYTES) throw new Error('Encrypted payload is too short');
+  if (!isSupportedEncryption(payload)) throw new Error('Unsupported key derivation settings');
+
+  const salt = payload.slice(4, 4 + SALT_BYTES);
+  const iv = payload.slice(4 + SALT_BYTES, ENCRYPTION_HEADER_BYTES);
+  const cipher = payload.slice(ENCRYPTION_HEADER_BYTES);
+
+  try {
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, cipher));
+  } catch {
+    throw new Error('Wrong passphrase or damaged payload');
+  }
+};
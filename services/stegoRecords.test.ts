@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeRecords, encodeRecords, getRecordsSize, MAX_MIME_BYTES, StegoRecord } from './stegoRecords';
+
+describe('stego records', () => {
+  it('round-trips text and files', () => {
+    const records: StegoRecord[] = [
+      { type: 'text', text: 'héllo' },
+      { type: 'file', mime: 'image/png', bytes: new Uint8Array([1, 2, 3]) },
+      { type: 'file', mime: '', bytes: new Uint8Array(0) },
+    ];
+    const bytes = encodeRecords(records);
+    assert.equal(bytes.length, getRecordsSize(records));
+    assert.deepEqual(decodeRecords(bytes), records);
+  });
+
+  it('sizes MIME types by their UTF-8 bytes, up to the limit', () => {
+    const records: StegoRecord[] = [
+      { type: 'file', mime: 'text/plain; charset="ünïcødé"', bytes: new Uint8Array([4]) },
+      { type: 'file', mime: 'x'.repeat(MAX_MIME_BYTES), bytes: new Uint8Array([5, 6]) },
+    ];
+    const bytes = encodeRecords(records);
+    assert.equal(bytes.length, getRecordsSize(records));
+    assert.deepEqual(decodeRecords(bytes), records);
+
+    // 128 characters, but 256 bytes
+    for (const mime of ['x'.repeat(MAX_MIME_BYTES + 1), 'é'.repeat(128)]) {
+      const tooLong: StegoRecord[] = [{ type: 'file', mime, bytes: new Uint8Array(0) }];
+      assert.throws(() => encodeRecords(tooLong), /MIME type/);
+      assert.throws(() => getRecordsSize(tooLong), /MIME type/);
+    }
+  });
+
+  it('skips unknown record types', () => {
+    const known = encodeRecords([{ type: 'text', text: 'kept' }]);
+    const bytes = new Uint8Array(known.length + 7);
+    bytes.set([99, 2, 0, 0, 0, 0xAA, 0xBB]);
+    bytes.set(known, 7);
+    assert.deepEqual(decodeRecords(bytes), [{ type: 'text', text: 'kept' }]);
+  });
+
+  it('throws on truncated records', () => {
+    const bytes = encodeRecords([{ type: 'text', text: 'cut short' }]);
+    assert.throws(() => decodeRecords(bytes.subarray(0, 3)));
+    assert.throws(() => decodeRecords(bytes.subarray(0, bytes.length - 1)));
+    // A file record whose MIME type runs past its data
+    assert.throws(() => decodeRecords(new Uint8Array([2, 2, 0, 0, 0, 9, 0x61])));
+  });
+});
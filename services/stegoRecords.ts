@@ -0,0 +1,105 @@
+/**
+ * Record list carried by BINARY containers, so one payload can hold a message
+ * and a file side by side.
+ *
+ * Each record:
+ *
+ *   offset  size  field
+ *   0       1     record type (see RECORD_TYPES)
+ *   1       4     data length in bytes (Little Endian)
+ *   5       n     data
+ *
+ * Text data is UTF-8. File data is a 1 byte MIME type length, the UTF-8 MIME
+ * type (at most MAX_MIME_BYTES), then the raw file bytes.
+ */
+export type StegoRecord =
+  | { type: 'text'; text: string }
+  | { type: 'file'; mime: string; bytes: Uint8Array };
+
+const RECORD_TYPES = { text: 1, file: 2 } as const;
+const RECORD_HEADER_BYTES = 5;
+
+/** Longest MIME type, in bytes, that fits the length byte. */
+export const MAX_MIME_BYTES = 255;
+
+const encodeMime = (mime: string) => {
+  const bytes = new TextEncoder().encode(mime);
+  if (bytes.length > MAX_MIME_BYTES) {
+    throw new Error(`MIME type is ${bytes.length} bytes long; at most ${MAX_MIME_BYTES} fit`);
+  }
+  return bytes;
+};
+
+/**
+ * Encoded size of a record list, without building it. Throws, like
+ * encodeRecords, on a MIME type that is too long.
+ */
+export const getRecordsSize = (records: StegoRecord[]): number => {
+  const encoder = new TextEncoder();
+  return records.reduce((sum, record) => sum + RECORD_HEADER_BYTES + (record.type === 'text'
+    ? encoder.encode(record.text).length
+    : 1 + encodeMime(record.mime).length + record.bytes.length), 0);
+};
+
+/**
+ * Builds a record list. Throws on a MIME type longer than MAX_MIME_BYTES.
+ */
+export const encodeRecords = (records: StegoRecord[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks = records.map(record => {
+    if (record.type === 'text') {
+      return { type: RECORD_TYPES.text, data: encoder.encode(record.text) };
+    }
+    const mime = encodeMime(record.mime);
+    const data = new Uint8Array(1 + mime.length + record.bytes.length);
+    data[0] = mime.length;
+    data.set(mime, 1);
+    data.set(record.bytes, 1 + mime.length);
+    return { type: RECORD_TYPES.file, data };
+  });
+
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + RECORD_HEADER_BYTES + c.data.length, 0));
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  for (const chunk of chunks) {
+    view.setUint8(offset, chunk.type);
+    view.setUint32(offset + 1, chunk.data.length, true);
+    out.set(chunk.data, offset + RECORD_HEADER_BYTES);
+    offset += RECORD_HEADER_BYTES + chunk.data.length;
+  }
+  return out;
+};
+
+/**
+ * Parses a record list. Unknown record types are skipped so newer writers can
+ * add types without breaking older readers. Throws on malformed input.
+ */
+export const decodeRecords = (bytes: Uint8Array): StegoRecord[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const decoder = new TextDecoder();
+  const records: StegoRecord[] = [];
+
+  let offset = 0;
+  while (offset < bytes.length) {
+    if (offset + RECORD_HEADER_BYTES > bytes.length) throw new Error('Truncated record header');
+    const type = view.getUint8(offset);
+    const length = view.getUint32(offset + 1, true);
+    const start = offset + RECORD_HEADER_BYTES;
+    if (start + length > bytes.length) throw new Error('Truncated record data');
+    const data = bytes.subarray(start, start + length);
+
+    if (type === RECORD_TYPES.text) {
+      records.push({ type: 'text', text: decoder.decode(data) });
+    } else if (type === RECORD_TYPES.file) {
+      const mimeLength = data[0];
+      if (data.length === 0 || 1 + mimeLength > data.length) throw new Error('Truncated file record');
+      records.push({
+        type: 'file',
+        mime: decoder.decode(data.subarray(1, 1 + mimeLength)),
+        bytes: data.slice(1 + mimeLength),
+      });
+    }
+    offset = start + length;
+  }
+  return records;
+};
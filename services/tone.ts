@@ -0,0 +1,188 @@
+import { RgbaImage, ToneAdjustments } from '../types';
+
+/**
+ * Per-layer tone adjustments, applied to an input before it is framed and
+ * mapped into its range. In order: equalization (on luma), levels, gamma,
+ * contrast, brightness, invert.
+ */
+
+export const DEFAULT_TONE: ToneAdjustments = {
+  blackPoint: 0,
+  whitePoint: 255,
+  gamma: 1,
+  contrast: 0,
+  brightness: 0,
+  equalize: 'none',
+  invert: false,
+};
+
+/** CLAHE tiles along the longer edge. */
+const CLAHE_TILES = 8;
+/** CLAHE histogram clip, as a multiple of the mean bin count. */
+const CLAHE_CLIP = 3;
+
+/** Pixels a histogram is computed from; larger images are subsampled. */
+const HISTOGRAM_SAMPLES = 1 << 16;
+
+export const isDefaultTone = (t: ToneAdjustments) =>
+  t.blackPoint === 0 && t.whitePoint === 255 && t.gamma === 1 && t.contrast === 0
+  && t.brightness === 0 && t.equalize === 'none' && !t.invert;
+
+const luma = (d: Uint8ClampedArray, i: number) => 0.2126 * d[i] + 0.7152 * d[i + 1] + 0.0722 * d[i + 2];
+
+/**
+ * Lookup table for everything after equalization.
+ */
+export const buildToneCurve = (t: ToneAdjustments): Uint8ClampedArray => {
+  const span = Math.max(1, t.whitePoint - t.blackPoint);
+  // Contrast -1…1: negative flattens towards mid gray, positive steepens
+  const slope = t.contrast >= 0 ? 1 / (1 - 0.99 * t.contrast) : 1 + t.contrast;
+  const curve = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) {
+    const level = Math.max(0, Math.min(1, (v - t.blackPoint) / span));
+    let out = Math.pow(level, 1 / t.gamma) * 255;
+    out = (out - 128) * slope + 128 + t.brightness * 128;
+    curve[v] = t.invert ? 255 - out : out;
+  }
+  return curve;
+};
+
+/** Maps luma 0–255 through a histogram's CDF, stretched to the full range. */
+const equalizeHistogram = (histogram: Float64Array | Uint32Array, count: number, out: Float32Array) => {
+  let first = 0;
+  while (first < 255 && histogram[first] === 0) first++;
+  const base = histogram[first];
+  let sum = 0;
+  for (let v = 0; v < 256; v++) {
+    sum += histogram[v];
+    out[v] = count > base ? Math.max(0, ((sum - base) / (count - base)) * 255) : v;
+  }
+};
+
+/**
+ * Target luma per pixel after global equalization.
+ */
+const equalizeGlobal = (lumas: Float32Array): Float32Array => {
+  const histogram = new Uint32Array(256);
+  for (const l of lumas) histogram[Math.round(l)]++;
+  const map = new Float32Array(256);
+  equalizeHistogram(histogram, lumas.length, map);
+  return lumas.map(l => map[Math.round(l)]);
+};
+
+/**
+ * Target luma per pixel after contrast-limited adaptive equalization: one
+ * clipped histogram per tile, blended bilinearly between tile centers.
+ */
+const equalizeClahe = (src: RgbaImage, lumas: Float32Array): Float32Array => {
+  const { width, height } = src;
+  const tileSize = Math.max(8, Math.ceil(Math.max(width, height) / CLAHE_TILES));
+  const tilesX = Math.ceil(width / tileSize);
+  const tilesY = Math.ceil(height / tileSize);
+  const maps = Array.from({ length: tilesX * tilesY }, () => new Float32Array(256));
+
+  const histogram = new Float64Array(256);
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      histogram.fill(0);
+      const x1 = Math.min(width, (tx + 1) * tileSize);
+      const y1 = Math.min(height, (ty + 1) * tileSize);
+      let count = 0;
+      for (let y = ty * tileSize; y < y1; y++) {
+        for (let x = tx * tileSize; x < x1; x++) {
+          histogram[Math.round(lumas[y * width + x])]++;
+          count++;
+        }
+      }
+
+      // Clip and hand the excess back out evenly
+      const limit = Math.max(1, (CLAHE_CLIP * count) / 256);
+      let excess = 0;
+      for (let v = 0; v < 256; v++) {
+        if (histogram[v] > limit) {
+          excess += histogram[v] - limit;
+          histogram[v] = limit;
+        }
+      }
+      for (let v = 0; v < 256; v++) histogram[v] += excess / 256;
+
+      // Clipping keeps low-contrast tiles from stretching to the full range,
+      // so no min-bin offset here
+      const map = maps[ty * tilesX + tx];
+      let sum = 0;
+      for (let v = 0; v < 256; v++) {
+        sum += histogram[v];
+        map[v] = (sum / count) * 255;
+      }
+    }
+  }
+
+  const out = new Float32Array(lumas.length);
+  for (let y = 0; y < height; y++) {
+    const fy = Math.max(0, Math.min(tilesY - 1, (y + 0.5) / tileSize - 0.5));
+    const ty0 = Math.floor(fy), ty1 = Math.min(tilesY - 1, ty0 + 1), wy = fy - ty0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.max(0, Math.min(tilesX - 1, (x + 0.5) / tileSize - 0.5));
+      const tx0 = Math.floor(fx), tx1 = Math.min(tilesX - 1, tx0 + 1), wx = fx - tx0;
+      const p = y * width + x;
+      const v = Math.round(lumas[p]);
+      const top = maps[ty0 * tilesX + tx0][v] * (1 - wx) + maps[ty0 * tilesX + tx1][v] * wx;
+      const bottom = maps[ty1 * tilesX + tx0][v] * (1 - wx) + maps[ty1 * tilesX + tx1][v] * wx;
+      out[p] = top * (1 - wy) + bottom * wy;
+    }
+  }
+  return out;
+};
+
+/**
+ * Returns `src` with `tone` applied; the same image when nothing is set.
+ * Equalization works on luma and shifts all three channels by the same
+ * amount, which keeps hues and leaves grayscale results exact.
+ */
+export const applyTone = (src: RgbaImage, tone: ToneAdjustments): RgbaImage => {
+  if (isDefaultTone(tone)) return src;
+
+  const data = new Uint8ClampedArray(src.data);
+  if (tone.equalize !== 'none') {
+    const lumas = new Float32Array(src.width * src.height);
+    for (let p = 0; p < lumas.length; p++) lumas[p] = luma(data, p * 4);
+    const target = tone.equalize === 'clahe' ? equalizeClahe(src, lumas) : equalizeGlobal(lumas);
+    for (let p = 0; p < lumas.length; p++) {
+      const shift = target[p] - lumas[p];
+      for (let c = 0; c < 3; c++) data[p * 4 + c] += shift;
+    }
+  }
+
+  const curve = buildToneCurve(tone);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = curve[data[i]];
+    data[i + 1] = curve[data[i + 1]];
+    data[i + 2] = curve[data[i + 2]];
+  }
+  return { width: src.width, height: src.height, data };
+};
+
+/**
+ * Luma histograms of `src` before and after `tone`, from a subsample of at
+ * most HISTOGRAM_SAMPLES pixels. Each has 256 bins.
+ */
+export const getToneHistograms = (src: RgbaImage, tone: ToneAdjustments) => {
+  const step = Math.max(1, Math.ceil(Math.sqrt((src.width * src.height) / HISTOGRAM_SAMPLES)));
+  const width = Math.ceil(src.width / step);
+  const height = Math.ceil(src.height / step);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * step * src.width + x * step) * 4;
+      data.set(src.data.subarray(i, i + 4), (y * width + x) * 4);
+    }
+  }
+
+  const sample = { width, height, data };
+  const count = (image: RgbaImage) => {
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < image.data.length; i += 4) histogram[Math.round(luma(image.data, i))]++;
+    return histogram;
+  };
+  return { before: count(sample), after: count(applyTone(sample, tone)) };
+};
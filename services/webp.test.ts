@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { RgbaImage } from '../types';
+import { encodeWebp } from './webp';
+
+/**
+ * Reference files, checked once with libwebp to decode back to exactly the
+ * pixels below. An encoder change that alters the output has to be checked
+ * the same way before the files are replaced.
+ */
+const fixture = (name: string) => new Uint8Array(readFileSync(new URL(`./fixtures/${name}.webp`, import.meta.url)));
+
+const image = (width: number, height: number, pixel: (x: number, y: number) => number[]): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return { width, height, data };
+};
+
+const CASES: Record<string, RgbaImage> = {
+  noise: image(37, 23, (x, y) => [(x * 73 + y * 19) % 256, (x * y * 7) % 256, (x ^ y) * 9 % 256, (x * 31 + y * 57) % 256]),
+  gradient: image(300, 40, (x, y) => [x % 256, y * 6, (x + y) % 256, 255]),
+  stripes: image(64, 64, x => (x % 8 < 4 ? [255, 0, 0, 255] : [0, 0, 255, 128])),
+  pixel: image(1, 1, () => [1, 2, 3, 4]),
+};
+
+describe('WebP', () => {
+  for (const [name, source] of Object.entries(CASES)) {
+    it(`encodes ${name} to the verified reference file`, () => {
+      assert.deepEqual(encodeWebp(source), fixture(name));
+    });
+  }
+
+  it('writes a lossless RIFF container with the image size', () => {
+    const bytes = encodeWebp(CASES.gradient);
+    const ascii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    assert.equal(ascii(0), 'RIFF');
+    assert.equal(view.getUint32(4, true), bytes.length - 8);
+    assert.equal(ascii(8), 'WEBP');
+    assert.equal(ascii(12), 'VP8L');
+    const header = view.getUint32(21, true);
+    assert.equal((header & 0x3FFF) + 1, 300);
+    assert.equal(((header >> 14) & 0x3FFF) + 1, 40);
+  });
+
+  it('refuses images beyond the format limit', () => {
+    assert.throws(() => encodeWebp({ width: 16385, height: 1, data: new Uint8ClampedArray(16385 * 4) }));
+  });
+});
@@ -0,0 +1,453 @@
+import { RgbaImage } from '../types';
+
+/**
+ * Minimal lossless WebP (VP8L) encoder: subtract-green and predictor
+ * transforms, greedy LZ77 and one set of Huffman codes for the whole image.
+ *
+ * Like the PNG encoder it exists so pixels go out exact. Canvas's WebP
+ * encoding premultiplies alpha first, which loses the low bits of translucent
+ * pixels, and browsers don't agree on whether quality 1 means lossless.
+ */
+
+const MAX_DIMENSION = 1 << 14;
+
+const TRANSFORM_PREDICTOR = 0;
+const TRANSFORM_SUBTRACT_GREEN = 2;
+
+/** Predictor blocks are 2^PREDICTOR_BITS pixels square. */
+const PREDICTOR_BITS = 4;
+const PREDICTOR_MODES = 14;
+
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const MAX_CODE_LENGTH = 15;
+const MAX_CODE_LENGTH_CODE_LENGTH = 7;
+/** Order in which the code length code's own lengths are stored. */
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+const MIN_MATCH = 3;
+const MAX_MATCH = 4096;
+const HASH_BITS = 16;
+/** Candidates examined per position; higher compresses better, slower. */
+const MAX_CHAIN = 16;
+/** Distance codes up to this stand for nearby pixels; larger ones are plain distances plus it. */
+const NEIGHBOR_CODES = 120;
+/** Farthest back a match may reach with 40 distance codes. */
+const WINDOW_SIZE = (1 << 20) - NEIGHBOR_CODES;
+
+const createBitWriter = () => {
+  let out = new Uint8Array(1 << 16);
+  let pos = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  // VP8L packs bits least significant first
+  const writeBits = (value: number, length: number) => {
+    bitBuffer |= value << bitCount;
+    bitCount += length;
+    while (bitCount >= 8) {
+      if (pos === out.length) {
+        const grown = new Uint8Array(out.length * 2);
+        grown.set(out);
+        out = grown;
+      }
+      out[pos++] = bitBuffer & 0xFF;
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const finish = () => {
+    if (bitCount > 0) writeBits(0, 8 - bitCount);
+    return out.slice(0, pos);
+  };
+
+  return { writeBits, finish };
+};
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+const reverseBits = (value: number, length: number) => {
+  let out = 0;
+  for (let i = 0; i < length; i++) {
+    out = (out << 1) | (value & 1);
+    value >>= 1;
+  }
+  return out;
+};
+
+/**
+ * Huffman code lengths for `counts`, none longer than `maxLength`. When the
+ * tree gets too deep, counts are flattened and the tree is rebuilt.
+ */
+const buildCodeLengths = (counts: ArrayLike<number>, maxLength: number): Uint8Array => {
+  const lengths = new Uint8Array(counts.length);
+  let weights = Array.from(counts);
+  for (;;) {
+    const used = weights.map((w, symbol) => ({ w, symbol })).filter(n => n.w > 0);
+    if (used.length === 1) lengths[used[0].symbol] = 1;
+    if (used.length <= 1) return lengths;
+
+    // Two-queue Huffman: leaves sorted by weight, merged nodes come out sorted too
+    const leaves = used.sort((a, b) => a.w - b.w || a.symbol - b.symbol);
+    const parent = new Int32Array(leaves.length * 2 - 1);
+    const weight = new Float64Array(leaves.length * 2 - 1);
+    leaves.forEach((leaf, i) => { weight[i] = leaf.w; });
+    let leaf = 0, merged = leaves.length, next = leaves.length;
+    const take = () => (leaf < leaves.length && (merged >= next || weight[leaf] <= weight[merged]) ? leaf++ : merged++);
+    while (next < weight.length) {
+      const a = take(), b = take();
+      weight[next] = weight[a] + weight[b];
+      parent[a] = parent[b] = next++;
+    }
+
+    let deepest = 0;
+    const depth = new Uint8Array(weight.length);
+    for (let node = weight.length - 2; node >= 0; node--) {
+      depth[node] = depth[parent[node]] + 1;
+      if (node < leaves.length) deepest = Math.max(deepest, depth[node]);
+    }
+    if (deepest <= maxLength) {
+      leaves.forEach((l, i) => { lengths[l.symbol] = depth[i]; });
+      return lengths;
+    }
+    weights = weights.map(w => (w > 0 ? (w >> 1) + 1 : 0));
+  }
+};
+
+/** Canonical codes for `lengths`, bit-reversed for an LSB-first writer. */
+const canonicalCodes = (lengths: Uint8Array): Uint16Array => {
+  const codes = new Uint16Array(lengths.length);
+  const perLength = new Uint16Array(MAX_CODE_LENGTH + 1);
+  for (const length of lengths) if (length > 0) perLength[length]++;
+  const nextCode = new Uint16Array(MAX_CODE_LENGTH + 1);
+  for (let length = 1, code = 0; length <= MAX_CODE_LENGTH; length++) {
+    code = (code + perLength[length - 1]) << 1;
+    nextCode[length] = code;
+  }
+  lengths.forEach((length, symbol) => {
+    if (length > 0) codes[symbol] = reverseBits(nextCode[length]++, length);
+  });
+  return codes;
+};
+
+interface PrefixCode {
+  lengths: Uint8Array;
+  codes: Uint16Array;
+}
+
+/**
+ * Builds the code for a histogram and writes its description. One or two
+ * symbols below 256 use the compact "simple" form; a single symbol then
+ * costs no bits at all.
+ */
+const writePrefixCode = (bits: BitWriter, counts: Uint32Array): PrefixCode => {
+  const used: number[] = [];
+  counts.forEach((count, symbol) => { if (count > 0) used.push(symbol); });
+
+  if (used.length <= 2 && used.every(symbol => symbol < 256)) {
+    const symbols = used.length > 0 ? used : [0];
+    bits.writeBits(1, 1);
+    bits.writeBits(symbols.length - 1, 1);
+    const wide = symbols[0] > 1;
+    bits.writeBits(wide ? 1 : 0, 1);
+    bits.writeBits(symbols[0], wide ? 8 : 1);
+    if (symbols.length === 2) bits.writeBits(symbols[1], 8);
+    const lengths = new Uint8Array(counts.length);
+    if (symbols.length === 2) lengths[symbols[0]] = lengths[symbols[1]] = 1;
+    return { lengths, codes: canonicalCodes(lengths) };
+  }
+
+  // A lone symbol still needs a complete code here: pair it with a dummy
+  const weights = Array.from(counts);
+  if (used.length === 1) weights[used[0] === 0 ? 1 : 0] = 1;
+  const lengths = buildCodeLengths(weights, MAX_CODE_LENGTH);
+
+  // Run-length code the lengths: 16 repeats the previous length 3–6 times,
+  // 17 and 18 emit 3–10 and 11–138 zeros
+  const tokens: { symbol: number; extra: number }[] = [];
+  for (let i = 0; i < lengths.length;) {
+    const value = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === value) run++;
+    i += run;
+    if (value === 0) {
+      while (run >= 11) { const n = Math.min(run, 138); tokens.push({ symbol: 18, extra: n - 11 }); run -= n; }
+      if (run >= 3) { tokens.push({ symbol: 17, extra: run - 3 }); run = 0; }
+    } else {
+      tokens.push({ symbol: value, extra: 0 });
+      run--;
+      while (run >= 3) { const n = Math.min(run, 6); tokens.push({ symbol: 16, extra: n - 3 }); run -= n; }
+    }
+    for (; run > 0; run--) tokens.push({ symbol: value, extra: 0 });
+  }
+
+  const lengthCounts = new Array<number>(19).fill(0);
+  for (const { symbol } of tokens) lengthCounts[symbol]++;
+  if (lengthCounts.filter(c => c > 0).length === 1) lengthCounts[lengthCounts[0] > 0 ? 1 : 0] = 1;
+  const lengthLengths = buildCodeLengths(lengthCounts, MAX_CODE_LENGTH_CODE_LENGTH);
+  const lengthCodes = canonicalCodes(lengthLengths);
+
+  let stored = CODE_LENGTH_ORDER.length;
+  while (stored > 4 && lengthLengths[CODE_LENGTH_ORDER[stored - 1]] === 0) stored--;
+  bits.writeBits(0, 1);
+  bits.writeBits(stored - 4, 4);
+  for (let i = 0; i < stored; i++) bits.writeBits(lengthLengths[CODE_LENGTH_ORDER[i]], 3);
+  bits.writeBits(0, 1); // lengths for the whole alphabet follow
+  const EXTRA_BITS: Record<number, number> = { 16: 2, 17: 3, 18: 7 };
+  for (const { symbol, extra } of tokens) {
+    bits.writeBits(lengthCodes[symbol], lengthLengths[symbol]);
+    if (symbol >= 16) bits.writeBits(extra, EXTRA_BITS[symbol]);
+  }
+
+  return { lengths, codes: canonicalCodes(lengths) };
+};
+
+/** Splits a length or distance (≥ 1) into prefix symbol and extra bits. */
+const prefixEncode = (value: number) => {
+  const d = value - 1;
+  if (d < 4) return { prefix: d, extraBits: 0, extra: 0 };
+  const high = 31 - Math.clz32(d);
+  const second = (d >> (high - 1)) & 1;
+  return { prefix: 2 * high + second, extraBits: high - 1, extra: d & ((1 << (high - 1)) - 1) };
+};
+
+/**
+ * Writes ARGB pixels as an entropy-coded image: no color cache, one group of
+ * Huffman codes, greedy LZ77 over a hash chain. The main image additionally
+ * declares that it has no meta prefix codes.
+ */
+const writeImage = (bits: BitWriter, argb: Uint32Array, width: number, main: boolean) => {
+  const size = argb.length;
+  const literal = new Uint8Array(size); // 1 where the token is a pixel
+  const matchLength = new Uint16Array(size);
+  const matchCode = new Uint32Array(size);
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const prev = new Int32Array(size);
+  const hashAt = (i: number) => (Math.imul(argb[i], 0x1E35A7BD) ^ Math.imul(argb[i + 1], 0x9E3779B1)) >>> (32 - HASH_BITS);
+  const insert = (i: number) => {
+    if (i + 1 >= size) return;
+    const h = hashAt(i);
+    prev[i] = head[h];
+    head[h] = i;
+  };
+  const matchAt = (i: number, candidate: number, limit: number) => {
+    let length = 0;
+    while (length < limit && argb[candidate + length] === argb[i + length]) length++;
+    return length;
+  };
+
+  const green = new Uint32Array(256 + NUM_LENGTH_CODES);
+  const red = new Uint32Array(256);
+  const blue = new Uint32Array(256);
+  const alpha = new Uint32Array(256);
+  const distance = new Uint32Array(NUM_DISTANCE_CODES);
+
+  const tokens: number[] = [];
+  for (let i = 0; i < size;) {
+    const limit = Math.min(MAX_MATCH, size - i);
+    let bestLength = 0, bestDistance = 0;
+    if (limit >= MIN_MATCH) {
+      // The pixel to the left and the one above have the cheapest codes
+      for (const d of [1, width]) {
+        if (d <= i) {
+          const length = matchAt(i, i - d, limit);
+          if (length > bestLength) { bestLength = length; bestDistance = d; }
+        }
+      }
+      let candidate = head[hashAt(i)];
+      for (let chain = MAX_CHAIN; candidate >= 0 && i - candidate <= WINDOW_SIZE && chain > 0 && bestLength < limit; chain--) {
+        const length = matchAt(i, candidate, limit);
+        if (length > bestLength) { bestLength = length; bestDistance = i - candidate; }
+        candidate = prev[candidate];
+      }
+    }
+
+    tokens.push(i);
+    if (bestLength >= MIN_MATCH) {
+      const code = bestDistance === width ? 1 : bestDistance === 1 ? 2 : bestDistance + NEIGHBOR_CODES;
+      matchLength[i] = bestLength;
+      matchCode[i] = code;
+      green[256 + prefixEncode(bestLength).prefix]++;
+      distance[prefixEncode(code).prefix]++;
+      for (let k = 0; k < bestLength; k++) insert(i + k);
+      i += bestLength;
+    } else {
+      const p = argb[i];
+      literal[i] = 1;
+      green[(p >>> 8) & 0xFF]++;
+      red[(p >>> 16) & 0xFF]++;
+      blue[p & 0xFF]++;
+      alpha[p >>> 24]++;
+      insert(i);
+      i++;
+    }
+  }
+
+  bits.writeBits(0, 1); // no color cache
+  if (main) bits.writeBits(0, 1); // no meta prefix codes
+  const codes = [green, red, blue, alpha, distance].map(counts => writePrefixCode(bits, counts));
+  const put = (code: PrefixCode, symbol: number) => bits.writeBits(code.codes[symbol], code.lengths[symbol]);
+
+  for (const i of tokens) {
+    if (literal[i]) {
+      const p = argb[i];
+      put(codes[0], (p >>> 8) & 0xFF);
+      put(codes[1], (p >>> 16) & 0xFF);
+      put(codes[2], p & 0xFF);
+      put(codes[3], p >>> 24);
+    } else {
+      const length = prefixEncode(matchLength[i]);
+      put(codes[0], 256 + length.prefix);
+      bits.writeBits(length.extra, length.extraBits);
+      const dist = prefixEncode(matchCode[i]);
+      put(codes[4], dist.prefix);
+      bits.writeBits(dist.extra, dist.extraBits);
+    }
+  }
+};
+
+// Per-channel helpers on packed ARGB
+const channel = (p: number, shift: number) => (p >>> shift) & 0xFF;
+const perChannel = (f: (shift: number) => number) =>
+  ((f(24) << 24) | (f(16) << 16) | (f(8) << 8) | f(0)) >>> 0;
+const average2 = (a: number, b: number) => perChannel(s => (channel(a, s) + channel(b, s)) >> 1);
+const clamp255 = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+const select = (l: number, t: number, tl: number) => {
+  let distL = 0, distT = 0;
+  for (const s of [24, 16, 8, 0]) {
+    const estimate = channel(l, s) + channel(t, s) - channel(tl, s);
+    distL += Math.abs(estimate - channel(l, s));
+    distT += Math.abs(estimate - channel(t, s));
+  }
+  return distL < distT ? l : t;
+};
+
+/** The 14 VP8L predictors, given left, top, top-left and top-right. */
+const predict = (mode: number, l: number, t: number, tl: number, tr: number): number => {
+  switch (mode) {
+    case 0: return 0xFF000000;
+    case 1: return l;
+    case 2: return t;
+    case 3: return tr;
+    case 4: return tl;
+    case 5: return average2(average2(l, tr), t);
+    case 6: return average2(l, tl);
+    case 7: return average2(l, t);
+    case 8: return average2(tl, t);
+    case 9: return average2(t, tr);
+    case 10: return average2(average2(l, tl), average2(t, tr));
+    case 11: return select(l, t, tl);
+    case 12: return perChannel(s => clamp255(channel(l, s) + channel(t, s) - channel(tl, s)));
+    default: {
+      const avg = average2(l, t);
+      return perChannel(s => clamp255(channel(avg, s) + Math.trunc((channel(avg, s) - channel(tl, s)) / 2)));
+    }
+  }
+};
+
+const residual = (p: number, prediction: number) => perChannel(s => (channel(p, s) - channel(prediction, s)) & 0xFF);
+
+/**
+ * Replaces `argb` by prediction residuals, choosing per block the predictor
+ * with the smallest residuals. Returns the block modes as a sub-image.
+ */
+const applyPredictor = (argb: Uint32Array, width: number, height: number): Uint32Array => {
+  const block = 1 << PREDICTOR_BITS;
+  const blocksX = Math.ceil(width / block);
+  const blocksY = Math.ceil(height / block);
+  const modes = new Uint32Array(blocksX * blocksY);
+  const source = argb.slice();
+
+  // The first row and column have fixed predictors; every other pixel uses its block's mode
+  const predictAt = (mode: number, x: number, y: number) => {
+    const i = y * width + x;
+    if (y === 0) return x === 0 ? 0xFF000000 : source[i - 1];
+    if (x === 0) return source[i - width];
+    return predict(mode, source[i - 1], source[i - width], source[i - width - 1], source[i - width + 1]);
+  };
+  const cost = (v: number) => {
+    let sum = 0;
+    for (const s of [24, 16, 8, 0]) {
+      const c = channel(v, s);
+      sum += c < 128 ? c : 256 - c;
+    }
+    return sum;
+  };
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const x1 = Math.min(width, (bx + 1) * block), y1 = Math.min(height, (by + 1) * block);
+      let bestMode = 0, bestCost = Infinity;
+      for (let mode = 0; mode < PREDICTOR_MODES; mode++) {
+        let total = 0;
+        for (let y = by * block; y < y1 && total < bestCost; y++) {
+          for (let x = bx * block; x < x1; x++) total += cost(residual(source[y * width + x], predictAt(mode, x, y)));
+        }
+        if (total < bestCost) { bestCost = total; bestMode = mode; }
+      }
+      modes[by * blocksX + bx] = (0xFF000000 | (bestMode << 8)) >>> 0;
+      for (let y = by * block; y < y1; y++) {
+        for (let x = bx * block; x < x1; x++) argb[y * width + x] = residual(source[y * width + x], predictAt(bestMode, x, y));
+      }
+    }
+  }
+  return modes;
+};
+
+/**
+ * Encodes RGBA pixels as a lossless WebP file.
+ */
+export const encodeWebp = (image: RgbaImage): Uint8Array => {
+  const { width, height, data } = image;
+  if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new Error(`WebP images are limited to ${MAX_DIMENSION}×${MAX_DIMENSION} pixels`);
+  }
+
+  // ARGB with green subtracted from red and blue
+  const argb = new Uint32Array(width * height);
+  let hasAlpha = false;
+  for (let p = 0; p < argb.length; p++) {
+    const i = p * 4;
+    const g = data[i + 1];
+    argb[p] = ((data[i + 3] << 24) | (((data[i] - g) & 0xFF) << 16) | (g << 8) | ((data[i + 2] - g) & 0xFF)) >>> 0;
+    if (data[i + 3] < 255) hasAlpha = true;
+  }
+  const modes = applyPredictor(argb, width, height);
+
+  const bits = createBitWriter();
+  bits.writeBits(0x2F, 8); // signature
+  bits.writeBits(width - 1, 14);
+  bits.writeBits(height - 1, 14);
+  bits.writeBits(hasAlpha ? 1 : 0, 1);
+  bits.writeBits(0, 3); // version
+
+  // Transforms in the order applied; the decoder undoes them in reverse
+  bits.writeBits(1, 1);
+  bits.writeBits(TRANSFORM_SUBTRACT_GREEN, 2);
+  bits.writeBits(1, 1);
+  bits.writeBits(TRANSFORM_PREDICTOR, 2);
+  bits.writeBits(PREDICTOR_BITS - 2, 3);
+  writeImage(bits, modes, Math.ceil(width / (1 << PREDICTOR_BITS)), false);
+  bits.writeBits(0, 1);
+
+  writeImage(bits, argb, width, true);
+  const vp8l = bits.finish();
+
+  // RIFF container; chunks are padded to an even length
+  const padded = vp8l.length + (vp8l.length & 1);
+  const out = new Uint8Array(20 + padded);
+  const view = new DataView(out.buffer);
+  const ascii = (text: string, offset: number) => {
+    for (let i = 0; i < 4; i++) out[offset + i] = text.charCodeAt(i);
+  };
+  ascii('RIFF', 0);
+  view.setUint32(4, 12 + padded, true);
+  ascii('WEBP', 8);
+  ascii('VP8L', 12);
+  view.setUint32(16, vp8l.length, true);
+  out.set(vp8l, 20);
+  return out;
+};
@@ -19,16 +19,122 @@ export interface ProcessingConfig {
   grayscale: boolean;
 
   /**
-   * Strength of dithering noise [0, 1].
+   * Background the surface image is meant to be seen on, as #RRGGBB.
+   */
+  lightBackground: string;
+
+  /**
+   * Background the hidden image is meant to be seen on, as #RRGGBB.
+   * Must be darker than `lightBackground` in every channel.
+   */
+  darkBackground: string;
+
+  /**
+   * How color mode picks alpha and color per pixel. See ColorSolver.
+   */
+  colorSolver: ColorSolver;
+
+  /**
+   * Lab solver only: share of the error budget given to the surface image
+   * [0, 1]. 0.5 is balanced, higher favors the surface over the hidden image.
+   */
+  colorSolverWeight: number;
+
+  /**
+   * Dithering strength [0, 1]; 1 is the full effect of `ditherAlgorithm`.
    * Helps prevent color banding in gradients.
    */
   dithering: number;
 
+  /**
+   * How to dither. See DitherAlgorithm.
+   */
+  ditherAlgorithm: DitherAlgorithm;
+
+  /**
+   * Seed for every random choice in the pipeline, so the same inputs and
+   * config always produce the same PNG.
+   */
+  seed: number;
+
   /**
    * Optional text to hide inside the image data (LSB Steganography).
    */
   steganography: string;
+
+  /**
+   * Optional passphrase. When set, the steganography text is encrypted
+   * (AES-GCM, PBKDF2-derived key) before embedding.
+   */
+  steganographyPassphrase: string;
+
+  /**
+   * How many low bits of each carrier channel hold payload data (1–2).
+   * 2 doubles capacity at the cost of slightly more visible noise.
+   */
+  steganographyBits: number;
+
+  /**
+   * Which color channels carry payload bits.
+   */
+  steganographyChannels: StegoChannel[];
+
+  /**
+   * Skip near-transparent pixels. Browsers store canvas pixels with
+   * premultiplied alpha, which destroys the low RGB bits of those pixels and
+   * can still flip them in any pixel that isn't fully opaque.
+   */
+  steganographySkipTransparent: boolean;
   
+  /**
+   * Adaptive local mapping strength [0, 1]; 0 is off. Around pixels where the
+   * hidden image would be clamped, the surface floor is raised and the hidden
+   * ceiling lowered locally to make room.
+   */
+  adaptiveMapping: number;
+
+  /**
+   * Smoothing radius of the adaptive mapping, in output pixels.
+   */
+  adaptiveRadius: number;
+
+  /**
+   * Frame duration in milliseconds for inputs given as a sequence of images.
+   * Animated GIF/APNG inputs keep their own timing.
+   */
+  frameDelay: number;
+
+  /**
+   * How the surface image is placed in the output frame.
+   */
+  surfaceTransform: LayerTransform;
+
+  /**
+   * How the hidden image is placed in the output frame.
+   */
+  hiddenTransform: LayerTransform;
+
+  /**
+   * Tone adjustments applied to the surface image before mapping.
+   */
+  surfaceTone: ToneAdjustments;
+
+  /**
+   * Tone adjustments applied to the hidden image before mapping.
+   */
+  hiddenTone: ToneAdjustments;
+
+  /**
+   * Write these settings into the output PNG (an iTXt chunk), so loading it
+   * later can restore them. The message and passphrase are never written.
+   */
+  embedSettings: boolean;
+
+  /**
+   * Also record SHA-256 hashes of the input files with the settings.
+   */
+  embedSourceHashes: boolean;
+
   /**
    * Output width. If null, uses the smaller of the two input widths.
    */
@@ -40,10 +146,345 @@ export interface ProcessingConfig {
   height?: number;
 }
 
-export type ImageSlot = 'surface' | 'hidden';
+export type StegoChannel = 'r' | 'g' | 'b';
+
+/**
+ * - cover: fill the frame, cropping the overflow.
+ * - contain: show the whole image, leaving background around it.
+ * - stretch: fill the frame exactly, ignoring the aspect ratio.
+ */
+export type FitMode = 'cover' | 'contain' | 'stretch';
+
+/**
+ * - none: leave the histogram as is.
+ * - global: equalize the whole image.
+ * - clahe: contrast-limited adaptive equalization, per region.
+ */
+export type EqualizeMode = 'none' | 'global' | 'clahe';
+
+/**
+ * Tonal edits for one input, applied before it is mapped into its range.
+ */
+export interface ToneAdjustments {
+  /** Levels: input values at or below become black, 0–255. */
+  blackPoint: number;
+  /** Levels: input values at or above become white, 0–255. */
+  whitePoint: number;
+  /** Midtone gamma; above 1 brightens. */
+  gamma: number;
+  /** -1 (flat gray) to 1 (steep); 0 leaves it. */
+  contrast: number;
+  /** -1 to 1, as a fraction of half the range. */
+  brightness: number;
+  equalize: EqualizeMode;
+  invert: boolean;
+}
+
+/**
+ * Framing of one input in the output. Applied in this order: fit, flip,
+ * zoom, rotation about the center, then pan.
+ */
+export interface LayerTransform {
+  fit: FitMode;
+  /** Pan as a fraction of the output width/height; 0 is centered. */
+  offsetX: number;
+  offsetY: number;
+  /** Scale on top of the fit; 1 is as fitted. */
+  zoom: number;
+  /** Clockwise, in degrees. */
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+/**
+ * - max-alpha: clamp B to A per channel, then take the highest channel alpha.
+ *   Exact on black, ghosts on white.
+ * - lab: per-pixel search for the alpha and color minimizing the weighted
+ *   CIELAB error over white and over black.
+ */
+export type ColorSolver = 'max-alpha' | 'lab';
+
+/**
+ * - noise: seeded white noise added to both inputs before mapping.
+ * - bayer: ordered 8×8 Bayer thresholds on the final alpha/color values.
+ * - blue-noise: ordered blue-noise thresholds on the final values.
+ * - floyd-steinberg: error diffusion on the final values.
+ */
+export type DitherAlgorithm = 'noise' | 'bayer' | 'blue-noise' | 'floyd-steinberg';
+
+/**
+ * Input slots. 'secret' is the optional third image hidden in the LSBs.
+ */
+export type ImageSlot = 'surface' | 'hidden' | 'secret';
+
+export type AppMode = 'generate' | 'decode' | 'analyze';
+
+/**
+ * Outcome of reading an LSB payload back out of an image.
+ * - ok: the full message was recovered and its checksum matches.
+ * - empty: no container magic was found, i.e. there is no payload.
+ * - corrupt: the container was found but its checksum does not match.
+ * - truncated: the header claims more bytes than the image can hold; `text`
+ *   holds the part that was recovered.
+ * - unsupported: the container uses a version or flags this build can't read.
+ * - locked: the payload is encrypted and the passphrase is missing or wrong.
+ */
+export type StegoExtractStatus = 'ok' | 'empty' | 'corrupt' | 'truncated' | 'unsupported' | 'locked';
+
+/**
+ * A file (e.g. an image) carried alongside or instead of the text message.
+ */
+export interface StegoFile {
+  mime: string;
+  bytes: Uint8Array;
+}
+
+export interface StegoExtractResult {
+  status: StegoExtractStatus;
+  text: string;
+  /** Embedded file, when the payload carries one. */
+  file?: StegoFile;
+  /** Container format version (0 when no container was found). */
+  version: number;
+  /** Container flag bits, see StegoFlags. */
+  flags: number;
+  /** Byte length claimed by the payload header. */
+  declaredLength: number;
+  /** Byte length actually read from the image. */
+  recoveredLength: number;
+}
+
+/**
+ * Raw, unpremultiplied RGBA pixels. The DOM-free stand-in for ImageData.
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * One frame of an animation, shown for `delay` milliseconds.
+ */
+export interface AnimationFrame {
+  image: RgbaImage;
+  delay: number;
+}
+
+/**
+ * Fully composited frames of the same size; a still image has one frame.
+ * `loops` is the play count, 0 meaning forever.
+ */
+export interface AnimatedImage {
+  width: number;
+  height: number;
+  frames: AnimationFrame[];
+  loops: number;
+}
+
+/**
+ * How closely a result reproduces its targets. PSNR is in dB over RGB
+ * (Infinity for an exact match), SSIM is on luma, 1 meaning identical.
+ */
+export interface FidelityMetrics {
+  /** Output over the light background vs the mapped surface image. */
+  surfacePsnr: number;
+  surfaceSsim: number;
+  /** Output over the dark background vs the mapped hidden image. */
+  hiddenPsnr: number;
+  hiddenSsim: number;
+  /** Pixels where the hidden target was brighter than the surface and got clamped. */
+  clampedPixels: number;
+  totalPixels: number;
+}
 
 export interface ProcessedResult {
   dataUrl: string;
   width: number;
   height: number;
-}
\ No newline at end of file
+  /** Payload bytes the output can carry with the configured steganography layout. */
+  stegoCapacity: number;
+  /** Encoded size of the embedded secret image, 0 when there is none. */
+  secretBytes: number;
+  fidelity: FidelityMetrics;
+  /** PNG data URL of the error heatmap, same size as the output. */
+  heatmapUrl: string;
+  /** Frames in the output; above 1 it is an APNG. */
+  frameCount: number;
+  /** Length of one animation cycle in milliseconds, 0 for a still image. */
+  duration: number;
+  /** Raw pixels behind the first frame, for the pixel inspector. */
+  inspection: InspectionData;
+}
+
+/**
+ * What one output pixel was made from. Everything is the size of the output.
+ */
+export interface InspectionData {
+  /** Inputs after tone adjustments and framing. */
+  surface: RgbaImage;
+  hidden: RgbaImage;
+  output: RgbaImage;
+  /** The config the output was generated with. */
+  config: ProcessingConfig;
+}
+
+/**
+ * - png: 32-bit RGBA, lossless (an APNG for animations).
+ * - png8: palette of up to 256 RGBA colors, quantized for both backgrounds.
+ * - webp: lossless WebP.
+ */
+export type ExportFormat = 'png' | 'png8' | 'webp';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Largest acceptable file size in bytes, 0 for no limit. */
+  maxBytes: number;
+  /** Backgrounds the result is judged on, as #RRGGBB. */
+  lightBackground: string;
+  darkBackground: string;
+}
+
+export interface ExportResult {
+  bytes: Uint8Array;
+  mime: string;
+  /** File extension without the dot. */
+  extension: string;
+  width: number;
+  height: number;
+  /** Output size relative to the original, 1 when not downscaled. */
+  scale: number;
+  /** Palette size for png8. */
+  colors?: number;
+  /** False when even the smallest attempt exceeded maxBytes; the result is that attempt. */
+  fits: boolean;
+  /** Every pixel is unchanged, so hidden payloads survive. */
+  exact: boolean;
+  /**
+   * PSNR in dB of the export over each background against the original at
+   * the same size (Infinity when identical): the loss from quantization alone.
+   */
+  lightPsnr: number;
+  darkPsnr: number;
+}
+
+/**
+ * What a chat platform does to an uploaded image, roughly. Platforms change
+ * this without notice; profiles are approximations of observed behavior.
+ */
+export interface PlatformProfile {
+  id: string;
+  name: string;
+  /** Larger uploads are rejected, in bytes; 0 for no limit. */
+  maxUploadBytes: number;
+  /** Longest edge kept; larger images are scaled down. 0 for no limit. */
+  maxEdge: number;
+  /**
+   * PNGs of at least this many bytes are converted to JPEG (alpha flattened
+   * onto `flattenColor`); 0 converts everything, null keeps PNGs as they are.
+   */
+  jpegAbove: number | null;
+  /** JPEG quality, 0–1. */
+  jpegQuality: number;
+  /** #RRGGBB that transparency is flattened onto when converting to JPEG. */
+  flattenColor: string;
+  /** Longest edge of the thumbnail shown in the chat. */
+  thumbnailEdge: number;
+  /** Whether thumbnails are JPEG (flattened) rather than keeping alpha. */
+  thumbnailJpeg: boolean;
+  /** Chat backgrounds of the light and dark themes, as #RRGGBB. */
+  lightTheme: string;
+  darkTheme: string;
+}
+
+/**
+ * - ok: both images come through.
+ * - degraded: still works, but visibly worse.
+ * - destroyed: one of the images is lost, or the upload is rejected.
+ */
+export type SurvivalStatus = 'ok' | 'degraded' | 'destroyed';
+
+export interface PlatformSimulation {
+  profileId: string;
+  status: SurvivalStatus;
+  /** What happened to the upload, in order. */
+  steps: string[];
+  /** Why the status is not ok. */
+  warnings: string[];
+  /** Whether the full image arrives pixel for pixel, which hidden payloads need. */
+  exact: boolean;
+  /** SSIM of the chat thumbnail against the untouched image over each theme. */
+  lightSsim: number;
+  darkSsim: number;
+  /** The thumbnail as shown in the chat, as a PNG data URL. */
+  thumbnailUrl: string;
+}
+
+/**
+ * An existing mirage split back into its layers, see analyzeMirage.
+ */
+export interface MirageAnalysis {
+  /** The image over white, stretched from [surfaceMin, 255] back to full range. */
+  surface: RgbaImage;
+  /** The image over black, stretched from [0, hiddenMax] back to full range. */
+  hidden: RgbaImage;
+  /** Ranges the layers appear to have been mapped into. */
+  surfaceMin: number;
+  hiddenMax: number;
+  /** Whether the mirage has (next to) no colored pixels. */
+  grayscale: boolean;
+  /** Share of pixels that are not fully opaque; near 0 means it is no mirage. */
+  translucentShare: number;
+}
+
+/**
+ * SHA-256 of each input file as lowercase hex; several for frame sequences.
+ */
+export interface SourceHashes {
+  surface: string[];
+  hidden: string[];
+}
+
+/**
+ * How an output was made, as recorded in its PNG metadata.
+ */
+export interface MirageSettings {
+  /** Format version of the record, when readable. */
+  version?: number;
+  /** What wrote it, e.g. "Mirage Tank Factory", when readable. */
+  software?: string;
+  /** Everything but the message and passphrase, which stay blank. */
+  config: ProcessingConfig;
+  sources?: SourceHashes;
+}
+
+/**
+ * A whole working session: both inputs, the optional secret and the settings.
+ */
+export interface MirageProject {
+  config: ProcessingConfig;
+  /** One file, or several for a frame sequence. */
+  surface: File[];
+  hidden: File[];
+  secret: File | null;
+}
+
+/**
+ * Settings a preset can carry: everything but what belongs to one pair of
+ * images (framing, size) or one message.
+ */
+export type PresetSettings = Omit<
+  ProcessingConfig,
+  'steganography' | 'steganographyPassphrase' | 'surfaceTransform' | 'hiddenTransform' | 'width' | 'height'
+>;
+
+export interface Preset {
+  id: string;
+  name: string;
+  description?: string;
+  /** Shipped with the app; can't be renamed or deleted. */
+  builtIn: boolean;
+  /** Applied over the current config; settings left out stay as they are. */
+  settings: Partial<PresetSettings>;
+}